@@ -1,100 +1,88 @@
-import { NextRequest, NextResponse } from "next/server"
 import { compare } from "bcryptjs"
 import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
 import { prisma } from "@/lib/prisma"
 import {
   generateAccessToken,
-  generateRefreshToken,
-  hashToken,
-  getRefreshTokenExpiration,
   getAccessTokenExpiration
 } from "@/lib/jwt"
-import { LoginResponse } from "@/types/api"
+import { issueRefreshToken } from "@/lib/refreshTokens"
+import { getRolePermissions } from "@/lib/roles"
+import { getClientIp } from "@/lib/middleware/authMiddleware"
+import { reserveLoginAttempt, recordLoginFailure, recordLoginSuccess } from "@/lib/loginThrottle"
+import { LoginData } from "@/types/api"
 
 // Validation schema for login request
 const loginSchema = z.object({
   email: z.string().email("Email invalide"),
-  password: z.string().min(1, "Mot de passe requis")
+  password: z.string().min(1, "Mot de passe requis"),
+  // Appareil affiché dans la liste des sessions
+  deviceName: z.string().trim().max(100).optional(),
+  platform: z.string().trim().max(50).optional()
 })
 
-export async function POST(req: NextRequest) {
-  try {
-    // Parse and validate request body
-    const body = await req.json()
-    const validationResult = loginSchema.safeParse(body)
+export const POST = createHandler({
+  auth: 'public',
+  body: loginSchema,
+}, async ({ request, body: { email, password, deviceName, platform }, locale }) => {
+  const ipAddress = getClientIp(request)
 
-    if (!validationResult.success) {
-      const response: LoginResponse = {
-        success: false,
-        error: validationResult.error.issues[0].message
-      }
-      return NextResponse.json(response, { status: 400 })
-    }
-
-    const { email, password } = validationResult.data
+  // Refuse locked accounts/IPs and attempts made too soon after a failure, and count this one until it succeeds
+  const throttle = await reserveLoginAttempt(email, ipAddress)
 
-    // Find user by email
-    const user = await prisma.user.findUnique({
-      where: { email }
+  if (!throttle.allowed) {
+    return apiErrorResponse(throttle.code, { retryAfter: throttle.retryAfter }, locale, {
+      headers: { 'Retry-After': String(throttle.retryAfter) }
     })
+  }
 
-    if (!user) {
-      const response: LoginResponse = {
-        success: false,
-        error: "Email ou mot de passe incorrect"
-      }
-      return NextResponse.json(response, { status: 401 })
-    }
+  // Find user by email
+  const user = await prisma.user.findUnique({
+    where: { email }
+  })
 
-    // Verify password
-    const isPasswordValid = await compare(password, user.password)
+  if (!user) {
+    await recordLoginFailure(email, ipAddress)
+    return apiErrorResponse('INVALID_CREDENTIALS', undefined, locale)
+  }
 
-    if (!isPasswordValid) {
-      const response: LoginResponse = {
-        success: false,
-        error: "Email ou mot de passe incorrect"
-      }
-      return NextResponse.json(response, { status: 401 })
-    }
+  // Verify password
+  const isPasswordValid = await compare(password, user.password)
+
+  if (!isPasswordValid) {
+    await recordLoginFailure(email, ipAddress, user.id)
+    return apiErrorResponse('INVALID_CREDENTIALS', undefined, locale)
+  }
 
-    // Generate tokens
-    const accessToken = generateAccessToken(user.id, user.email, user.role)
-    const refreshToken = generateRefreshToken()
-    const hashedRefreshToken = hashToken(refreshToken)
+  await recordLoginSuccess(email, ipAddress)
 
-    // Store refresh token in database
-    const expiresAt = new Date(Date.now() + getRefreshTokenExpiration())
-    await prisma.refreshToken.create({
-      data: {
-        token: hashedRefreshToken,
-        userId: user.id,
-        expiresAt
-      }
-    })
+  // Disabled accounts are only revealed once the password is known
+  if (!user.active) {
+    return apiErrorResponse('ACCOUNT_DISABLED', undefined, locale)
+  }
 
-    // Return success response with tokens
-    const response: LoginResponse = {
-      success: true,
-      data: {
-        accessToken,
-        refreshToken,
-        expiresIn: getAccessTokenExpiration(),
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          role: user.role
-        }
-      }
-    }
+  // Store refresh token in database (first token of a new rotation family = new device session)
+  const { refreshToken, record } = await issueRefreshToken(user.id, {
+    deviceName: deviceName || request.headers.get('user-agent')?.slice(0, 100) || null,
+    platform: platform || null,
+    ipAddress
+  })
 
-    return NextResponse.json(response, { status: 200 })
-  } catch (error) {
-    console.error("Login error:", error)
-    const response: LoginResponse = {
-      success: false,
-      error: "Erreur lors de la connexion"
+  // Generate access token bound to the session, carrying the permissions of the role
+  const permissions = await getRolePermissions(user.role)
+  const accessToken = generateAccessToken(user.id, user.email, user.role, permissions, record.familyId)
+
+  return successResponse<LoginData>({
+    accessToken,
+    refreshToken,
+    expiresIn: getAccessTokenExpiration(),
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      permissions
     }
-    return NextResponse.json(response, { status: 500 })
-  }
-}
+  })
+})
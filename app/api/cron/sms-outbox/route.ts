@@ -0,0 +1,39 @@
+import { timingSafeEqual } from "crypto"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse } from "@/lib/apiResponse"
+import { processSmsOutbox } from "@/lib/smsOutbox"
+
+const cronQuerySchema = z.object({
+  limit: z.coerce.number().catch(20).transform(limit => Math.min(Math.max(Math.trunc(limit), 1), 100))
+})
+
+// GET|POST /api/cron/sms-outbox - Worker : envoie les SMS en attente (à appeler chaque minute)
+// Protégé par le secret partagé CRON_SECRET (header Authorization: Bearer <CRON_SECRET>)
+const handler = createHandler({
+  auth: 'public',
+  query: cronQuerySchema,
+}, async ({ request, query: { limit }, locale }) => {
+  const secret = process.env.CRON_SECRET
+
+  if (!secret) {
+    console.error("CRON_SECRET is not configured")
+    return apiErrorResponse('SERVICE_UNAVAILABLE', undefined, locale)
+  }
+
+  // Comparaison en temps constant : la durée ne révèle pas la part du secret déjà devinée
+  const received = Buffer.from(request.headers.get("authorization") ?? '', 'utf8')
+  const expected = Buffer.from(`Bearer ${secret}`, 'utf8')
+
+  // timingSafeEqual exige des tampons de même longueur
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return apiErrorResponse('UNAUTHORIZED', undefined, locale)
+  }
+
+  const summary = await processSmsOutbox(limit)
+
+  return NextResponse.json(summary)
+})
+
+export { handler as GET, handler as POST }
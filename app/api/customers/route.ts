@@ -1,54 +1,49 @@
-import { NextRequest, NextResponse } from "next/server"
-import { getServerSession } from "next-auth"
-import { authOptions } from "@/lib/auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { errorResponse } from "@/lib/apiResponse"
 import { prisma } from "@/lib/prisma"
-
-export async function GET() {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+import { normalizeOptionalPhone } from "@/lib/phone"
+
+const customerSchema = z.object({
+  name: z.string({ message: "Name is required" }).min(1, "Name is required"),
+  email: z.string().optional().nullable(),
+  phone: z.string().optional().nullable(),
+  address: z.string().optional().nullable(),
+})
+
+export const GET = createHandler({
+  auth: 'session',
+  permission: 'customers.view',
+}, async () => {
+  const customers = await prisma.customer.findMany({
+    orderBy: {
+      name: 'asc'
     }
-
-    const customers = await prisma.customer.findMany({
-      orderBy: {
-        name: 'asc'
-      }
-    })
-
-    return NextResponse.json(customers)
-  } catch (error) {
-    console.error("Error fetching customers:", error)
-    return NextResponse.json({ error: "Failed to fetch customers" }, { status: 500 })
+  })
+
+  return NextResponse.json(customers)
+})
+
+export const POST = createHandler({
+  auth: 'session',
+  permission: 'customers.edit',
+  body: customerSchema,
+}, async ({ body: { name, email, phone, address } }) => {
+  const phoneE164 = normalizeOptionalPhone(phone)
+  if (!phoneE164.success) {
+    return errorResponse(phoneE164.error, 400, 'VALIDATION_ERROR', { field: 'phone' })
   }
-}
-
-export async function POST(req: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
-
-    const body = await req.json()
-    const { name, email, phone, address } = body
 
-    if (!name) {
-      return NextResponse.json({ error: "Name is required" }, { status: 400 })
+  const customer = await prisma.customer.create({
+    data: {
+      name,
+      email: email || null,
+      phone: phone || null,
+      phoneE164: phoneE164.e164 ?? null,
+      address: address || null,
     }
+  })
 
-    const customer = await prisma.customer.create({
-      data: {
-        name,
-        email: email || null,
-        phone: phone || null,
-        address: address || null,
-      }
-    })
-
-    return NextResponse.json(customer, { status: 201 })
-  } catch (error) {
-    console.error("Error creating customer:", error)
-    return NextResponse.json({ error: "Failed to create customer" }, { status: 500 })
-  }
-}
+  return NextResponse.json(customer, { status: 201 })
+})
@@ -1,102 +1,95 @@
 import { NextResponse } from "next/server"
-import { getServerSession } from "next-auth"
-import { authOptions } from "@/lib/auth"
+import { createHandler } from "@/lib/apiHandler"
 import { prisma } from "@/lib/prisma"
+import { OPEN_ORDER_STATUSES } from "@/lib/orderStatus"
 
-export async function GET() {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
-
-    // Get low stock products
-    const lowStockProducts = await prisma.product.findMany({
-      where: {
-        stock: {
-          lte: prisma.product.fields.stockAlert
-        }
-      },
-      include: {
-        supplier: true
+export const GET = createHandler({
+  auth: 'session',
+  permission: 'reports.view',
+}, async () => {
+  // Get low stock products
+  const lowStockProducts = await prisma.product.findMany({
+    where: {
+      stock: {
+        lte: prisma.product.fields.stockAlert
       }
-    })
+    },
+    include: {
+      supplier: true
+    }
+  })
 
-    // Get best-selling products
-    const bestSellingProducts = await prisma.orderItem.groupBy({
-      by: ['productId'],
+  // Get best-selling products
+  const bestSellingProducts = await prisma.orderItem.groupBy({
+    by: ['productId'],
+    _sum: {
+      quantity: true
+    },
+    orderBy: {
       _sum: {
-        quantity: true
-      },
-      orderBy: {
-        _sum: {
-          quantity: 'desc'
-        }
-      },
-      take: 5
-    })
+        quantity: 'desc'
+      }
+    },
+    take: 5
+  })
 
-    const bestSellingWithDetails = await Promise.all(
-      bestSellingProducts.map(async (item) => {
-        const product = await prisma.product.findUnique({
-          where: { id: item.productId },
-          include: { supplier: true }
-        })
-        return {
-          product,
-          totalQuantity: item._sum.quantity
-        }
+  const bestSellingWithDetails = await Promise.all(
+    bestSellingProducts.map(async (item) => {
+      const product = await prisma.product.findUnique({
+        where: { id: item.productId },
+        include: { supplier: true }
       })
-    )
-
-    // Get order statistics
-    const totalOrders = await prisma.order.count()
-    const pendingOrders = await prisma.order.count({
-      where: { status: 'PENDING' }
-    })
-    const deliveredOrders = await prisma.order.count({
-      where: { status: 'DELIVERED' }
-    })
-    const cancelledOrders = await prisma.order.count({
-      where: { status: 'CANCELLED' }
+      return {
+        product,
+        totalQuantity: item._sum.quantity
+      }
     })
+  )
 
-    // Get total revenue
-    const orders = await prisma.order.findMany({
-      where: { status: 'DELIVERED' }
-    })
-    const totalRevenue = orders.reduce((sum, order) => sum + order.total, 0)
+  // Get order statistics
+  const totalOrders = await prisma.order.count()
+  const pendingOrders = await prisma.order.count({
+    where: { status: { in: OPEN_ORDER_STATUSES } }
+  })
+  const deliveredOrders = await prisma.order.count({
+    where: { status: 'DELIVERED' }
+  })
+  const cancelledOrders = await prisma.order.count({
+    where: { status: 'CANCELLED' }
+  })
 
-    // Get recent orders
-    const recentOrders = await prisma.order.findMany({
-      take: 10,
-      orderBy: {
-        orderDate: 'desc'
-      },
-      include: {
-        customer: true,
-        orderItems: {
-          include: {
-            product: true
-          }
+  // Get total revenue
+  const orders = await prisma.order.findMany({
+    where: { status: 'DELIVERED' }
+  })
+  const totalRevenue = orders.reduce((sum, order) => sum + order.total, 0)
+
+  // Get recent orders
+  const recentOrders = await prisma.order.findMany({
+    take: 10,
+    orderBy: {
+      orderDate: 'desc'
+    },
+    include: {
+      customer: true,
+      orderItems: {
+        include: {
+          product: true
         }
       }
-    })
+    }
+  })
 
-    return NextResponse.json({
-      lowStockProducts,
-      bestSellingProducts: bestSellingWithDetails,
-      orderStatistics: {
-        total: totalOrders,
-        pending: pendingOrders,
-        delivered: deliveredOrders,
-        cancelled: cancelledOrders,
-      },
-      totalRevenue,
-      recentOrders
-    })
-  } catch (error) {
-    console.error("Error fetching dashboard stats:", error)
-    return NextResponse.json({ error: "Failed to fetch dashboard statistics" }, { status: 500 })
-  }
-}
+  return NextResponse.json({
+    lowStockProducts,
+    bestSellingProducts: bestSellingWithDetails,
+    orderStatistics: {
+      total: totalOrders,
+      pending: pendingOrders,
+      delivered: deliveredOrders,
+      cancelled: cancelledOrders,
+    },
+    totalRevenue,
+    recentOrders
+  })
+})
@@ -0,0 +1,19 @@
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { revokeApiKey } from "@/lib/apiKeys"
+
+// DELETE /api/mobile/api-keys/[id] - Révoquer une clé d'API (conservée dans l'historique)
+// 🔑 Permission : apiKeys.manage
+export const DELETE = createHandler({
+  auth: 'bearer',
+  apiKey: false,
+  permission: 'apiKeys.manage',
+}, async ({ params: { id }, locale }) => {
+  const result = await revokeApiKey(id)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse(result.data)
+})
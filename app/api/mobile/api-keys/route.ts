@@ -0,0 +1,45 @@
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { createApiKey, listApiKeys } from "@/lib/apiKeys"
+import { PERMISSIONS } from "@/lib/permissions"
+
+// Validation schema for API key creation
+const apiKeySchema = z.object({
+  name: z.string().trim().min(1, "Le nom de la clé est requis").max(100),
+  permissions: z.array(z.enum(PERMISSIONS)).min(1, "Au moins une permission est requise"),
+  expiresAt: z.string().datetime({ offset: true })
+    .refine(date => new Date(date) > new Date(), "La date d'expiration doit être dans le futur")
+    .optional(),
+})
+
+// GET /api/mobile/api-keys - Clés d'API des intégrations (sans la clé elle-même)
+// 🔑 Permission : apiKeys.manage
+export const GET = createHandler({
+  auth: 'bearer',
+  apiKey: false,
+  permission: 'apiKeys.manage',
+}, async () => {
+  return successResponse(await listApiKeys())
+})
+
+// POST /api/mobile/api-keys - Créer une clé d'API (la clé n'est renvoyée qu'une fois)
+// 🔑 Permission : apiKeys.manage
+export const POST = createHandler({
+  auth: 'bearer',
+  apiKey: false,
+  permission: 'apiKeys.manage',
+  body: apiKeySchema,
+}, async ({ user, body: validatedData, locale }) => {
+  const result = await createApiKey({
+    name: validatedData.name,
+    permissions: validatedData.permissions,
+    expiresAt: validatedData.expiresAt ? new Date(validatedData.expiresAt) : null
+  }, user)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse(result.data, 201)
+})
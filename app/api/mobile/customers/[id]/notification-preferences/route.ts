@@ -0,0 +1,44 @@
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { NOTIFICATION_CHANNELS, getSmsPreferences, updateSmsPreferences } from "@/lib/smsConsent"
+import { SMS_EVENTS } from "@/lib/smsTemplates"
+
+// Validation schema for preferences update
+const preferencesSchema = z.object({
+  smsEnabled: z.boolean().optional(),
+  preferredChannel: z.enum(NOTIFICATION_CHANNELS).optional(),
+  events: z.partialRecord(z.enum(SMS_EVENTS), z.boolean()).optional(),
+})
+
+// GET /api/mobile/customers/[id]/notification-preferences - Préférences de notification d'un client
+// 🔑 Permission : customers.view
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'customers.view',
+}, async ({ params: { id }, locale }) => {
+  const preferences = await getSmsPreferences(id)
+
+  if (!preferences) {
+    return apiErrorResponse('CUSTOMER_NOT_FOUND', undefined, locale)
+  }
+
+  return successResponse(preferences)
+})
+
+// PUT /api/mobile/customers/[id]/notification-preferences - Modifier les préférences de notification
+// Réactiver les SMS (smsEnabled: true) annule une désinscription STOP : à faire à la demande du client
+// 🔑 Permission : customers.edit
+export const PUT = createHandler({
+  auth: 'bearer',
+  permission: 'customers.edit',
+  body: preferencesSchema,
+}, async ({ params: { id }, body: validatedData, locale }) => {
+  const preferences = await updateSmsPreferences(id, validatedData)
+
+  if (!preferences) {
+    return apiErrorResponse('CUSTOMER_NOT_FOUND', undefined, locale)
+  }
+
+  return successResponse(preferences)
+})
@@ -1,15 +1,9 @@
-import { NextRequest } from "next/server"
 import { z } from "zod"
 import { prisma } from "@/lib/prisma"
-import { verifyAuthToken } from "@/lib/middleware/authMiddleware"
-import { checkAdmin, checkAdminOrEmployee } from "@/lib/middleware/checkPermission"
-import { 
-  successResponse, 
-  errorResponse, 
-  unauthorizedResponse, 
-  forbiddenResponse,
-  notFoundResponse
-} from "@/lib/apiResponse"
+import { createHandler } from "@/lib/apiHandler"
+import { normalizeOptionalPhone } from "@/lib/phone"
+import { apiErrorResponse, errorResponse, successResponse } from "@/lib/apiResponse"
+import { OPEN_ORDER_STATUSES } from "@/lib/orderStatus"
 
 // Validation schema for customer update
 const customerUpdateSchema = z.object({
@@ -20,244 +14,176 @@ const customerUpdateSchema = z.object({
 })
 
 // GET /api/mobile/customers/[id] - Détails d'un client
-// ✅ Accessible : ADMIN + EMPLOYEE
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    // Verify authentication
-    const user = await verifyAuthToken(request)
-    
-    // Check permissions (ADMIN or EMPLOYEE)
-    checkAdminOrEmployee(user.role)
-
-    const { id } = await params
-
-    // Get customer with orders
-    const customer = await prisma.customer.findUnique({
-      where: { id },
-      include: {
-        orders: {
-          include: {
-            orderItems: {
-              include: {
-                product: {
-                  select: {
-                    name: true,
-                    unit: true
-                  }
+// 🔑 Permission : customers.view
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'customers.view',
+}, async ({ params: { id }, locale }) => {
+  // Get customer with orders
+  const customer = await prisma.customer.findUnique({
+    where: { id },
+    include: {
+      orders: {
+        include: {
+          orderItems: {
+            include: {
+              product: {
+                select: {
+                  name: true,
+                  unit: true
                 }
               }
             }
-          },
-          orderBy: {
-            orderDate: 'desc'
-          },
-          take: 20
-        },
-        _count: {
-          select: {
-            orders: true
           }
+        },
+        orderBy: {
+          orderDate: 'desc'
+        },
+        take: 20
+      },
+      _count: {
+        select: {
+          orders: true
         }
       }
-    })
-
-    if (!customer) {
-      return notFoundResponse("Client non trouvé")
     }
+  })
 
-    // Calculate total spent
-    const totalSpent = customer.orders.reduce((sum, order) => {
-      if (order.status !== 'ANNULEE' && order.status !== 'CANCELLED') {
-        return sum + order.total
-      }
-      return sum
-    }, 0)
-
-    // Format response
-    const formattedCustomer = {
-      id: customer.id,
-      name: customer.name,
-      email: customer.email,
-      phone: customer.phone,
-      address: customer.address,
-      createdAt: customer.createdAt.toISOString(),
-      updatedAt: customer.updatedAt.toISOString(),
-      totalOrders: customer._count.orders,
-      totalSpent: Math.round(totalSpent * 100) / 100,
-      recentOrders: customer.orders.map(order => ({
-        id: order.id,
-        orderDate: order.orderDate.toISOString(),
-        status: order.status,
-        total: Math.round(order.total * 100) / 100,
-        items: order.orderItems.map(item => ({
-          productName: item.product.name,
-          quantity: item.quantity,
-          unit: item.product.unit,
-          price: item.price
-        }))
-      }))
-    }
-
-    return successResponse(formattedCustomer)
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      if (error.message === 'FORBIDDEN') {
-        return forbiddenResponse()
-      }
-      if ('status' in error && (error as Error & { status: number }).status === 401) {
-        return unauthorizedResponse(error.message)
-      }
-    }
-    
-    console.error("API Error:", error)
-    return errorResponse("Une erreur est survenue", 500)
+  if (!customer) {
+    return apiErrorResponse('CUSTOMER_NOT_FOUND', undefined, locale)
   }
-}
-
-// PUT /api/mobile/customers/[id] - Modifier un client
-// ✅ Accessible : ADMIN + EMPLOYEE
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    // Verify authentication
-    const user = await verifyAuthToken(request)
-    
-    // Check permissions (ADMIN or EMPLOYEE)
-    checkAdminOrEmployee(user.role)
 
-    const { id } = await params
-
-    // Check if customer exists
-    const existingCustomer = await prisma.customer.findUnique({
-      where: { id }
-    })
-
-    if (!existingCustomer) {
-      return notFoundResponse("Client non trouvé")
+  // Calculate total spent
+  const totalSpent = customer.orders.reduce((sum, order) => {
+    if (order.status !== 'CANCELLED') {
+      return sum + order.total
     }
+    return sum
+  }, 0)
+
+  // Format response
+  const formattedCustomer = {
+    id: customer.id,
+    name: customer.name,
+    email: customer.email,
+    phone: customer.phone,
+    phoneE164: customer.phoneE164,
+    address: customer.address,
+    smsEnabled: customer.smsEnabled,
+    smsOptOutAt: customer.smsOptOutAt?.toISOString() ?? null,
+    createdAt: customer.createdAt.toISOString(),
+    updatedAt: customer.updatedAt.toISOString(),
+    totalOrders: customer._count.orders,
+    totalSpent: Math.round(totalSpent * 100) / 100,
+    recentOrders: customer.orders.map(order => ({
+      id: order.id,
+      orderDate: order.orderDate.toISOString(),
+      status: order.status,
+      total: Math.round(order.total * 100) / 100,
+      items: order.orderItems.map(item => ({
+        productName: item.product.name,
+        quantity: item.quantity,
+        unit: item.product.unit,
+        price: item.price
+      }))
+    }))
+  }
 
-    // Parse and validate request body
-    const body = await request.json()
-    const validatedData = customerUpdateSchema.parse(body)
+  return successResponse(formattedCustomer)
+})
 
-    // Update customer
-    const customer = await prisma.customer.update({
-      where: { id },
-      data: {
-        name: validatedData.name,
-        email: validatedData.email === '' ? null : validatedData.email,
-        phone: validatedData.phone,
-        address: validatedData.address,
-      }
-    })
+// PUT /api/mobile/customers/[id] - Modifier un client
+// 🔑 Permission : customers.edit
+export const PUT = createHandler({
+  auth: 'bearer',
+  permission: 'customers.edit',
+  body: customerUpdateSchema,
+}, async ({ params: { id }, body: validatedData, locale }) => {
+  // Check if customer exists
+  const existingCustomer = await prisma.customer.findUnique({
+    where: { id }
+  })
+
+  if (!existingCustomer) {
+    return apiErrorResponse('CUSTOMER_NOT_FOUND', undefined, locale)
+  }
 
-    // Format response
-    const formattedCustomer = {
-      id: customer.id,
-      name: customer.name,
-      email: customer.email,
-      phone: customer.phone,
-      address: customer.address,
-      createdAt: customer.createdAt.toISOString(),
-      updatedAt: customer.updatedAt.toISOString()
-    }
+  // Numéro normalisé (E.164) : refuse les numéros impossibles
+  const phone = normalizeOptionalPhone(validatedData.phone)
+  if (!phone.success) {
+    return errorResponse(phone.error, 400, 'VALIDATION_ERROR', { field: 'phone' })
+  }
 
-    return successResponse(formattedCustomer)
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      if (error.message === 'FORBIDDEN') {
-        return forbiddenResponse()
-      }
-      if ('status' in error && (error as Error & { status: number }).status === 401) {
-        return unauthorizedResponse(error.message)
-      }
+  // Update customer
+  const customer = await prisma.customer.update({
+    where: { id },
+    data: {
+      name: validatedData.name,
+      email: validatedData.email === '' ? null : validatedData.email,
+      phone: validatedData.phone,
+      phoneE164: phone.e164,
+      address: validatedData.address,
     }
-    
-    if (error instanceof z.ZodError) {
-      return errorResponse(error.issues[0].message, 400)
-    }
-    
-    console.error("API Error:", error)
-    return errorResponse("Une erreur est survenue", 500)
+  })
+
+  // Format response
+  const formattedCustomer = {
+    id: customer.id,
+    name: customer.name,
+    email: customer.email,
+    phone: customer.phone,
+    phoneE164: customer.phoneE164,
+    address: customer.address,
+    createdAt: customer.createdAt.toISOString(),
+    updatedAt: customer.updatedAt.toISOString()
   }
-}
-
-// DELETE /api/mobile/customers/[id] - Supprimer un client
-// 🔐 Accessible : ADMIN uniquement
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    // Verify authentication
-    const user = await verifyAuthToken(request)
-    
-    // Check permissions (ADMIN only)
-    checkAdmin(user.role)
 
-    const { id } = await params
+  return successResponse(formattedCustomer)
+})
 
-    // Check if customer exists and has orders
-    const customer = await prisma.customer.findUnique({
-      where: { id },
-      include: {
-        orders: {
-          where: {
-            status: {
-              in: ['EN_COURS', 'PENDING', 'READY']
-            }
-          }
-        },
-        _count: {
-          select: {
-            orders: true
+// DELETE /api/mobile/customers/[id] - Supprimer un client
+// 🔑 Permission : customers.delete
+export const DELETE = createHandler({
+  auth: 'bearer',
+  permission: 'customers.delete',
+}, async ({ params: { id }, locale }) => {
+  // Check if customer exists and has orders
+  const customer = await prisma.customer.findUnique({
+    where: { id },
+    include: {
+      orders: {
+        where: {
+          status: {
+            in: OPEN_ORDER_STATUSES
           }
         }
+      },
+      _count: {
+        select: {
+          orders: true
+        }
       }
-    })
-
-    if (!customer) {
-      return notFoundResponse("Client non trouvé")
-    }
-
-    // Check if customer has pending orders
-    if (customer.orders.length > 0) {
-      return errorResponse(
-        "Ce client ne peut pas être supprimé car il a des commandes en cours",
-        400
-      )
     }
+  })
 
-    // If customer has any orders (even completed), we should not delete
-    if (customer._count.orders > 0) {
-      return errorResponse(
-        "Ce client ne peut pas être supprimé car il a des commandes associées. Vous pouvez archiver le client à la place.",
-        400
-      )
-    }
+  if (!customer) {
+    return apiErrorResponse('CUSTOMER_NOT_FOUND', undefined, locale)
+  }
 
-    // Delete customer
-    await prisma.customer.delete({
-      where: { id }
-    })
+  // Check if customer has pending orders
+  if (customer.orders.length > 0) {
+    return apiErrorResponse('CUSTOMER_HAS_OPEN_ORDERS', undefined, locale)
+  }
 
-    return successResponse({ message: "Client supprimé avec succès" })
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      if (error.message === 'FORBIDDEN') {
-        return forbiddenResponse()
-      }
-      if ('status' in error && (error as Error & { status: number }).status === 401) {
-        return unauthorizedResponse(error.message)
-      }
-    }
-    
-    console.error("API Error:", error)
-    return errorResponse("Une erreur est survenue", 500)
+  // If customer has any orders (even completed), we should not delete
+  if (customer._count.orders > 0) {
+    return apiErrorResponse('CUSTOMER_HAS_ORDERS', undefined, locale)
   }
-}
+
+  // Delete customer
+  await prisma.customer.delete({
+    where: { id }
+  })
+
+  return successResponse({ message: "Client supprimé avec succès" })
+})
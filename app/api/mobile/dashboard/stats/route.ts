@@ -1,171 +1,153 @@
-import { NextRequest } from "next/server"
 import { prisma } from "@/lib/prisma"
-import { verifyAuthToken } from "@/lib/middleware/authMiddleware"
-import { checkAdminOrEmployee } from "@/lib/middleware/checkPermission"
-import { 
-  errorResponse, 
-  unauthorizedResponse, 
-  forbiddenResponse 
-} from "@/lib/apiResponse"
+import { createHandler } from "@/lib/apiHandler"
 import { getCacheHeaders, CACHE_TIMES } from "@/lib/cacheHeaders"
+import { OPEN_ORDER_STATUSES } from "@/lib/orderStatus"
+import { getWasteReport } from "@/lib/waste"
 
 // GET /api/mobile/dashboard/stats - Statistiques par période
-// ✅ Accessible : ADMIN + EMPLOYEE
-export async function GET(request: NextRequest) {
-  try {
-    // Verify authentication
-    const user = await verifyAuthToken(request)
-    
-    // Check permissions (ADMIN or EMPLOYEE)
-    checkAdminOrEmployee(user.role)
+// 🔑 Permission : reports.view
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'reports.view',
+}, async ({ request }) => {
+  const { searchParams } = new URL(request.url)
+  const period = searchParams.get('period') || 'week'
 
-    const { searchParams } = new URL(request.url)
-    const period = searchParams.get('period') || 'week'
+  // Calculer les dates de début/fin selon la période
+  const now = new Date()
+  const startDate = new Date()
 
-    // Calculer les dates de début/fin selon la période
-    const now = new Date()
-    const startDate = new Date()
-
-    switch (period) {
-      case 'day':
-        startDate.setHours(0, 0, 0, 0)
-        break
-      case 'week':
-        startDate.setDate(now.getDate() - 7)
-        break
-      case 'month':
-        startDate.setMonth(now.getMonth() - 1)
-        break
-      case 'year':
-        startDate.setFullYear(now.getFullYear() - 1)
-        break
-      default:
-        startDate.setDate(now.getDate() - 7)
-    }
-
-    // Statistiques
-    const [
-      ordersCount,
-      revenue,
-      deliveredOrders,
-      pendingOrders,
-      cancelledOrders
-    ] = await prisma.$transaction([
-      // Nombre de commandes
-      prisma.order.count({
-        where: { createdAt: { gte: startDate } }
-      }),
+  switch (period) {
+    case 'day':
+      startDate.setHours(0, 0, 0, 0)
+      break
+    case 'week':
+      startDate.setDate(now.getDate() - 7)
+      break
+    case 'month':
+      startDate.setMonth(now.getMonth() - 1)
+      break
+    case 'year':
+      startDate.setFullYear(now.getFullYear() - 1)
+      break
+    default:
+      startDate.setDate(now.getDate() - 7)
+  }
 
-      // Revenu total (commandes livrées)
-      prisma.order.aggregate({
-        where: {
-          createdAt: { gte: startDate },
-          status: { in: ['LIVREE', 'DELIVERED'] }
-        },
-        _sum: { total: true }
-      }),
+  // Statistiques
+  const [
+    ordersCount,
+    revenue,
+    deliveredOrders,
+    pendingOrders,
+    cancelledOrders
+  ] = await prisma.$transaction([
+    // Nombre de commandes
+    prisma.order.count({
+      where: { createdAt: { gte: startDate } }
+    }),
 
-      // Commandes livrées
-      prisma.order.count({
-        where: {
-          createdAt: { gte: startDate },
-          status: { in: ['LIVREE', 'DELIVERED'] }
-        }
-      }),
+    // Revenu total (commandes livrées)
+    prisma.order.aggregate({
+      where: {
+        createdAt: { gte: startDate },
+        status: 'DELIVERED'
+      },
+      _sum: { total: true }
+    }),
 
-      // Commandes en cours
-      prisma.order.count({
-        where: {
-          createdAt: { gte: startDate },
-          status: { in: ['EN_COURS', 'PENDING', 'READY'] }
-        }
-      }),
+    // Commandes livrées
+    prisma.order.count({
+      where: {
+        createdAt: { gte: startDate },
+        status: 'DELIVERED'
+      }
+    }),
 
-      // Commandes annulées
-      prisma.order.count({
-        where: {
-          createdAt: { gte: startDate },
-          status: { in: ['ANNULEE', 'CANCELLED'] }
-        }
-      })
-    ])
+    // Commandes en cours
+    prisma.order.count({
+      where: {
+        createdAt: { gte: startDate },
+        status: { in: OPEN_ORDER_STATUSES }
+      }
+    }),
 
-    // Produits les plus vendus (using Prisma groupBy instead of raw query for SQLite compatibility)
-    const topProductsData = await prisma.orderItem.groupBy({
-      by: ['productId'],
+    // Commandes annulées
+    prisma.order.count({
       where: {
-        order: {
-          createdAt: { gte: startDate }
-        }
-      },
-      _sum: {
-        quantity: true
-      },
-      _count: {
-        orderId: true
-      },
-      orderBy: {
-        _sum: {
-          quantity: 'desc'
-        }
-      },
-      take: 5
+        createdAt: { gte: startDate },
+        status: 'CANCELLED'
+      }
     })
+  ])
+
+  // Produits les plus vendus (using Prisma groupBy instead of raw query for SQLite compatibility)
+  const topProductsData = await prisma.orderItem.groupBy({
+    by: ['productId'],
+    where: {
+      order: {
+        createdAt: { gte: startDate }
+      }
+    },
+    _sum: {
+      quantity: true
+    },
+    _count: {
+      orderId: true
+    },
+    orderBy: {
+      _sum: {
+        quantity: 'desc'
+      }
+    },
+    take: 5
+  })
 
-    // Get product details for top products
-    const topProducts = await Promise.all(
-      topProductsData.map(async (item) => {
-        const product = await prisma.product.findUnique({
-          where: { id: item.productId },
-          select: {
-            id: true,
-            name: true
-          }
-        })
-        return {
-          id: product?.id,
-          name: product?.name,
-          totalQuantity: item._sum.quantity || 0,
-          orderCount: item._count.orderId || 0
+  // Get product details for top products
+  const topProducts = await Promise.all(
+    topProductsData.map(async (item) => {
+      const product = await prisma.product.findUnique({
+        where: { id: item.productId },
+        select: {
+          id: true,
+          name: true
         }
       })
-    )
+      return {
+        id: product?.id,
+        name: product?.name,
+        totalQuantity: item._sum.quantity || 0,
+        orderCount: item._count.orderId || 0
+      }
+    })
+  )
 
-    const cacheHeaders = getCacheHeaders(CACHE_TIMES.SHORT)
+  // Pertes et démarque sur la période (par motif et par produit)
+  const waste = await getWasteReport(startDate, now)
 
-    return Response.json(
-      {
-        success: true,
-        data: {
-          period,
-          startDate: startDate.toISOString(),
-          endDate: now.toISOString(),
-          stats: {
-            totalOrders: ordersCount,
-            revenue: revenue._sum.total || 0,
-            deliveredOrders,
-            pendingOrders,
-            cancelledOrders
-          },
-          topProducts: topProducts.filter(tp => tp.id !== undefined)
-        }
-      },
-      {
-        status: 200,
-        headers: cacheHeaders
-      }
-    )
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      if (error.message === 'FORBIDDEN') {
-        return forbiddenResponse()
-      }
-      if ('status' in error && (error as Error & { status: number }).status === 401) {
-        return unauthorizedResponse(error.message)
+  const cacheHeaders = getCacheHeaders(CACHE_TIMES.SHORT)
+
+  return Response.json(
+    {
+      success: true,
+      data: {
+        period,
+        startDate: startDate.toISOString(),
+        endDate: now.toISOString(),
+        stats: {
+          totalOrders: ordersCount,
+          revenue: revenue._sum.total || 0,
+          deliveredOrders,
+          pendingOrders,
+          cancelledOrders
+        },
+        topProducts: topProducts.filter(tp => tp.id !== undefined),
+        waste
       }
+    },
+    {
+      status: 200,
+      headers: cacheHeaders
     }
-    
-    console.error("API Error:", error)
-    return errorResponse("Une erreur est survenue", 500)
-  }
-}
+  )
+})
@@ -0,0 +1,28 @@
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { formatInventorySession, recordInventoryCounts } from "@/lib/inventory"
+
+// Validation schema for counted quantities
+const countsSchema = z.object({
+  lines: z.array(z.object({
+    productId: z.string().min(1, "L'ID du produit est requis"),
+    countedQuantity: z.number().min(0, "La quantité comptée ne peut pas être négative"),
+  })).min(1, "Au moins un produit compté est requis"),
+})
+
+// PUT /api/mobile/inventory/[id]/counts - Saisir les quantités comptées (remplace un comptage précédent)
+// 🔑 Permission : stock.adjust
+export const PUT = createHandler({
+  auth: 'bearer',
+  permission: 'stock.adjust',
+  body: countsSchema,
+}, async ({ user, params: { id }, body: validatedData, locale }) => {
+  const result = await recordInventoryCounts(id, validatedData.lines, user.userId)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse(formatInventorySession(result.data))
+})
@@ -0,0 +1,50 @@
+import { prisma } from "@/lib/prisma"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { inventorySessionInclude, formatInventorySession } from "@/lib/inventory"
+
+// GET /api/mobile/inventory/[id] - Détail d'un inventaire avec les écarts par produit
+// 🔑 Permission : stock.adjust
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'stock.adjust',
+}, async ({ params: { id }, locale }) => {
+  const session = await prisma.inventorySession.findUnique({
+    where: { id },
+    include: inventorySessionInclude
+  })
+
+  if (!session) {
+    return apiErrorResponse('INVENTORY_NOT_FOUND', undefined, locale)
+  }
+
+  return successResponse(formatInventorySession(session))
+})
+
+// DELETE /api/mobile/inventory/[id] - Abandonner un inventaire en cours (aucun ajustement)
+// 🔑 Permission : stock.manage
+export const DELETE = createHandler({
+  auth: 'bearer',
+  permission: 'stock.manage',
+}, async ({ params: { id }, locale }) => {
+  const session = await prisma.inventorySession.findUnique({
+    where: { id },
+    select: { id: true, status: true }
+  })
+
+  if (!session) {
+    return apiErrorResponse('INVENTORY_NOT_FOUND', undefined, locale)
+  }
+
+  if (session.status !== 'OPEN') {
+    return apiErrorResponse('INVENTORY_CLOSED', { inventoryId: session.id, status: session.status }, locale)
+  }
+
+  const cancelled = await prisma.inventorySession.update({
+    where: { id },
+    data: { status: 'CANCELLED' },
+    include: inventorySessionInclude
+  })
+
+  return successResponse(formatInventorySession(cancelled))
+})
@@ -0,0 +1,18 @@
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { formatInventorySession, validateInventorySession } from "@/lib/inventory"
+
+// POST /api/mobile/inventory/[id]/validate - Valider l'inventaire et appliquer les ajustements de stock
+// 🔑 Permission : stock.manage
+export const POST = createHandler({
+  auth: 'bearer',
+  permission: 'stock.manage',
+}, async ({ user, params: { id }, locale }) => {
+  const result = await validateInventorySession(id, user.userId)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse(formatInventorySession(result.data))
+})
@@ -0,0 +1,84 @@
+import { z } from "zod"
+import { prisma } from "@/lib/prisma"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, errorResponse, successResponse } from "@/lib/apiResponse"
+import { getPaginationParams, calculatePagination, getSkipTake } from "@/lib/pagination"
+import { buildDateFilter } from "@/lib/filters"
+import {
+  INVENTORY_STATUSES,
+  inventorySessionInclude,
+  formatInventorySession,
+  openInventorySession
+} from "@/lib/inventory"
+
+// Validation schema for opening a count session
+const openSessionSchema = z.object({
+  notes: z.string().optional(),
+})
+
+// GET /api/mobile/inventory - Liste des sessions d'inventaire
+// 🔑 Permission : stock.adjust
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'stock.adjust',
+}, async ({ request }) => {
+  const { searchParams } = new URL(request.url)
+
+  // Pagination
+  const { page, limit } = getPaginationParams(searchParams)
+  const { skip, take } = getSkipTake(page, limit)
+
+  // Filtres
+  const where: {
+    status?: string;
+    openedAt?: { gte?: Date; lte?: Date };
+  } = {}
+
+  const status = searchParams.get('status')
+  if (status) {
+    if (!(INVENTORY_STATUSES as readonly string[]).includes(status)) {
+      return errorResponse(`Statut invalide. Valeurs possibles : ${INVENTORY_STATUSES.join(', ')}`, 400, 'VALIDATION_ERROR', { field: 'status' })
+    }
+    where.status = status
+  }
+
+  const dateFilter = buildDateFilter(searchParams)
+  if (dateFilter) {
+    where.openedAt = dateFilter
+  }
+
+  const [sessions, total] = await prisma.$transaction([
+    prisma.inventorySession.findMany({
+      where,
+      include: inventorySessionInclude,
+      orderBy: { openedAt: 'desc' },
+      skip,
+      take
+    }),
+    prisma.inventorySession.count({ where })
+  ])
+
+  const data = sessions.map(formatInventorySession)
+  const meta = calculatePagination(total, page, limit)
+
+  return Response.json(
+    { success: true, data, meta },
+    { status: 200 }
+  )
+})
+
+// POST /api/mobile/inventory - Ouvrir une session de comptage
+// 🔑 Permission : stock.adjust
+export const POST = createHandler({
+  auth: 'bearer',
+  permission: 'stock.adjust',
+  body: openSessionSchema,
+}, async ({ user, body: validatedData, locale }) => {
+  const result = await openInventorySession(user.userId, validatedData.notes)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse(formatInventorySession(result.data), 201)
+})
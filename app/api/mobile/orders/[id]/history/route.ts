@@ -0,0 +1,29 @@
+import { prisma } from "@/lib/prisma"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { getOrderTimeline } from "@/lib/orderHistory"
+
+// GET /api/mobile/orders/[id]/history - Historique des statuts d'une commande
+// 🔑 Permission : orders.view
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'orders.view',
+}, async ({ params: { id }, locale }) => {
+  // Check if order exists
+  const order = await prisma.order.findUnique({
+    where: { id },
+    select: { id: true, status: true }
+  })
+
+  if (!order) {
+    return apiErrorResponse('ORDER_NOT_FOUND', undefined, locale)
+  }
+
+  const history = await getOrderTimeline(id)
+
+  return successResponse({
+    orderId: order.id,
+    currentStatus: order.status,
+    history
+  })
+})
@@ -1,40 +1,172 @@
-import { NextRequest } from "next/server"
 import { z } from "zod"
 import { prisma } from "@/lib/prisma"
-import { verifyAuthToken } from "@/lib/middleware/authMiddleware"
-import { checkAdmin, checkAdminOrEmployee } from "@/lib/middleware/checkPermission"
-import { 
-  successResponse, 
-  errorResponse, 
-  unauthorizedResponse, 
-  forbiddenResponse,
-  notFoundResponse
-} from "@/lib/apiResponse"
+import { createHandler } from "@/lib/apiHandler"
+import { requirePermission } from "@/lib/middleware/checkPermission"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { apiError } from "@/lib/errorCodes"
+import {
+  OPEN_ORDER_STATUSES,
+  ORDER_STATUS_INPUTS,
+  normalizeOrderStatus,
+  canTransition,
+  invalidTransitionError
+} from "@/lib/orderStatus"
+import { claimOrderStatus, recordStatusEvent } from "@/lib/orderHistory"
+import { applyStockMovement } from "@/lib/stock"
+import { releaseLots } from "@/lib/lots"
+import { enqueueOrderNotification, flushSmsOutbox } from "@/lib/smsOutbox"
+import { SMS_EVENT_BY_STATUS } from "@/lib/smsTemplates"
+import { getOrderSmsLogs } from "@/lib/smsDelivery"
 
 // Validation schema for order status update
 const orderStatusSchema = z.object({
-  status: z.enum(["EN_COURS", "LIVREE", "ANNULEE", "PENDING", "READY", "DELIVERED", "CANCELLED"]),
+  status: z.enum(ORDER_STATUS_INPUTS).transform(status => normalizeOrderStatus(status)!),
   notes: z.string().optional(),
+  // Commentaire enregistré dans l'historique des statuts
+  note: z.string().optional(),
 })
 
 // GET /api/mobile/orders/[id] - Détails d'une commande
-// ✅ Accessible : ADMIN + EMPLOYEE
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    // Verify authentication
-    const user = await verifyAuthToken(request)
-    
-    // Check permissions (ADMIN or EMPLOYEE)
-    checkAdminOrEmployee(user.role)
+// 🔑 Permission : orders.view
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'orders.view',
+}, async ({ params: { id }, locale }) => {
+  // Get order with all relations
+  const order = await prisma.order.findUnique({
+    where: { id },
+    include: {
+      customer: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          phone: true,
+          address: true
+        }
+      },
+      orderItems: {
+        include: {
+          product: {
+            select: {
+              id: true,
+              name: true,
+              unit: true,
+              price: true,
+              stock: true
+            }
+          }
+        }
+      }
+    }
+  })
+
+  if (!order) {
+    return apiErrorResponse('ORDER_NOT_FOUND', undefined, locale)
+  }
+
+  // Format response
+  const formattedOrder = {
+    id: order.id,
+    orderDate: order.orderDate.toISOString(),
+    status: order.status,
+    total: Math.round(order.total * 100) / 100,
+    notes: order.notes,
+    createdAt: order.createdAt.toISOString(),
+    updatedAt: order.updatedAt.toISOString(),
+    customer: order.customer,
+    items: order.orderItems.map(item => ({
+      id: item.id,
+      productId: item.productId,
+      productName: item.product.name,
+      productUnit: item.product.unit,
+      currentPrice: item.product.price,
+      currentStock: item.product.stock,
+      quantity: item.quantity,
+      price: item.price,
+      subtotal: Math.round(item.quantity * item.price * 100) / 100
+    })),
+    // SMS envoyés pour la commande, avec leur accusé de réception
+    sms: await getOrderSmsLogs(order.id)
+  }
+
+  return successResponse(formattedOrder)
+})
+
+// PUT /api/mobile/orders/[id] - Modifier le statut d'une commande
+// 🔑 Permission : orders.update (+ orders.cancel pour annuler)
+export const PUT = createHandler({
+  auth: 'bearer',
+  permission: 'orders.update',
+  body: orderStatusSchema,
+}, async ({ user, params: { id }, body: validatedData, locale }) => {
+  // Check if order exists
+  const existingOrder = await prisma.order.findUnique({
+    where: { id },
+    include: {
+      orderItems: true
+    }
+  })
+
+  if (!existingOrder) {
+    return apiErrorResponse('ORDER_NOT_FOUND', undefined, locale)
+  }
+
+  if (validatedData.status === 'CANCELLED' && existingOrder.status !== 'CANCELLED') {
+    requirePermission(user, 'orders.cancel')
+  }
 
-    const { id } = await params
+  // Reject transitions not allowed by the order lifecycle
+  if (!canTransition(existingOrder.status, validatedData.status)) {
+    const { code, details } = invalidTransitionError(existingOrder.status, validatedData.status)
+    return apiErrorResponse(code, details, locale)
+  }
+
+  // Handle status change to CANCELLED - restore stock
+  const shouldRestoreStock = 
+    validatedData.status === 'CANCELLED' &&
+    existingOrder.status !== 'CANCELLED'
+
+  // Update order and restore stock atomically if needed
+  const order = await prisma.$transaction(async (tx) => {
+    if (validatedData.status !== existingOrder.status) {
+      await claimOrderStatus(tx, id, existingOrder.status, validatedData.status)
+    }
+
+    // Restore stock if cancelling
+    if (shouldRestoreStock) {
+      for (const item of existingOrder.orderItems) {
+        await applyStockMovement(tx, {
+          productId: item.productId,
+          type: 'CANCEL_RESTORE',
+          quantity: item.quantity,
+          orderId: id,
+          userId: user.userId
+        })
+      }
 
-    // Get order with all relations
-    const order = await prisma.order.findUnique({
+      // Give the quantities back to their lots
+      await releaseLots(tx, id)
+    }
+
+    // Record the transition in the order timeline
+    if (validatedData.status !== existingOrder.status) {
+      await recordStatusEvent(tx, {
+        orderId: id,
+        userId: user.userId,
+        fromStatus: existingOrder.status,
+        toStatus: validatedData.status,
+        note: validatedData.note
+      })
+    }
+
+    // Update order
+    const updatedOrder = await tx.order.update({
       where: { id },
+      data: {
+        status: validatedData.status,
+        notes: validatedData.notes !== undefined ? validatedData.notes : existingOrder.notes,
+      },
       include: {
         customer: {
           select: {
@@ -42,7 +174,7 @@ export async function GET(
             name: true,
             email: true,
             phone: true,
-            address: true
+            preferredChannel: true
           }
         },
         orderItems: {
@@ -51,9 +183,7 @@ export async function GET(
               select: {
                 id: true,
                 name: true,
-                unit: true,
-                price: true,
-                stock: true
+                unit: true
               }
             }
           }
@@ -61,234 +191,89 @@ export async function GET(
       }
     })
 
-    if (!order) {
-      return notFoundResponse("Commande non trouvée")
+    // Queue the SMS of the new status (if its template is active) with the status change
+    const smsEvent = SMS_EVENT_BY_STATUS[validatedData.status]
+    if (validatedData.status !== existingOrder.status && smsEvent) {
+      await enqueueOrderNotification(tx, smsEvent, updatedOrder)
     }
 
-    // Format response
-    const formattedOrder = {
-      id: order.id,
-      orderDate: order.orderDate.toISOString(),
-      status: order.status,
-      total: Math.round(order.total * 100) / 100,
-      notes: order.notes,
-      createdAt: order.createdAt.toISOString(),
-      updatedAt: order.updatedAt.toISOString(),
-      customer: order.customer,
-      items: order.orderItems.map(item => ({
-        id: item.id,
-        productId: item.productId,
-        productName: item.product.name,
-        productUnit: item.product.unit,
-        currentPrice: item.product.price,
-        currentStock: item.product.stock,
-        quantity: item.quantity,
-        price: item.price,
-        subtotal: Math.round(item.quantity * item.price * 100) / 100
-      }))
-    }
+    return updatedOrder
+  })
 
-    return successResponse(formattedOrder)
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      if (error.message === 'FORBIDDEN') {
-        return forbiddenResponse()
-      }
-      if ('status' in error && (error as Error & { status: number }).status === 401) {
-        return unauthorizedResponse(error.message)
-      }
-    }
-    
-    console.error("API Error:", error)
-    return errorResponse("Une erreur est survenue", 500)
-  }
-}
-
-// PUT /api/mobile/orders/[id] - Modifier le statut d'une commande
-// ✅ Accessible : ADMIN + EMPLOYEE
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    // Verify authentication
-    const user = await verifyAuthToken(request)
-    
-    // Check permissions (ADMIN or EMPLOYEE)
-    checkAdminOrEmployee(user.role)
+  // Send queued SMS without blocking the response (the cron worker retries failures)
+  flushSmsOutbox()
 
-    const { id } = await params
-
-    // Check if order exists
-    const existingOrder = await prisma.order.findUnique({
-      where: { id },
-      include: {
-        orderItems: true
-      }
-    })
-
-    if (!existingOrder) {
-      return notFoundResponse("Commande non trouvée")
-    }
-
-    // Parse and validate request body
-    const body = await request.json()
-    const validatedData = orderStatusSchema.parse(body)
-
-    // Handle status change to ANNULEE/CANCELLED - restore stock
-    const shouldRestoreStock = 
-      (validatedData.status === 'ANNULEE' || validatedData.status === 'CANCELLED') &&
-      existingOrder.status !== 'ANNULEE' && 
-      existingOrder.status !== 'CANCELLED'
-
-    // Update order and restore stock atomically if needed
-    const order = await prisma.$transaction(async (tx) => {
-      // Restore stock if cancelling
-      if (shouldRestoreStock) {
-        for (const item of existingOrder.orderItems) {
-          await tx.product.update({
-            where: { id: item.productId },
-            data: {
-              stock: {
-                increment: item.quantity
-              }
-            }
-          })
-        }
-      }
+  // Format response
+  const formattedOrder = {
+    id: order.id,
+    orderDate: order.orderDate.toISOString(),
+    status: order.status,
+    total: order.total,
+    notes: order.notes,
+    customer: order.customer,
+    items: order.orderItems.map(item => ({
+      id: item.id,
+      productId: item.productId,
+      productName: item.product.name,
+      productUnit: item.product.unit,
+      quantity: item.quantity,
+      price: item.price,
+      subtotal: Math.round(item.quantity * item.price * 100) / 100
+    })),
+    stockRestored: shouldRestoreStock
+  }
 
-      // Update order
-      return await tx.order.update({
-        where: { id },
-        data: {
-          status: validatedData.status,
-          notes: validatedData.notes !== undefined ? validatedData.notes : existingOrder.notes,
-        },
-        include: {
-          customer: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              phone: true
-            }
-          },
-          orderItems: {
-            include: {
-              product: {
-                select: {
-                  id: true,
-                  name: true,
-                  unit: true
-                }
-              }
-            }
-          }
-        }
-      })
-    })
+  return successResponse(formattedOrder)
+})
 
-    // Format response
-    const formattedOrder = {
-      id: order.id,
-      orderDate: order.orderDate.toISOString(),
-      status: order.status,
-      total: order.total,
-      notes: order.notes,
-      customer: order.customer,
-      items: order.orderItems.map(item => ({
-        id: item.id,
-        productId: item.productId,
-        productName: item.product.name,
-        productUnit: item.product.unit,
-        quantity: item.quantity,
-        price: item.price,
-        subtotal: Math.round(item.quantity * item.price * 100) / 100
-      })),
-      stockRestored: shouldRestoreStock
+// DELETE /api/mobile/orders/[id] - Supprimer une commande
+// 🔑 Permission : orders.delete
+export const DELETE = createHandler({
+  auth: 'bearer',
+  permission: 'orders.delete',
+}, async ({ user, params: { id }, locale }) => {
+  // Get order with items
+  const order = await prisma.order.findUnique({
+    where: { id },
+    include: {
+      orderItems: true
     }
+  })
 
-    return successResponse(formattedOrder)
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      if (error.message === 'FORBIDDEN') {
-        return forbiddenResponse()
-      }
-      if ('status' in error && (error as Error & { status: number }).status === 401) {
-        return unauthorizedResponse(error.message)
-      }
-    }
-    
-    if (error instanceof z.ZodError) {
-      return errorResponse(error.issues[0].message, 400)
-    }
-    
-    console.error("API Error:", error)
-    return errorResponse("Une erreur est survenue", 500)
+  if (!order) {
+    return apiErrorResponse('ORDER_NOT_FOUND', undefined, locale)
   }
-}
 
-// DELETE /api/mobile/orders/[id] - Supprimer une commande
-// 🔐 Accessible : ADMIN uniquement
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    // Verify authentication
-    const user = await verifyAuthToken(request)
-    
-    // Check permissions (ADMIN only)
-    checkAdmin(user.role)
+  // Delete order and restore stock atomically
+  await prisma.$transaction(async (tx) => {
+    // Restore stock before deleting, only while the goods have not left (a delivered order keeps its stock out)
+    if ((OPEN_ORDER_STATUSES as string[]).includes(order.status)) {
+      // La commande passe d'abord à CANCELLED : une suppression ou annulation concurrente ne restaure pas une seconde fois
+      await claimOrderStatus(tx, id, order.status, 'CANCELLED')
 
-    const { id } = await params
-
-    // Get order with items
-    const order = await prisma.order.findUnique({
-      where: { id },
-      include: {
-        orderItems: true
+      for (const item of order.orderItems) {
+        await applyStockMovement(tx, {
+          productId: item.productId,
+          type: 'CANCEL_RESTORE',
+          quantity: item.quantity,
+          orderId: id,
+          userId: user.userId,
+          note: 'Suppression de la commande'
+        })
       }
-    })
 
-    if (!order) {
-      return notFoundResponse("Commande non trouvée")
+      // Give the quantities back to their lots
+      await releaseLots(tx, id)
     }
 
-    // Delete order and restore stock atomically
-    await prisma.$transaction(async (tx) => {
-      // Restore stock before deleting (unless already cancelled)
-      if (order.status !== 'ANNULEE' && order.status !== 'CANCELLED') {
-        for (const item of order.orderItems) {
-          await tx.product.update({
-            where: { id: item.productId },
-            data: {
-              stock: {
-                increment: item.quantity
-              }
-            }
-          })
-        }
-      }
-
-      // Delete order (cascade will delete orderItems)
-      await tx.order.delete({
-        where: { id }
-      })
+    // Delete order (cascade will delete orderItems)
+    const { count } = await tx.order.deleteMany({
+      where: { id }
     })
-
-    return successResponse({ message: "Commande supprimée avec succès" })
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      if (error.message === 'FORBIDDEN') {
-        return forbiddenResponse()
-      }
-      if ('status' in error && (error as Error & { status: number }).status === 401) {
-        return unauthorizedResponse(error.message)
-      }
+    if (count === 0) {
+      throw apiError('ORDER_NOT_FOUND')
     }
-    
-    console.error("API Error:", error)
-    return errorResponse("Une erreur est survenue", 500)
-  }
-}
+  })
+
+  return successResponse({ message: "Commande supprimée avec succès" })
+})
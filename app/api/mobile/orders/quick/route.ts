@@ -1,15 +1,10 @@
-import { NextRequest } from "next/server"
 import { z } from "zod"
 import { prisma } from "@/lib/prisma"
-import { verifyAuthToken } from "@/lib/middleware/authMiddleware"
-import { checkAdminOrEmployee } from "@/lib/middleware/checkPermission"
-import { 
-  successResponse, 
-  errorResponse, 
-  unauthorizedResponse, 
-  forbiddenResponse,
-  notFoundResponse
-} from "@/lib/apiResponse"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { applyStockMovement } from "@/lib/stock"
+import { allocateLots } from "@/lib/lots"
+import { enqueueOrderNotification, flushSmsOutbox } from "@/lib/smsOutbox"
 
 // Validation schema for quick order item (simplified - no price required)
 const quickOrderItemSchema = z.object({
@@ -24,155 +19,152 @@ const quickOrderSchema = z.object({
 })
 
 // POST /api/mobile/orders/quick - Création rapide de commande
-// ✅ Accessible : ADMIN + EMPLOYEE
-export async function POST(request: NextRequest) {
-  try {
-    // Verify authentication
-    const user = await verifyAuthToken(request)
-    
-    // Check permissions (ADMIN or EMPLOYEE)
-    checkAdminOrEmployee(user.role)
+// 🔑 Permission : orders.create
+export const POST = createHandler({
+  auth: 'bearer',
+  permission: 'orders.create',
+  body: quickOrderSchema,
+}, async ({ user, body: validatedData, locale }) => {
+  const { customerId, items } = validatedData
 
-    // Parse and validate request body
-    const body = await request.json()
-    const validatedData = quickOrderSchema.parse(body)
-    const { customerId, items } = validatedData
+  // Verify customer exists
+  const customer = await prisma.customer.findUnique({
+    where: { id: customerId }
+  })
 
-    // Verify customer exists
-    const customer = await prisma.customer.findUnique({
-      where: { id: customerId }
-    })
+  if (!customer) {
+    return apiErrorResponse('CUSTOMER_NOT_FOUND', undefined, locale)
+  }
 
-    if (!customer) {
-      return notFoundResponse("Client non trouvé")
-    }
+  // Récupérer les produits pour obtenir les prix actuels
+  const productIds = items.map(item => item.productId)
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds } }
+  })
 
-    // Récupérer les produits pour obtenir les prix actuels
-    const productIds = items.map(item => item.productId)
-    const products = await prisma.product.findMany({
-      where: { id: { in: productIds } }
-    })
+  // Verify all products exist and check stock availability
+  const enrichedItems: Array<{
+    productId: string
+    quantity: number
+    price: number
+  }> = []
 
-    // Verify all products exist and check stock availability
-    const enrichedItems: Array<{
-      productId: string
-      quantity: number
-      price: number
-    }> = []
-
-    for (const item of items) {
-      const product = products.find(p => p.id === item.productId)
-      
-      if (!product) {
-        return notFoundResponse(`Produit ${item.productId} non trouvé`)
-      }
-      
-      if (product.stock < item.quantity) {
-        return errorResponse(
-          `Stock insuffisant pour ${product.name}. Disponible: ${product.stock}, demandé: ${item.quantity}`,
-          400
-        )
-      }
-      
-      enrichedItems.push({
-        productId: item.productId,
-        quantity: item.quantity,
-        price: product.price
-      })
+  for (const item of items) {
+    const product = products.find(p => p.id === item.productId)
+    
+    if (!product) {
+      return apiErrorResponse('PRODUCT_NOT_FOUND', { productId: item.productId }, locale)
     }
+    
+    if (product.stock < item.quantity) {
+      return apiErrorResponse('INSUFFICIENT_STOCK', {
+        productId: product.id,
+        productName: product.name,
+        available: product.stock,
+        requested: item.quantity
+      }, locale)
+    }
+    
+    enrichedItems.push({
+      productId: item.productId,
+      quantity: item.quantity,
+      price: product.price
+    })
+  }
 
-    // Calculer le total
-    const total = enrichedItems.reduce((sum, item) => 
-      sum + (item.price * item.quantity), 0
-    )
+  // Calculer le total
+  const total = enrichedItems.reduce((sum, item) => 
+    sum + (item.price * item.quantity), 0
+  )
 
-    // Créer la commande en une transaction
-    const order = await prisma.$transaction(async (tx) => {
-      // Créer la commande avec status EN_COURS par défaut
-      const newOrder = await tx.order.create({
-        data: {
-          customerId,
-          total: Math.round(total * 100) / 100,
-          status: 'EN_COURS',
-          orderItems: {
-            create: enrichedItems.map(item => ({
-              productId: item.productId,
-              quantity: item.quantity,
-              price: Math.round(item.price * 100) / 100
-            }))
+  // Créer la commande en une transaction
+  const order = await prisma.$transaction(async (tx) => {
+    // Créer la commande avec status PENDING par défaut
+    const newOrder = await tx.order.create({
+      data: {
+        customerId,
+        total: Math.round(total * 100) / 100,
+        status: 'PENDING',
+        statusEvents: {
+          create: { userId: user.userId, toStatus: 'PENDING' }
+        },
+        orderItems: {
+          create: enrichedItems.map(item => ({
+            productId: item.productId,
+            quantity: item.quantity,
+            price: Math.round(item.price * 100) / 100
+          }))
+        }
+      },
+      include: {
+        customer: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            phone: true,
+            preferredChannel: true
           }
         },
-        include: {
-          customer: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              phone: true
-            }
-          },
-          orderItems: {
-            include: {
-              product: {
-                select: {
-                  id: true,
-                  name: true,
-                  unit: true,
-                  price: true
-                }
+        orderItems: {
+          include: {
+            product: {
+              select: {
+                id: true,
+                name: true,
+                unit: true,
+                price: true
               }
             }
           }
         }
-      })
-      
-      // Déduire les stocks
-      for (const item of enrichedItems) {
-        await tx.product.update({
-          where: { id: item.productId },
-          data: {
-            stock: { decrement: item.quantity }
-          }
-        })
       }
-      
-      return newOrder
     })
-
-    // Format response
-    const formattedOrder = {
-      id: order.id,
-      orderDate: order.orderDate.toISOString(),
-      status: order.status,
-      total: order.total,
-      customer: order.customer,
-      items: order.orderItems.map(item => ({
-        id: item.id,
+    
+    // Déduire les stocks (avec trace dans le registre) et puiser dans les lots (FEFO)
+    const lotsByItem = new Map<string, Awaited<ReturnType<typeof allocateLots>>>()
+    for (const item of newOrder.orderItems) {
+      await applyStockMovement(tx, {
         productId: item.productId,
-        productName: item.product.name,
-        productUnit: item.product.unit,
-        quantity: item.quantity,
-        price: item.price,
-        subtotal: Math.round(item.quantity * item.price * 100) / 100
+        type: 'SALE',
+        quantity: -item.quantity,
+        orderId: newOrder.id,
+        userId: user.userId
+      })
+      lotsByItem.set(item.id, await allocateLots(tx, {
+        orderItemId: item.id,
+        productId: item.productId,
+        quantity: item.quantity
       }))
     }
-
-    return successResponse(formattedOrder, 201)
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      if (error.message === 'FORBIDDEN') {
-        return forbiddenResponse()
-      }
-      if ('status' in error && (error as Error & { status: number }).status === 401) {
-        return unauthorizedResponse(error.message)
-      }
-    }
     
-    if (error instanceof z.ZodError) {
-      return errorResponse(error.issues[0].message, 400)
-    }
-    
-    console.error("API Error:", error)
-    return errorResponse("Une erreur est survenue", 500)
+    // Confirmation SMS, only queued when the ORDER_CONFIRMED template is active
+    await enqueueOrderNotification(tx, 'ORDER_CONFIRMED', newOrder)
+
+    return { ...newOrder, lotsByItem }
+  })
+
+  // Send queued SMS without blocking the response (the cron worker retries failures)
+  flushSmsOutbox()
+
+  // Format response
+  const formattedOrder = {
+    id: order.id,
+    orderDate: order.orderDate.toISOString(),
+    status: order.status,
+    total: order.total,
+    customer: order.customer,
+    items: order.orderItems.map(item => ({
+      id: item.id,
+      productId: item.productId,
+      productName: item.product.name,
+      productUnit: item.product.unit,
+      quantity: item.quantity,
+      price: item.price,
+      subtotal: Math.round(item.quantity * item.price * 100) / 100,
+      lots: order.lotsByItem.get(item.id) ?? []
+    }))
   }
-}
+
+  return successResponse(formattedOrder, 201)
+})
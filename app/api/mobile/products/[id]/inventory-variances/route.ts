@@ -0,0 +1,30 @@
+import { prisma } from "@/lib/prisma"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { getProductVarianceHistory } from "@/lib/inventory"
+
+// GET /api/mobile/products/[id]/inventory-variances - Historique des écarts d'inventaire d'un produit
+// 🔑 Permission : products.view
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'products.view',
+}, async ({ params: { id }, locale }) => {
+  const product = await prisma.product.findUnique({
+    where: { id },
+    select: { id: true, name: true, unit: true }
+  })
+
+  if (!product) {
+    return apiErrorResponse('PRODUCT_NOT_FOUND', undefined, locale)
+  }
+
+  const history = await getProductVarianceHistory(id)
+  const totalVariance = history.reduce((sum, entry) => sum + (entry.variance ?? 0), 0)
+
+  return successResponse({
+    product,
+    inventories: history.length,
+    totalVariance: Math.round(totalVariance * 1000) / 1000,
+    history
+  })
+})
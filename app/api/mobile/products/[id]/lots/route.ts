@@ -0,0 +1,37 @@
+import { prisma } from "@/lib/prisma"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { lotInclude, formatLot } from "@/lib/lots"
+
+// GET /api/mobile/products/[id]/lots - Lots d'un produit, ordre de sortie FEFO (?includeEmpty=true)
+// 🔑 Permission : products.view
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'products.view',
+}, async ({ request, params: { id }, locale }) => {
+  const { searchParams } = new URL(request.url)
+  const includeEmpty = searchParams.get('includeEmpty') === 'true'
+
+  const product = await prisma.product.findUnique({
+    where: { id },
+    select: { id: true }
+  })
+
+  if (!product) {
+    return apiErrorResponse('PRODUCT_NOT_FOUND', undefined, locale)
+  }
+
+  const lots = await prisma.productLot.findMany({
+    where: {
+      productId: id,
+      ...(includeEmpty ? {} : { remainingQuantity: { gt: 0 } })
+    },
+    include: lotInclude,
+    orderBy: [
+      { useByDate: { sort: 'asc', nulls: 'last' } },
+      { receptionDate: 'asc' }
+    ]
+  })
+
+  return successResponse(lots.map(formatLot))
+})
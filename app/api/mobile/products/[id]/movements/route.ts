@@ -0,0 +1,89 @@
+import { prisma } from "@/lib/prisma"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, errorResponse } from "@/lib/apiResponse"
+import { getPaginationParams, calculatePagination, getSkipTake } from "@/lib/pagination"
+import { buildDateFilter } from "@/lib/filters"
+import { STOCK_MOVEMENT_TYPES } from "@/lib/stock"
+
+// GET /api/mobile/products/[id]/movements - Registre des mouvements de stock d'un produit
+// 🔑 Permission : products.view
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'products.view',
+}, async ({ request, params: { id }, locale }) => {
+  const { searchParams } = new URL(request.url)
+
+  // Check if product exists
+  const product = await prisma.product.findUnique({
+    where: { id },
+    select: { id: true, name: true, unit: true, stock: true }
+  })
+
+  if (!product) {
+    return apiErrorResponse('PRODUCT_NOT_FOUND', undefined, locale)
+  }
+
+  // Pagination
+  const { page, limit } = getPaginationParams(searchParams)
+  const { skip, take } = getSkipTake(page, limit)
+
+  // Filtres
+  const where: {
+    productId: string;
+    type?: string;
+    createdAt?: { gte?: Date; lte?: Date };
+  } = { productId: id }
+
+  const type = searchParams.get('type')
+  if (type) {
+    if (!(STOCK_MOVEMENT_TYPES as readonly string[]).includes(type)) {
+      return errorResponse(`Type de mouvement invalide. Valeurs possibles : ${STOCK_MOVEMENT_TYPES.join(', ')}`, 400, 'VALIDATION_ERROR', { field: 'type' })
+    }
+    where.type = type
+  }
+
+  const dateFilter = buildDateFilter(searchParams)
+  if (dateFilter) {
+    where.createdAt = dateFilter
+  }
+
+  const [movements, total] = await prisma.$transaction([
+    prisma.stockMovement.findMany({
+      where,
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take
+    }),
+    prisma.stockMovement.count({ where })
+  ])
+
+  const data = {
+    product,
+    movements: movements.map(movement => ({
+      id: movement.id,
+      type: movement.type,
+      quantity: movement.quantity,
+      orderId: movement.orderId,
+      receptionId: movement.receptionId,
+      wasteId: movement.wasteId,
+      inventorySessionId: movement.inventorySessionId,
+      note: movement.note,
+      user: movement.user,
+      createdAt: movement.createdAt.toISOString()
+    }))
+  }
+  const meta = calculatePagination(total, page, limit)
+
+  return Response.json(
+    { success: true, data, meta },
+    { status: 200 }
+  )
+})
@@ -1,15 +1,10 @@
-import { NextRequest } from "next/server"
 import { z } from "zod"
 import { prisma } from "@/lib/prisma"
-import { verifyAuthToken } from "@/lib/middleware/authMiddleware"
-import { checkAdmin, checkAdminOrEmployee } from "@/lib/middleware/checkPermission"
-import { 
-  successResponse, 
-  errorResponse, 
-  unauthorizedResponse, 
-  forbiddenResponse,
-  notFoundResponse
-} from "@/lib/apiResponse"
+import { createHandler } from "@/lib/apiHandler"
+import { requirePermission } from "@/lib/middleware/checkPermission"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { applyStockMovement } from "@/lib/stock"
+import { consumeLots } from "@/lib/lots"
 
 // Validation schema for product update
 const productUpdateSchema = z.object({
@@ -23,119 +18,109 @@ const productUpdateSchema = z.object({
 })
 
 // GET /api/mobile/products/[id] - Détails d'un produit
-// ✅ Accessible : ADMIN + EMPLOYEE
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    // Verify authentication
-    const user = await verifyAuthToken(request)
-    
-    // Check permissions (ADMIN or EMPLOYEE)
-    checkAdminOrEmployee(user.role)
-
-    const { id } = await params
-
-    // Get product with all relations
-    const product = await prisma.product.findUnique({
-      where: { id },
-      include: {
-        supplier: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            phone: true
-          }
-        },
-        orderItems: {
-          include: {
-            order: {
-              select: {
-                id: true,
-                orderDate: true,
-                status: true
-              }
+// 🔑 Permission : products.view
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'products.view',
+}, async ({ params: { id }, locale }) => {
+  // Get product with all relations
+  const product = await prisma.product.findUnique({
+    where: { id },
+    include: {
+      supplier: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          phone: true
+        }
+      },
+      orderItems: {
+        include: {
+          order: {
+            select: {
+              id: true,
+              orderDate: true,
+              status: true
             }
-          },
-          take: 10,
-          orderBy: {
-            createdAt: 'desc'
           }
+        },
+        take: 10,
+        orderBy: {
+          createdAt: 'desc'
         }
       }
-    })
-
-    if (!product) {
-      return notFoundResponse("Produit non trouvé")
     }
+  })
 
-    // Format response
-    const formattedProduct = {
-      id: product.id,
-      name: product.name,
-      description: product.description,
-      price: product.price,
-      stock: product.stock,
-      unit: product.unit,
-      lowStockThreshold: product.stockAlert,
-      supplier: product.supplier,
-      recentOrders: product.orderItems.map(item => ({
-        orderId: item.order.id,
-        orderDate: item.order.orderDate.toISOString(),
-        status: item.order.status,
-        quantity: item.quantity,
-        price: item.price
-      }))
-    }
+  if (!product) {
+    return apiErrorResponse('PRODUCT_NOT_FOUND', undefined, locale)
+  }
 
-    return successResponse(formattedProduct)
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      if (error.message === 'FORBIDDEN') {
-        return forbiddenResponse()
-      }
-      if ('status' in error && (error as Error & { status: number }).status === 401) {
-        return unauthorizedResponse(error.message)
-      }
-    }
-    
-    console.error("API Error:", error)
-    return errorResponse("Une erreur est survenue", 500)
+  // Format response
+  const formattedProduct = {
+    id: product.id,
+    name: product.name,
+    description: product.description,
+    price: product.price,
+    stock: product.stock,
+    unit: product.unit,
+    lowStockThreshold: product.stockAlert,
+    supplier: product.supplier,
+    recentOrders: product.orderItems.map(item => ({
+      orderId: item.order.id,
+      orderDate: item.order.orderDate.toISOString(),
+      status: item.order.status,
+      quantity: item.quantity,
+      price: item.price
+    }))
   }
-}
+
+  return successResponse(formattedProduct)
+})
 
 // PUT /api/mobile/products/[id] - Modifier un produit
-// 🔐 Accessible : ADMIN uniquement
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    // Verify authentication
-    const user = await verifyAuthToken(request)
-    
-    // Check permissions (ADMIN only)
-    checkAdmin(user.role)
-
-    const { id } = await params
-
-    // Check if product exists
-    const existingProduct = await prisma.product.findUnique({
-      where: { id }
-    })
+// 🔑 Permission : products.edit (+ products.price.edit pour le prix, stock.adjust pour le stock)
+export const PUT = createHandler({
+  auth: 'bearer',
+  permission: 'products.edit',
+  body: productUpdateSchema,
+}, async ({ user, params: { id }, body: validatedData, locale }) => {
+  // Check if product exists
+  const existingProduct = await prisma.product.findUnique({
+    where: { id }
+  })
+
+  if (!existingProduct) {
+    return apiErrorResponse('PRODUCT_NOT_FOUND', undefined, locale)
+  }
 
-    if (!existingProduct) {
-      return notFoundResponse("Produit non trouvé")
-    }
+  // Price and stock changes need their own permissions
+  if (validatedData.price !== undefined && validatedData.price !== existingProduct.price) {
+    requirePermission(user, 'products.price.edit')
+  }
+  if (validatedData.stock !== undefined && validatedData.stock !== existingProduct.stock) {
+    requirePermission(user, 'stock.adjust')
+  }
 
-    // Parse and validate request body
-    const body = await request.json()
-    const validatedData = productUpdateSchema.parse(body)
+  // Update product (manual stock changes are recorded as ledger adjustments)
+  const product = await prisma.$transaction(async (tx) => {
+    if (validatedData.stock !== undefined && validatedData.stock !== existingProduct.stock) {
+      await applyStockMovement(tx, {
+        productId: id,
+        type: 'ADJUSTMENT',
+        quantity: validatedData.stock - existingProduct.stock,
+        userId: user.userId,
+        note: 'Modification manuelle du stock'
+      })
+
+      // Stock removed by hand is taken out of the lots too, so FEFO does not allocate it again
+      if (validatedData.stock < existingProduct.stock) {
+        await consumeLots(tx, id, existingProduct.stock - validatedData.stock)
+      }
+    }
 
-    // Update product
-    const product = await prisma.product.update({
+    return tx.product.update({
       where: { id },
       data: {
         name: validatedData.name,
@@ -143,7 +128,6 @@ export async function PUT(
         price: validatedData.price !== undefined 
           ? Math.round(validatedData.price * 100) / 100 
           : undefined,
-        stock: validatedData.stock,
         unit: validatedData.unit,
         stockAlert: validatedData.lowStockThreshold,
         supplierId: validatedData.supplierId === '' ? null : validatedData.supplierId,
@@ -157,91 +141,50 @@ export async function PUT(
         }
       }
     })
-
-    // Format response
-    const formattedProduct = {
-      id: product.id,
-      name: product.name,
-      description: product.description,
-      price: product.price,
-      stock: product.stock,
-      unit: product.unit,
-      lowStockThreshold: product.stockAlert,
-      supplier: product.supplier
-    }
-
-    return successResponse(formattedProduct)
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      if (error.message === 'FORBIDDEN') {
-        return forbiddenResponse()
-      }
-      if ('status' in error && (error as Error & { status: number }).status === 401) {
-        return unauthorizedResponse(error.message)
-      }
-    }
-    
-    if (error instanceof z.ZodError) {
-      return errorResponse(error.issues[0].message, 400)
-    }
-    
-    console.error("API Error:", error)
-    return errorResponse("Une erreur est survenue", 500)
+  })
+
+  // Format response
+  const formattedProduct = {
+    id: product.id,
+    name: product.name,
+    description: product.description,
+    price: product.price,
+    stock: product.stock,
+    unit: product.unit,
+    lowStockThreshold: product.stockAlert,
+    supplier: product.supplier
   }
-}
 
-// DELETE /api/mobile/products/[id] - Supprimer un produit
-// 🔐 Accessible : ADMIN uniquement
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    // Verify authentication
-    const user = await verifyAuthToken(request)
-    
-    // Check permissions (ADMIN only)
-    checkAdmin(user.role)
-
-    const { id } = await params
-
-    // Check if product exists and has associated orders
-    const product = await prisma.product.findUnique({
-      where: { id },
-      include: {
-        orderItems: true
-      }
-    })
-
-    if (!product) {
-      return notFoundResponse("Produit non trouvé")
-    }
+  return successResponse(formattedProduct)
+})
 
-    // Check if product has orders
-    if (product.orderItems.length > 0) {
-      return errorResponse(
-        "Ce produit ne peut pas être supprimé car il est associé à des commandes existantes",
-        400
-      )
+// DELETE /api/mobile/products/[id] - Supprimer un produit
+// 🔑 Permission : products.delete
+export const DELETE = createHandler({
+  auth: 'bearer',
+  permission: 'products.delete',
+}, async ({ params: { id }, locale }) => {
+  // Check if product exists and has associated orders
+  const product = await prisma.product.findUnique({
+    where: { id },
+    include: {
+      orderItems: true
     }
+  })
 
-    // Delete product
-    await prisma.product.delete({
-      where: { id }
-    })
+  if (!product) {
+    return apiErrorResponse('PRODUCT_NOT_FOUND', undefined, locale)
+  }
 
-    return successResponse({ message: "Produit supprimé avec succès" })
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      if (error.message === 'FORBIDDEN') {
-        return forbiddenResponse()
-      }
-      if ('status' in error && (error as Error & { status: number }).status === 401) {
-        return unauthorizedResponse(error.message)
-      }
-    }
-    
-    console.error("API Error:", error)
-    return errorResponse("Une erreur est survenue", 500)
+  // Check if product has orders
+  if (product.orderItems.length > 0) {
+    return apiErrorResponse('PRODUCT_HAS_ORDERS', undefined, locale)
   }
-}
+
+  // Delete product
+  await prisma.product.delete({
+    where: { id }
+  })
+
+  return successResponse({ message: "Produit supprimé avec succès" })
+})
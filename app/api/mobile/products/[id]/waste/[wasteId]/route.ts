@@ -0,0 +1,25 @@
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { formatWaste, reverseWaste } from "@/lib/waste"
+
+// Validation schema for waste reversal (body optional)
+const reversalSchema = z.object({
+  note: z.string().max(500, "La note ne peut pas dépasser 500 caractères").optional(),
+})
+
+// DELETE /api/mobile/products/[id]/waste/[wasteId] - Annuler une perte déclarée par erreur
+// 🔑 Permission : stock.manage
+export const DELETE = createHandler({
+  auth: 'bearer',
+  permission: 'stock.manage',
+  body: reversalSchema,
+}, async ({ user, params: { id, wasteId }, body: { note }, locale }) => {
+  const result = await reverseWaste(wasteId, id, user.userId, note)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse(formatWaste(result.data))
+})
@@ -0,0 +1,100 @@
+import { z } from "zod"
+import { prisma } from "@/lib/prisma"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, errorResponse, successResponse } from "@/lib/apiResponse"
+import { getPaginationParams, calculatePagination, getSkipTake } from "@/lib/pagination"
+import { buildDateFilter } from "@/lib/filters"
+import { WASTE_REASONS, wasteInclude, formatWaste, recordWaste } from "@/lib/waste"
+
+// Validation schema for waste declaration
+const wasteSchema = z.object({
+  quantity: z.number().positive("La quantité doit être positive"),
+  reason: z.enum(WASTE_REASONS, {
+    message: `Motif invalide. Valeurs possibles : ${WASTE_REASONS.join(', ')}`
+  }),
+  photoNote: z.string().max(500, "La note photo ne peut pas dépasser 500 caractères").optional(),
+  lotId: z.string().optional(),
+})
+
+// GET /api/mobile/products/[id]/waste - Pertes déclarées sur un produit
+// 🔑 Permission : products.view
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'products.view',
+}, async ({ request, params: { id }, locale }) => {
+  const { searchParams } = new URL(request.url)
+
+  // Check if product exists
+  const product = await prisma.product.findUnique({
+    where: { id },
+    select: { id: true }
+  })
+
+  if (!product) {
+    return apiErrorResponse('PRODUCT_NOT_FOUND', undefined, locale)
+  }
+
+  // Pagination
+  const { page, limit } = getPaginationParams(searchParams)
+  const { skip, take } = getSkipTake(page, limit)
+
+  // Filtres
+  const where: {
+    productId: string;
+    reason?: string;
+    reversedAt?: null;
+    createdAt?: { gte?: Date; lte?: Date };
+  } = { productId: id }
+
+  const reason = searchParams.get('reason')
+  if (reason) {
+    if (!(WASTE_REASONS as readonly string[]).includes(reason)) {
+      return errorResponse(`Motif invalide. Valeurs possibles : ${WASTE_REASONS.join(', ')}`, 400, 'VALIDATION_ERROR', { field: 'reason' })
+    }
+    where.reason = reason
+  }
+
+  if (searchParams.get('includeReversed') !== 'true') {
+    where.reversedAt = null
+  }
+
+  const dateFilter = buildDateFilter(searchParams)
+  if (dateFilter) {
+    where.createdAt = dateFilter
+  }
+
+  const [records, total] = await prisma.$transaction([
+    prisma.wasteRecord.findMany({
+      where,
+      include: wasteInclude,
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take
+    }),
+    prisma.wasteRecord.count({ where })
+  ])
+
+  const data = records.map(formatWaste)
+  const meta = calculatePagination(total, page, limit)
+
+  return Response.json(
+    { success: true, data, meta },
+    { status: 200 }
+  )
+})
+
+// POST /api/mobile/products/[id]/waste - Déclarer une perte (avarié, parage, abîmé...)
+// 🔑 Permission : stock.adjust
+export const POST = createHandler({
+  auth: 'bearer',
+  permission: 'stock.adjust',
+  body: wasteSchema,
+}, async ({ user, params: { id }, body: validatedData, locale }) => {
+  const result = await recordWaste(id, validatedData, user.userId)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse(formatWaste(result.data), 201)
+})
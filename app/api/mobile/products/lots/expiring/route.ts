@@ -0,0 +1,33 @@
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { successResponse } from "@/lib/apiResponse"
+import { getExpiringLots } from "@/lib/lots"
+
+// Horizon par défaut : lots dont la DLC tombe dans les 3 prochains jours
+const DEFAULT_DAYS = 3
+const MAX_DAYS = 90
+
+const INVALID_DAYS = "Le nombre de jours doit être un entier positif"
+
+// Validation schema for the query string
+const expiringQuerySchema = z.object({
+  days: z.coerce.number({ message: INVALID_DAYS }).int(INVALID_DAYS).min(0, INVALID_DAYS).default(DEFAULT_DAYS),
+})
+
+// GET /api/mobile/products/lots/expiring - Lots arrivant à DLC dans les N jours (?days=3)
+// 🔑 Permission : products.view
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'products.view',
+  query: expiringQuerySchema,
+}, async ({ query }) => {
+  const days = Math.min(query.days, MAX_DAYS)
+  const lots = await getExpiringLots(days)
+
+  return successResponse({
+    days,
+    count: lots.length,
+    expiredCount: lots.filter(lot => lot.expired).length,
+    lots
+  })
+})
@@ -0,0 +1,24 @@
+import { createHandler } from "@/lib/apiHandler"
+import { successResponse } from "@/lib/apiResponse"
+import { reconcileStock } from "@/lib/stock"
+
+// GET /api/mobile/products/stock-reconciliation - Compare le stock au registre des mouvements
+// 🔑 Permission : stock.manage
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'stock.manage',
+}, async ({ request }) => {
+  const { searchParams } = new URL(request.url)
+  const productId = searchParams.get('productId') || undefined
+  const onlyDrift = searchParams.get('onlyDrift') === 'true'
+
+  const lines = await reconcileStock(productId)
+  const drifting = lines.filter(line => !line.inSync)
+
+  return successResponse({
+    checkedAt: new Date().toISOString(),
+    totalProducts: lines.length,
+    driftingProducts: drifting.length,
+    products: onlyDrift ? drifting : lines
+  })
+})
@@ -1,16 +1,8 @@
-import { NextRequest } from "next/server"
 import { z } from "zod"
 import { compare, hash } from "bcryptjs"
 import { prisma } from "@/lib/prisma"
-import { verifyAuthToken } from "@/lib/middleware/authMiddleware"
-import { checkAdminOrEmployee } from "@/lib/middleware/checkPermission"
-import { 
-  successResponse, 
-  errorResponse, 
-  unauthorizedResponse, 
-  forbiddenResponse,
-  notFoundResponse
-} from "@/lib/apiResponse"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
 
 // Validation schema for profile update
 const profileUpdateSchema = z.object({
@@ -33,160 +25,120 @@ const profileUpdateSchema = z.object({
 )
 
 // GET /api/mobile/profile - Récupérer le profil utilisateur
-// ✅ Accessible : ADMIN + EMPLOYEE
-export async function GET(request: NextRequest) {
-  try {
-    // Verify authentication
-    const authUser = await verifyAuthToken(request)
-    
-    // Check permissions (ADMIN or EMPLOYEE)
-    checkAdminOrEmployee(authUser.role)
-
-    // Get user from database
-    const user = await prisma.user.findUnique({
-      where: { id: authUser.userId },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        role: true,
-        createdAt: true
-      }
-    })
-
-    if (!user) {
-      return notFoundResponse("Utilisateur non trouvé")
+// ✅ Accessible : tout utilisateur connecté
+export const GET = createHandler({
+  auth: 'bearer',
+  apiKey: false,
+}, async ({ user: authUser, locale }) => {
+  // Get user from database
+  const user = await prisma.user.findUnique({
+    where: { id: authUser.userId },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+      createdAt: true
     }
+  })
 
-    return successResponse({
-      id: user.id,
-      name: user.name,
-      email: user.email,
-      role: user.role,
-      createdAt: user.createdAt.toISOString()
-    })
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      if (error.message === 'FORBIDDEN') {
-        return forbiddenResponse()
-      }
-      if ('status' in error && (error as Error & { status: number }).status === 401) {
-        return unauthorizedResponse(error.message)
-      }
-    }
-    
-    console.error("API Error:", error)
-    return errorResponse("Une erreur est survenue", 500)
+  if (!user) {
+    return apiErrorResponse('USER_NOT_FOUND', undefined, locale)
   }
-}
+
+  return successResponse({
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    createdAt: user.createdAt.toISOString()
+  })
+})
 
 // PUT /api/mobile/profile - Modifier le profil utilisateur
-// ✅ Accessible : ADMIN + EMPLOYEE
-export async function PUT(request: NextRequest) {
-  try {
-    // Verify authentication
-    const authUser = await verifyAuthToken(request)
-    
-    // Check permissions (ADMIN or EMPLOYEE)
-    checkAdminOrEmployee(authUser.role)
-
-    // Parse and validate request body
-    const body = await request.json()
-    const validatedData = profileUpdateSchema.parse(body)
-    const { name, email, currentPassword, newPassword } = validatedData
-
-    // Get current user from database
-    const user = await prisma.user.findUnique({
-      where: { id: authUser.userId }
-    })
+// ✅ Accessible : tout utilisateur connecté
+export const PUT = createHandler({
+  auth: 'bearer',
+  apiKey: false,
+  body: profileUpdateSchema,
+}, async ({ user: authUser, body: validatedData, locale }) => {
+  const { name, email, currentPassword, newPassword } = validatedData
+
+  // Get current user from database
+  const user = await prisma.user.findUnique({
+    where: { id: authUser.userId }
+  })
+
+  if (!user) {
+    return apiErrorResponse('USER_NOT_FOUND', undefined, locale)
+  }
 
-    if (!user) {
-      return notFoundResponse("Utilisateur non trouvé")
-    }
+  // Build data to update
+  const dataToUpdate: {
+    name?: string
+    email?: string
+    password?: string
+  } = {}
 
-    // Build data to update
-    const dataToUpdate: {
-      name?: string
-      email?: string
-      password?: string
-    } = {}
+  // Si changement de nom
+  if (name && name !== user.name) {
+    dataToUpdate.name = name
+  }
 
-    // Si changement de nom
-    if (name && name !== user.name) {
-      dataToUpdate.name = name
-    }
+  // Si changement d'email
+  if (email && email !== user.email) {
+    // Vérifier que le nouvel email n'est pas déjà utilisé
+    const existingUser = await prisma.user.findUnique({
+      where: { email }
+    })
 
-    // Si changement d'email
-    if (email && email !== user.email) {
-      // Vérifier que le nouvel email n'est pas déjà utilisé
-      const existingUser = await prisma.user.findUnique({
-        where: { email }
-      })
+    if (existingUser) {
+      return apiErrorResponse('EMAIL_ALREADY_USED', undefined, locale)
+    }
 
-      if (existingUser) {
-        return errorResponse("Cet email est déjà utilisé", 400)
-      }
+    dataToUpdate.email = email
+  }
 
-      dataToUpdate.email = email
+  // Si changement de mot de passe
+  if (newPassword) {
+    if (!currentPassword) {
+      return apiErrorResponse('CURRENT_PASSWORD_REQUIRED', undefined, locale)
     }
 
-    // Si changement de mot de passe
-    if (newPassword) {
-      if (!currentPassword) {
-        return errorResponse("Mot de passe actuel requis", 400)
-      }
-
-      // Vérifier l'ancien mot de passe
-      const isValid = await compare(currentPassword, user.password)
-      if (!isValid) {
-        return errorResponse("Mot de passe actuel incorrect", 400)
-      }
-
-      // Hasher le nouveau mot de passe
-      const hashedPassword = await hash(newPassword, 10)
-      dataToUpdate.password = hashedPassword
+    // Vérifier l'ancien mot de passe
+    const isValid = await compare(currentPassword, user.password)
+    if (!isValid) {
+      return apiErrorResponse('CURRENT_PASSWORD_INCORRECT', undefined, locale)
     }
 
-    // Check if there's anything to update
-    if (Object.keys(dataToUpdate).length === 0) {
-      return errorResponse("Aucune modification fournie", 400)
-    }
+    // Hasher le nouveau mot de passe
+    const hashedPassword = await hash(newPassword, 10)
+    dataToUpdate.password = hashedPassword
+  }
 
-    // Mettre à jour l'utilisateur
-    const updatedUser = await prisma.user.update({
-      where: { id: authUser.userId },
-      data: dataToUpdate,
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        role: true,
-        createdAt: true
-      }
-    })
+  // Check if there's anything to update
+  if (Object.keys(dataToUpdate).length === 0) {
+    return apiErrorResponse('NO_CHANGES', undefined, locale)
+  }
 
-    return successResponse({
-      id: updatedUser.id,
-      name: updatedUser.name,
-      email: updatedUser.email,
-      role: updatedUser.role,
-      createdAt: updatedUser.createdAt.toISOString()
-    })
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      if (error.message === 'FORBIDDEN') {
-        return forbiddenResponse()
-      }
-      if ('status' in error && (error as Error & { status: number }).status === 401) {
-        return unauthorizedResponse(error.message)
-      }
+  // Mettre à jour l'utilisateur
+  const updatedUser = await prisma.user.update({
+    where: { id: authUser.userId },
+    data: dataToUpdate,
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+      createdAt: true
     }
-    
-    if (error instanceof z.ZodError) {
-      return errorResponse(error.issues[0].message, 400)
-    }
-    
-    console.error("API Error:", error)
-    return errorResponse("Une erreur est survenue", 500)
-  }
-}
+  })
+
+  return successResponse({
+    id: updatedUser.id,
+    name: updatedUser.name,
+    email: updatedUser.email,
+    role: updatedUser.role,
+    createdAt: updatedUser.createdAt.toISOString()
+  })
+})
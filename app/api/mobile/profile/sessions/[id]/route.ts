@@ -0,0 +1,18 @@
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { revokeUserSession } from "@/lib/sessions"
+
+// DELETE /api/mobile/profile/sessions/[id] - Déconnecter un appareil
+// ✅ Accessible : tout utilisateur connecté (ses propres sessions uniquement)
+export const DELETE = createHandler({
+  auth: 'bearer',
+  apiKey: false,
+}, async ({ user: authUser, params: { id }, locale }) => {
+  const revoked = await revokeUserSession(authUser.userId, id)
+
+  if (!revoked) {
+    return apiErrorResponse('SESSION_NOT_FOUND', undefined, locale)
+  }
+
+  return successResponse({ id, current: id === authUser.sessionId })
+})
@@ -0,0 +1,30 @@
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { listUserSessions, revokeUserSessions } from "@/lib/sessions"
+
+// GET /api/mobile/profile/sessions - Appareils connectés de l'utilisateur
+// ✅ Accessible : tout utilisateur connecté
+export const GET = createHandler({
+  auth: 'bearer',
+  apiKey: false,
+}, async ({ user: authUser }) => {
+  const sessions = await listUserSessions(authUser.userId, authUser.sessionId)
+
+  return successResponse(sessions)
+})
+
+// DELETE /api/mobile/profile/sessions - Déconnecter tous les autres appareils
+// ✅ Accessible : tout utilisateur connecté
+export const DELETE = createHandler({
+  auth: 'bearer',
+  apiKey: false,
+}, async ({ user: authUser, locale }) => {
+  // Token émis avant le suivi des sessions : impossible de savoir quel appareil conserver
+  if (!authUser.sessionId) {
+    return apiErrorResponse('CURRENT_SESSION_UNKNOWN', undefined, locale)
+  }
+
+  const revoked = await revokeUserSessions(authUser.userId, authUser.sessionId)
+
+  return successResponse({ revoked })
+})
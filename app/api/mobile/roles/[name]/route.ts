@@ -0,0 +1,43 @@
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { PERMISSIONS } from "@/lib/permissions"
+import { deleteRole, updateRole } from "@/lib/roles"
+
+// Validation schema for role update
+const roleUpdateSchema = z.object({
+  label: z.string().trim().min(1, "Le libellé est requis").optional(),
+  // Remplace l'ensemble des permissions du rôle
+  permissions: z.array(z.enum(PERMISSIONS)).optional(),
+})
+
+// PUT /api/mobile/roles/[name] - Modifier le libellé ou les permissions d'un rôle
+// 🔑 Permission : users.manage
+export const PUT = createHandler({
+  auth: 'bearer',
+  permission: 'users.manage',
+  body: roleUpdateSchema,
+}, async ({ user, params: { name }, body: validatedData, locale }) => {
+  const result = await updateRole(name, validatedData, user)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse(result.data)
+})
+
+// DELETE /api/mobile/roles/[name] - Supprimer un rôle personnalisé qui n'est plus attribué
+// 🔑 Permission : users.manage
+export const DELETE = createHandler({
+  auth: 'bearer',
+  permission: 'users.manage',
+}, async ({ params: { name }, locale }) => {
+  const result = await deleteRole(name)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse({ message: "Rôle supprimé" })
+})
@@ -0,0 +1,43 @@
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { PERMISSIONS, PERMISSION_LABELS } from "@/lib/permissions"
+import { createRole, listRoles } from "@/lib/roles"
+
+// Validation schema for role creation
+const roleSchema = z.object({
+  name: z.string()
+    .regex(/^[A-Z][A-Z0-9_]{1,29}$/, "Le nom du rôle doit être en majuscules (lettres, chiffres, _)"),
+  label: z.string().trim().min(1, "Le libellé est requis"),
+  permissions: z.array(z.enum(PERMISSIONS)).default([]),
+})
+
+// GET /api/mobile/roles - Rôles et catalogue des permissions
+// 🔑 Permission : users.manage
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'users.manage',
+}, async () => {
+  const roles = await listRoles()
+
+  return successResponse({
+    roles,
+    permissions: PERMISSIONS.map(name => ({ name, label: PERMISSION_LABELS[name] }))
+  })
+})
+
+// POST /api/mobile/roles - Créer un rôle personnalisé
+// 🔑 Permission : users.manage
+export const POST = createHandler({
+  auth: 'bearer',
+  permission: 'users.manage',
+  body: roleSchema,
+}, async ({ user, body: validatedData, locale }) => {
+  const result = await createRole(validatedData, user)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse(result.data, 201)
+})
@@ -1,13 +1,7 @@
-import { NextRequest } from "next/server"
 import { prisma } from "@/lib/prisma"
-import { verifyAuthToken } from "@/lib/middleware/authMiddleware"
-import { checkAdminOrEmployee } from "@/lib/middleware/checkPermission"
-import { 
-  successResponse, 
-  errorResponse, 
-  unauthorizedResponse, 
-  forbiddenResponse 
-} from "@/lib/apiResponse"
+import { createHandler } from "@/lib/apiHandler"
+import { hasPermission } from "@/lib/permissions"
+import { errorResponse, successResponse } from "@/lib/apiResponse"
 
 // Type definitions for search results
 interface ProductResult {
@@ -46,134 +40,116 @@ interface SearchResults {
 }
 
 // GET /api/mobile/search - Recherche globale
-// ✅ Accessible : ADMIN + EMPLOYEE
-export async function GET(request: NextRequest) {
-  try {
-    // Verify authentication
-    const user = await verifyAuthToken(request)
-    
-    // Check permissions (ADMIN or EMPLOYEE)
-    checkAdminOrEmployee(user.role)
+// ✅ Accessible : tout utilisateur connecté (seules les catégories permises sont cherchées)
+export const GET = createHandler({
+  auth: 'bearer',
+}, async ({ request, user }) => {
+  // Parse query parameters
+  const searchParams = request.nextUrl.searchParams
+  const query = searchParams.get('q') || ''
+  const type = searchParams.get('type') || 'all'
+  const limit = parseInt(searchParams.get('limit') || '5')
+
+  // Validate query length
+  if (query.length < 2) {
+    return errorResponse("Le terme de recherche doit contenir au moins 2 caractères", 400, 'VALIDATION_ERROR', { field: 'q' })
+  }
 
-    // Parse query parameters
-    const searchParams = request.nextUrl.searchParams
-    const query = searchParams.get('q') || ''
-    const type = searchParams.get('type') || 'all'
-    const limit = parseInt(searchParams.get('limit') || '5')
+  // Validate type
+  const validTypes = ['all', 'products', 'customers', 'orders']
+  if (!validTypes.includes(type)) {
+    return errorResponse("Type de recherche invalide. Utilisez: all, products, customers, orders", 400, 'VALIDATION_ERROR', { field: 'type' })
+  }
 
-    // Validate query length
-    if (query.length < 2) {
-      return errorResponse("Le terme de recherche doit contenir au moins 2 caractères", 400)
-    }
+  const results: SearchResults = {}
+  let totalResults = 0
+
+  // Recherche dans les produits
+  if ((type === 'all' || type === 'products') && hasPermission(user, 'products.view')) {
+    const products = await prisma.product.findMany({
+      where: {
+        name: {
+          contains: query
+        }
+      },
+      select: {
+        id: true,
+        name: true,
+        price: true,
+        stock: true,
+        unit: true
+      },
+      take: limit
+    })
 
-    // Validate type
-    const validTypes = ['all', 'products', 'customers', 'orders']
-    if (!validTypes.includes(type)) {
-      return errorResponse("Type de recherche invalide. Utilisez: all, products, customers, orders", 400)
-    }
+    results.products = products.map(p => ({
+      ...p,
+      type: "product" as const
+    }))
+    totalResults += products.length
+  }
 
-    const results: SearchResults = {}
-    let totalResults = 0
+  // Recherche dans les clients
+  if ((type === 'all' || type === 'customers') && hasPermission(user, 'customers.view')) {
+    const customers = await prisma.customer.findMany({
+      where: {
+        OR: [
+          { name: { contains: query } },
+          { email: { contains: query } },
+          { phone: { contains: query } }
+        ]
+      },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        phone: true
+      },
+      take: limit
+    })
+
+    results.customers = customers.map(c => ({
+      ...c,
+      type: "customer" as const
+    }))
+    totalResults += customers.length
+  }
 
-    // Recherche dans les produits
-    if (type === 'all' || type === 'products') {
-      const products = await prisma.product.findMany({
-        where: {
+  // Recherche dans les commandes (par nom client)
+  if ((type === 'all' || type === 'orders') && hasPermission(user, 'orders.view')) {
+    const orders = await prisma.order.findMany({
+      where: {
+        customer: {
           name: {
             contains: query
           }
-        },
-        select: {
-          id: true,
-          name: true,
-          price: true,
-          stock: true,
-          unit: true
-        },
-        take: limit
-      })
-
-      results.products = products.map(p => ({
-        ...p,
-        type: "product" as const
-      }))
-      totalResults += products.length
-    }
-
-    // Recherche dans les clients
-    if (type === 'all' || type === 'customers') {
-      const customers = await prisma.customer.findMany({
-        where: {
-          OR: [
-            { name: { contains: query } },
-            { email: { contains: query } },
-            { phone: { contains: query } }
-          ]
-        },
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          phone: true
-        },
-        take: limit
-      })
-
-      results.customers = customers.map(c => ({
-        ...c,
-        type: "customer" as const
-      }))
-      totalResults += customers.length
-    }
-
-    // Recherche dans les commandes (par nom client)
-    if (type === 'all' || type === 'orders') {
-      const orders = await prisma.order.findMany({
-        where: {
-          customer: {
-            name: {
-              contains: query
-            }
-          }
-        },
-        include: {
-          customer: {
-            select: { id: true, name: true }
-          }
-        },
-        take: limit,
-        orderBy: { createdAt: 'desc' }
-      })
+        }
+      },
+      include: {
+        customer: {
+          select: { id: true, name: true }
+        }
+      },
+      take: limit,
+      orderBy: { createdAt: 'desc' }
+    })
 
-      results.orders = orders.map(o => ({
-        id: o.id,
-        total: Math.round(o.total * 100) / 100,
-        status: o.status,
-        createdAt: o.createdAt.toISOString(),
-        customer: o.customer,
-        type: "order" as const
-      }))
-      totalResults += orders.length
-    }
+    results.orders = orders.map(o => ({
+      id: o.id,
+      total: Math.round(o.total * 100) / 100,
+      status: o.status,
+      createdAt: o.createdAt.toISOString(),
+      customer: o.customer,
+      type: "order" as const
+    }))
+    totalResults += orders.length
+  }
 
-    return successResponse({
-      ...results,
-      meta: {
-        query,
-        totalResults
-      }
-    })
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      if (error.message === 'FORBIDDEN') {
-        return forbiddenResponse()
-      }
-      if ('status' in error && (error as Error & { status: number }).status === 401) {
-        return unauthorizedResponse(error.message)
-      }
+  return successResponse({
+    ...results,
+    meta: {
+      query,
+      totalResults
     }
-    
-    console.error("API Error:", error)
-    return errorResponse("Une erreur est survenue", 500)
-  }
-}
+  })
+})
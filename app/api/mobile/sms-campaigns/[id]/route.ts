@@ -0,0 +1,38 @@
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { createHandler } from "@/lib/apiHandler"
+import { cancelCampaign, getCampaign } from "@/lib/smsCampaigns"
+
+// GET /api/mobile/sms-campaigns/[id] - Détail et avancement d'une campagne
+// Résultats par destinataire : GET /api/mobile/sms-logs?campaignId=...
+// 🔑 Permission : notifications.manage
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'notifications.manage',
+}, async ({ params: { id }, locale }) => {
+  const campaign = await getCampaign(id)
+
+  if (!campaign) {
+    return apiErrorResponse('CAMPAIGN_NOT_FOUND', undefined, locale)
+  }
+
+  return successResponse(campaign)
+})
+
+// DELETE /api/mobile/sms-campaigns/[id] - Annuler une campagne (les SMS pas encore partis sont retirés de la file)
+// 🔑 Permission : notifications.manage
+export const DELETE = createHandler({
+  auth: 'bearer',
+  permission: 'notifications.manage',
+}, async ({ params: { id }, locale }) => {
+  const campaign = await cancelCampaign(id)
+
+  if (campaign === null) {
+    return apiErrorResponse('CAMPAIGN_NOT_FOUND', undefined, locale)
+  }
+
+  if (campaign === false) {
+    return apiErrorResponse('CAMPAIGN_ALREADY_CANCELLED', undefined, locale)
+  }
+
+  return successResponse(campaign)
+})
@@ -0,0 +1,26 @@
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { successResponse } from "@/lib/apiResponse"
+import { previewCampaign } from "@/lib/smsCampaigns"
+
+// Validation schema for preview: same segment as a campaign, message optional
+const previewSchema = z.object({
+  message: z.string().min(1, "Le message ne peut pas être vide").optional(),
+  segment: z.object({
+    orderedWithinDays: z.number().int().positive("Le nombre de jours doit être positif").optional(),
+    productId: z.string().min(1).optional(),
+    minTotalSpent: z.number().nonnegative("Le montant doit être positif").optional(),
+  }),
+})
+
+// POST /api/mobile/sms-campaigns/preview - Nombre de destinataires d'un segment avant envoi
+// 🔑 Permission : notifications.manage
+export const POST = createHandler({
+  auth: 'bearer',
+  permission: 'notifications.manage',
+  body: previewSchema,
+}, async ({ body: validatedData }) => {
+  const preview = await previewCampaign(validatedData.segment, validatedData.message)
+
+  return successResponse(preview)
+})
@@ -0,0 +1,57 @@
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { getPaginationParams, calculatePagination, getSkipTake } from "@/lib/pagination"
+import { createCampaign, getCampaign, listCampaigns } from "@/lib/smsCampaigns"
+import { flushSmsOutbox } from "@/lib/smsOutbox"
+
+// Validation schema for campaign creation
+const campaignSchema = z.object({
+  name: z.string().min(1, "Le nom de la campagne est requis"),
+  message: z.string().min(1, "Le message ne peut pas être vide"),
+  segment: z.object({
+    orderedWithinDays: z.number().int().positive("Le nombre de jours doit être positif").optional(),
+    productId: z.string().min(1).optional(),
+    minTotalSpent: z.number().nonnegative("Le montant doit être positif").optional(),
+  }),
+})
+
+// GET /api/mobile/sms-campaigns - Liste des campagnes SMS avec leur avancement
+// 🔑 Permission : notifications.manage
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'notifications.manage',
+}, async ({ request }) => {
+  const { searchParams } = new URL(request.url)
+
+  // Pagination
+  const { page, limit } = getPaginationParams(searchParams)
+  const { skip, take } = getSkipTake(page, limit)
+
+  const { campaigns, total } = await listCampaigns(skip, take)
+  const meta = calculatePagination(total, page, limit)
+
+  return Response.json(
+    { success: true, data: campaigns, meta },
+    { status: 200 }
+  )
+})
+
+// POST /api/mobile/sms-campaigns - Lancer une campagne vers un segment de clients
+// Les SMS sont mis en file et envoyés de façon étalée par le worker de l'outbox
+// 🔑 Permission : notifications.manage
+export const POST = createHandler({
+  auth: 'bearer',
+  permission: 'notifications.manage',
+  body: campaignSchema,
+}, async ({ user, body: validatedData, locale }) => {
+  const result = await createCampaign(validatedData, user.userId)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  flushSmsOutbox()
+
+  return successResponse(await getCampaign(result.data.id), 201)
+})
@@ -0,0 +1,19 @@
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { resendSmsLog } from "@/lib/smsLogs"
+import { formatSmsOutboxMessage } from "@/lib/smsOutbox"
+
+// POST /api/mobile/sms-logs/[id]/resend - Renvoyer un SMS en échec (via l'outbox)
+// 🔑 Permission : notifications.manage
+export const POST = createHandler({
+  auth: 'bearer',
+  permission: 'notifications.manage',
+}, async ({ params: { id }, locale }) => {
+  const result = await resendSmsLog(id)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse(formatSmsOutboxMessage(result.data))
+})
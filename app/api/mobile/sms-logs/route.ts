@@ -0,0 +1,85 @@
+import { Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { createHandler } from "@/lib/apiHandler"
+import { errorResponse } from "@/lib/apiResponse"
+import { getPaginationParams, calculatePagination, getSkipTake } from "@/lib/pagination"
+import { buildDateFilter } from "@/lib/filters"
+import { formatSmsLog, getSmsLogStats } from "@/lib/smsLogs"
+import { SMS_DELIVERY_STATUSES } from "@/lib/smsDelivery"
+
+// GET /api/mobile/sms-logs - Historique des SMS envoyés avec statistiques
+// Filtres : orderId, campaignId, phone, success=true|false, deliveryStatus, from/to
+// 🔑 Permission : notifications.manage
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'notifications.manage',
+}, async ({ request }) => {
+  const { searchParams } = new URL(request.url)
+
+  // Pagination
+  const { page, limit } = getPaginationParams(searchParams)
+  const { skip, take } = getSkipTake(page, limit)
+
+  // Filtres
+  const where: Prisma.SmsLogWhereInput = {}
+
+  const orderId = searchParams.get('orderId')
+  if (orderId) {
+    where.orderId = orderId
+  }
+
+  const campaignId = searchParams.get('campaignId')
+  if (campaignId) {
+    where.campaignId = campaignId
+  }
+
+  const phone = searchParams.get('phone')
+  if (phone) {
+    where.telephone = { contains: phone }
+  }
+
+  const success = searchParams.get('success')
+  if (success) {
+    if (success !== 'true' && success !== 'false') {
+      return errorResponse("Le filtre success doit valoir true ou false", 400, 'VALIDATION_ERROR', { field: 'success' })
+    }
+    where.success = success === 'true'
+  }
+
+  const deliveryStatus = searchParams.get('deliveryStatus')
+  if (deliveryStatus) {
+    if (!(SMS_DELIVERY_STATUSES as readonly string[]).includes(deliveryStatus)) {
+      return errorResponse(`Statut de remise invalide. Valeurs possibles : ${SMS_DELIVERY_STATUSES.join(', ')}`, 400, 'VALIDATION_ERROR', { field: 'deliveryStatus' })
+    }
+    where.deliveryStatus = deliveryStatus
+  }
+
+  const dateFilter = buildDateFilter(searchParams)
+  if (dateFilter) {
+    where.dateEnvoi = dateFilter
+  }
+
+  const [logs, total] = await prisma.$transaction([
+    prisma.smsLog.findMany({
+      where,
+      orderBy: { dateEnvoi: 'desc' },
+      skip,
+      take
+    }),
+    prisma.smsLog.count({ where })
+  ])
+
+  // Statistiques calculées sur les mêmes filtres (toutes pages confondues)
+  const stats = await getSmsLogStats(where)
+
+  const data = {
+    stats,
+    logs: logs.map(formatSmsLog)
+  }
+  const meta = calculatePagination(total, page, limit)
+
+  return Response.json(
+    { success: true, data, meta },
+    { status: 200 }
+  )
+})
@@ -0,0 +1,24 @@
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { createHandler } from "@/lib/apiHandler"
+import { requeueSmsOutboxMessage, formatSmsOutboxMessage, flushSmsOutbox } from "@/lib/smsOutbox"
+
+// POST /api/mobile/sms-outbox/[id]/retry - Remettre en file un SMS en échec (FAILED ou DEAD)
+// 🔑 Permission : notifications.manage
+export const POST = createHandler({
+  auth: 'bearer',
+  permission: 'notifications.manage',
+}, async ({ params: { id }, locale }) => {
+  const message = await requeueSmsOutboxMessage(id)
+
+  if (message === null) {
+    return apiErrorResponse('OUTBOX_MESSAGE_NOT_FOUND', undefined, locale)
+  }
+
+  if (message === false) {
+    return apiErrorResponse('OUTBOX_MESSAGE_NOT_RETRYABLE', undefined, locale)
+  }
+
+  flushSmsOutbox()
+
+  return successResponse(formatSmsOutboxMessage(message))
+})
@@ -0,0 +1,78 @@
+import { prisma } from "@/lib/prisma"
+import { createHandler } from "@/lib/apiHandler"
+import { errorResponse } from "@/lib/apiResponse"
+import { getPaginationParams, calculatePagination, getSkipTake } from "@/lib/pagination"
+import { buildDateFilter } from "@/lib/filters"
+import { SMS_OUTBOX_STATUSES, formatSmsOutboxMessage } from "@/lib/smsOutbox"
+
+// GET /api/mobile/sms-outbox - File d'envoi des SMS avec l'état de chaque message
+// 🔑 Permission : notifications.manage
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'notifications.manage',
+}, async ({ request }) => {
+  const { searchParams } = new URL(request.url)
+
+  // Pagination
+  const { page, limit } = getPaginationParams(searchParams)
+  const { skip, take } = getSkipTake(page, limit)
+
+  // Filtres
+  const where: {
+    status?: string;
+    orderId?: string;
+    createdAt?: { gte?: Date; lte?: Date };
+  } = {}
+
+  const status = searchParams.get('status')
+  if (status) {
+    if (!(SMS_OUTBOX_STATUSES as readonly string[]).includes(status)) {
+      return errorResponse(`Statut invalide. Valeurs possibles : ${SMS_OUTBOX_STATUSES.join(', ')}`, 400, 'VALIDATION_ERROR', { field: 'status' })
+    }
+    where.status = status
+  }
+
+  const orderId = searchParams.get('orderId')
+  if (orderId) {
+    where.orderId = orderId
+  }
+
+  const dateFilter = buildDateFilter(searchParams)
+  if (dateFilter) {
+    where.createdAt = dateFilter
+  }
+
+  const [messages, total] = await prisma.$transaction([
+    prisma.smsOutbox.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take
+    }),
+    prisma.smsOutbox.count({ where })
+  ])
+
+  const byStatus = await prisma.smsOutbox.groupBy({
+    by: ['status'],
+    _count: { _all: true }
+  })
+
+  // Compteurs globaux par état (toute la file, hors filtres)
+  const counts = Object.fromEntries(
+    SMS_OUTBOX_STATUSES.map(s => [
+      s,
+      byStatus.find(entry => entry.status === s)?._count._all ?? 0
+    ])
+  )
+
+  const data = {
+    counts,
+    messages: messages.map(formatSmsOutboxMessage)
+  }
+  const meta = calculatePagination(total, page, limit)
+
+  return Response.json(
+    { success: true, data, meta },
+    { status: 200 }
+  )
+})
@@ -0,0 +1,93 @@
+import { z } from "zod"
+import { prisma } from "@/lib/prisma"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { 
+  SMS_EVENTS, 
+  SMS_EVENT_LABELS, 
+  SMS_PLACEHOLDERS, 
+  analyzeTemplate, 
+  findUnknownPlaceholders, 
+  getSmsTemplate
+} from "@/lib/smsTemplates"
+
+// Validation schema for template update
+const templateSchema = z.object({
+  body: z.string()
+    .trim()
+    .min(1, "Le message ne peut pas être vide")
+    .max(1000, "Le message ne peut pas dépasser 1000 caractères"),
+  active: z.boolean().optional(),
+})
+
+// Validation schema for the event segment of the URL
+const eventParamsSchema = z.object({
+  event: z.enum(SMS_EVENTS, {
+    message: `Événement invalide. Valeurs possibles : ${SMS_EVENTS.join(', ')}`
+  }),
+})
+
+// PUT /api/mobile/sms-templates/[event] - Modifier le modèle SMS d'un événement
+// 🔑 Permission : notifications.manage
+export const PUT = createHandler({
+  auth: 'bearer',
+  permission: 'notifications.manage',
+  params: eventParamsSchema,
+  body: templateSchema,
+}, async ({ user, params: { event }, body: validatedData, locale }) => {
+  const unknown = findUnknownPlaceholders(validatedData.body)
+  if (unknown.length > 0) {
+    return apiErrorResponse('UNKNOWN_PLACEHOLDERS', {
+      unknown: unknown.map(name => `{${name}}`).join(', '),
+      available: SMS_PLACEHOLDERS.map(name => `{${name}}`).join(', ')
+    }, locale)
+  }
+
+  const template = await prisma.smsTemplate.upsert({
+    where: { event },
+    create: {
+      event,
+      body: validatedData.body,
+      active: validatedData.active ?? true,
+      updatedById: user.userId
+    },
+    update: {
+      body: validatedData.body,
+      ...(validatedData.active !== undefined && { active: validatedData.active }),
+      updatedById: user.userId
+    }
+  })
+
+  const length = analyzeTemplate(template.body)
+
+  return successResponse({
+    event,
+    label: SMS_EVENT_LABELS[event],
+    body: template.body,
+    active: template.active,
+    isDefault: false,
+    updatedAt: template.updatedAt.toISOString(),
+    length,
+    warnings: length.warning ? [length.warning] : []
+  })
+})
+
+// DELETE /api/mobile/sms-templates/[event] - Revenir au modèle par défaut
+// 🔑 Permission : notifications.manage
+export const DELETE = createHandler({
+  auth: 'bearer',
+  permission: 'notifications.manage',
+  params: eventParamsSchema,
+}, async ({ params: { event } }) => {
+  await prisma.smsTemplate.deleteMany({
+    where: { event }
+  })
+
+  const template = await getSmsTemplate(event)
+
+  return successResponse({
+    ...template,
+    label: SMS_EVENT_LABELS[event],
+    length: analyzeTemplate(template.body)
+  })
+})
@@ -0,0 +1,55 @@
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { SMS_EVENTS, SMS_PLACEHOLDERS, findUnknownPlaceholders, renderOrderSms } from "@/lib/smsTemplates"
+
+// Validation schema for preview: stored template of the event, or a draft body
+const previewSchema = z.object({
+  event: z.enum(SMS_EVENTS, {
+    message: `Événement invalide. Valeurs possibles : ${SMS_EVENTS.join(', ')}`
+  }),
+  orderId: z.string().min(1, "L'ID de la commande est requis"),
+  body: z.string().min(1, "Le message ne peut pas être vide").optional(),
+})
+
+// POST /api/mobile/sms-templates/preview - Rendu d'un modèle sur une vraie commande
+// 🔑 Permission : orders.view
+export const POST = createHandler({
+  auth: 'bearer',
+  permission: 'orders.view',
+  body: previewSchema,
+}, async ({ body: validatedData, locale }) => {
+  const warnings: string[] = []
+
+  if (validatedData.body) {
+    const unknown = findUnknownPlaceholders(validatedData.body)
+    if (unknown.length > 0) {
+      warnings.push(
+        `Variables inconnues laissées telles quelles : ${unknown.map(name => `{${name}}`).join(', ')} (disponibles : ${SMS_PLACEHOLDERS.map(name => `{${name}}`).join(', ')})`
+      )
+    }
+  }
+
+  const preview = await renderOrderSms(validatedData.event, validatedData.orderId, validatedData.body)
+
+  if (!preview) {
+    return apiErrorResponse('ORDER_NOT_FOUND', undefined, locale)
+  }
+
+  if (preview.length.warning) {
+    warnings.push(preview.length.warning)
+  }
+  if (!preview.order.customer.phone) {
+    warnings.push("Le client n'a pas de numéro de téléphone")
+  }
+
+  return successResponse({
+    event: validatedData.event,
+    orderId: preview.order.id,
+    telephone: preview.order.customer.phone,
+    active: preview.active,
+    message: preview.message,
+    length: preview.length,
+    warnings
+  })
+})
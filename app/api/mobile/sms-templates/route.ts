@@ -0,0 +1,17 @@
+import { createHandler } from "@/lib/apiHandler"
+import { successResponse } from "@/lib/apiResponse"
+import { SMS_PLACEHOLDERS, listSmsTemplates } from "@/lib/smsTemplates"
+
+// GET /api/mobile/sms-templates - Modèles SMS par événement (enregistrés ou par défaut)
+// 🔑 Permission : notifications.manage
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'notifications.manage',
+}, async () => {
+  const templates = await listSmsTemplates()
+
+  return successResponse({
+    placeholders: SMS_PLACEHOLDERS.map(name => `{${name}}`),
+    templates
+  })
+})
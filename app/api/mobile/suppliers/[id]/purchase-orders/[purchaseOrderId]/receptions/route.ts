@@ -0,0 +1,51 @@
+import { z } from "zod"
+import { prisma } from "@/lib/prisma"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { receivePurchaseOrder, formatPurchaseOrder } from "@/lib/purchaseOrders"
+
+// Validation schema for goods reception
+const receptionSchema = z.object({
+  lines: z.array(z.object({
+    lineId: z.string().min(1, "L'ID de la ligne est requis"),
+    quantityReceived: z.number().min(0, "La quantité reçue ne peut pas être négative"),
+    lotNumber: z.string().optional(),
+    catchDate: z.string().datetime({ offset: true }).optional(),
+    useByDate: z.string().datetime({ offset: true }).optional(),
+  })).min(1, "Au moins une ligne est requise"),
+  notes: z.string().optional(),
+  close: z.boolean().optional(),
+})
+
+// POST /api/mobile/suppliers/[id]/purchase-orders/[purchaseOrderId]/receptions - Réceptionner la marchandise
+// 🔑 Permission : purchaseOrders.receive
+export const POST = createHandler({
+  auth: 'bearer',
+  permission: 'purchaseOrders.receive',
+  body: receptionSchema,
+}, async ({ user, params: { id, purchaseOrderId }, body: validatedData, locale }) => {
+  // Check that the purchase order belongs to this supplier
+  const purchaseOrder = await prisma.purchaseOrder.findFirst({
+    where: { id: purchaseOrderId, supplierId: id },
+    select: { id: true }
+  })
+
+  if (!purchaseOrder) {
+    return apiErrorResponse('PURCHASE_ORDER_NOT_FOUND', undefined, locale)
+  }
+
+  const result = await receivePurchaseOrder(purchaseOrderId, {
+    ...validatedData,
+    lines: validatedData.lines.map(line => ({
+      ...line,
+      catchDate: line.catchDate ? new Date(line.catchDate) : null,
+      useByDate: line.useByDate ? new Date(line.useByDate) : null
+    }))
+  }, user.userId)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse(formatPurchaseOrder(result.data), 201)
+})
@@ -0,0 +1,50 @@
+import { prisma } from "@/lib/prisma"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { purchaseOrderInclude, formatPurchaseOrder } from "@/lib/purchaseOrders"
+
+// GET /api/mobile/suppliers/[id]/purchase-orders/[purchaseOrderId] - Détails d'un bon de commande
+// 🔑 Permission : suppliers.view
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'suppliers.view',
+}, async ({ params: { id, purchaseOrderId }, locale }) => {
+  const purchaseOrder = await prisma.purchaseOrder.findFirst({
+    where: { id: purchaseOrderId, supplierId: id },
+    include: purchaseOrderInclude
+  })
+
+  if (!purchaseOrder) {
+    return apiErrorResponse('PURCHASE_ORDER_NOT_FOUND', undefined, locale)
+  }
+
+  return successResponse(formatPurchaseOrder(purchaseOrder))
+})
+
+// DELETE /api/mobile/suppliers/[id]/purchase-orders/[purchaseOrderId] - Annuler un bon de commande
+// 🔑 Permission : purchaseOrders.manage
+export const DELETE = createHandler({
+  auth: 'bearer',
+  permission: 'purchaseOrders.manage',
+}, async ({ params: { id, purchaseOrderId }, locale }) => {
+  const purchaseOrder = await prisma.purchaseOrder.findFirst({
+    where: { id: purchaseOrderId, supplierId: id }
+  })
+
+  if (!purchaseOrder) {
+    return apiErrorResponse('PURCHASE_ORDER_NOT_FOUND', undefined, locale)
+  }
+
+  // Only purchase orders with nothing received yet can be cancelled
+  if (purchaseOrder.status !== 'ORDERED') {
+    return apiErrorResponse('PURCHASE_ORDER_NOT_CANCELLABLE', undefined, locale)
+  }
+
+  const cancelled = await prisma.purchaseOrder.update({
+    where: { id: purchaseOrderId },
+    data: { status: 'CANCELLED' },
+    include: purchaseOrderInclude
+  })
+
+  return successResponse(formatPurchaseOrder(cancelled))
+})
@@ -0,0 +1,135 @@
+import { z } from "zod"
+import { prisma } from "@/lib/prisma"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, errorResponse, successResponse } from "@/lib/apiResponse"
+import { getPaginationParams, calculatePagination, getSkipTake } from "@/lib/pagination"
+import { buildDateFilter } from "@/lib/filters"
+import {
+  PURCHASE_ORDER_STATUSES,
+  purchaseOrderInclude,
+  formatPurchaseOrder
+} from "@/lib/purchaseOrders"
+
+// Validation schema for purchase order line
+const purchaseOrderLineSchema = z.object({
+  productId: z.string().min(1, "L'ID du produit est requis"),
+  quantityOrdered: z.number().positive("La quantité commandée doit être positive"),
+  unitPrice: z.number().min(0, "Le prix ne peut pas être négatif"),
+})
+
+// Validation schema for purchase order creation
+const purchaseOrderSchema = z.object({
+  lines: z.array(purchaseOrderLineSchema).min(1, "Au moins une ligne est requise"),
+  expectedDate: z.string().datetime({ offset: true }).optional(),
+  notes: z.string().optional(),
+})
+
+// GET /api/mobile/suppliers/[id]/purchase-orders - Bons de commande d'un fournisseur
+// 🔑 Permission : suppliers.view
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'suppliers.view',
+}, async ({ request, params: { id }, locale }) => {
+  const { searchParams } = new URL(request.url)
+
+  const supplier = await prisma.supplier.findUnique({
+    where: { id },
+    select: { id: true }
+  })
+
+  if (!supplier) {
+    return apiErrorResponse('SUPPLIER_NOT_FOUND', undefined, locale)
+  }
+
+  // Pagination
+  const { page, limit } = getPaginationParams(searchParams)
+  const { skip, take } = getSkipTake(page, limit)
+
+  // Filtres
+  const where: {
+    supplierId: string;
+    status?: string;
+    orderDate?: { gte?: Date; lte?: Date };
+  } = { supplierId: id }
+
+  const status = searchParams.get('status')
+  if (status) {
+    if (!(PURCHASE_ORDER_STATUSES as readonly string[]).includes(status)) {
+      return errorResponse(`Statut invalide. Valeurs possibles : ${PURCHASE_ORDER_STATUSES.join(', ')}`, 400, 'VALIDATION_ERROR', { field: 'status' })
+    }
+    where.status = status
+  }
+
+  const dateFilter = buildDateFilter(searchParams)
+  if (dateFilter) {
+    where.orderDate = dateFilter
+  }
+
+  const [purchaseOrders, total] = await prisma.$transaction([
+    prisma.purchaseOrder.findMany({
+      where,
+      include: purchaseOrderInclude,
+      orderBy: { orderDate: 'desc' },
+      skip,
+      take
+    }),
+    prisma.purchaseOrder.count({ where })
+  ])
+
+  const data = purchaseOrders.map(formatPurchaseOrder)
+  const meta = calculatePagination(total, page, limit)
+
+  return Response.json(
+    { success: true, data, meta },
+    { status: 200 }
+  )
+})
+
+// POST /api/mobile/suppliers/[id]/purchase-orders - Créer un bon de commande fournisseur
+// 🔑 Permission : purchaseOrders.manage
+export const POST = createHandler({
+  auth: 'bearer',
+  permission: 'purchaseOrders.manage',
+  body: purchaseOrderSchema,
+}, async ({ user, params: { id }, body: validatedData, locale }) => {
+  const supplier = await prisma.supplier.findUnique({
+    where: { id },
+    select: { id: true }
+  })
+
+  if (!supplier) {
+    return apiErrorResponse('SUPPLIER_NOT_FOUND', undefined, locale)
+  }
+
+  // Verify all products exist
+  const productIds = validatedData.lines.map(line => line.productId)
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds } },
+    select: { id: true }
+  })
+
+  for (const line of validatedData.lines) {
+    if (!products.some(p => p.id === line.productId)) {
+      return apiErrorResponse('PRODUCT_NOT_FOUND', { productId: line.productId }, locale)
+    }
+  }
+
+  const purchaseOrder = await prisma.purchaseOrder.create({
+    data: {
+      supplierId: id,
+      userId: user.userId,
+      expectedDate: validatedData.expectedDate ? new Date(validatedData.expectedDate) : null,
+      notes: validatedData.notes || null,
+      lines: {
+        create: validatedData.lines.map(line => ({
+          productId: line.productId,
+          quantityOrdered: line.quantityOrdered,
+          unitPrice: Math.round(line.unitPrice * 100) / 100
+        }))
+      }
+    },
+    include: purchaseOrderInclude
+  })
+
+  return successResponse(formatPurchaseOrder(purchaseOrder), 201)
+})
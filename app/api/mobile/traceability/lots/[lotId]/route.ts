@@ -0,0 +1,24 @@
+import { apiErrorResponse, csvResponse, successResponse } from "@/lib/apiResponse"
+import { createHandler } from "@/lib/apiHandler"
+import { getLotTraceability, lotTraceabilityToCsv } from "@/lib/traceability"
+
+// GET /api/mobile/traceability/lots/[lotId] - Commandes et clients servis depuis un lot (?format=csv)
+// 🔑 Permission : orders.view
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'orders.view',
+}, async ({ request, params: { lotId }, locale }) => {
+  const { searchParams } = new URL(request.url)
+
+  const report = await getLotTraceability(lotId)
+
+  if (!report) {
+    return apiErrorResponse('LOT_NOT_FOUND', undefined, locale)
+  }
+
+  if (searchParams.get('format') === 'csv') {
+    return csvResponse(lotTraceabilityToCsv(report), `tracabilite-lot-${report.lot.lotNumber}.csv`)
+  }
+
+  return successResponse(report)
+})
@@ -0,0 +1,24 @@
+import { apiErrorResponse, csvResponse, successResponse } from "@/lib/apiResponse"
+import { createHandler } from "@/lib/apiHandler"
+import { getOrderTraceability, orderTraceabilityToCsv } from "@/lib/traceability"
+
+// GET /api/mobile/traceability/orders/[id] - Lots et fournisseurs de chaque article d'une commande (?format=csv)
+// 🔑 Permission : orders.view
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'orders.view',
+}, async ({ request, params: { id }, locale }) => {
+  const { searchParams } = new URL(request.url)
+
+  const report = await getOrderTraceability(id)
+
+  if (!report) {
+    return apiErrorResponse('ORDER_NOT_FOUND', undefined, locale)
+  }
+
+  if (searchParams.get('format') === 'csv') {
+    return csvResponse(orderTraceabilityToCsv(report), `tracabilite-commande-${id}.csv`)
+  }
+
+  return successResponse(report)
+})
@@ -0,0 +1,25 @@
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { resetUserPassword } from "@/lib/users"
+
+// Validation schema for password reset
+const resetPasswordSchema = z.object({
+  password: z.string().min(6, "Le mot de passe doit contenir au moins 6 caractères"),
+})
+
+// POST /api/mobile/users/[id]/reset-password - Définir un nouveau mot de passe (les sessions mobiles sont fermées)
+// 🔑 Permission : users.manage
+export const POST = createHandler({
+  auth: 'bearer',
+  permission: 'users.manage',
+  body: resetPasswordSchema,
+}, async ({ user, params: { id }, body: { password }, locale }) => {
+  const result = await resetUserPassword(id, password, user)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse(result.data)
+})
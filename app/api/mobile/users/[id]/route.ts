@@ -0,0 +1,58 @@
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { deactivateUser, getUser, updateUser } from "@/lib/users"
+
+// Validation schema for user update
+const userUpdateSchema = z.object({
+  email: z.string().email("Email invalide").optional(),
+  name: z.string().min(1, "Le nom est requis").optional(),
+  role: z.string().min(1, "Le rôle est requis").optional(),
+  active: z.boolean().optional(),
+})
+
+// GET /api/mobile/users/[id] - Détail d'un utilisateur
+// 🔑 Permission : users.manage
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'users.manage',
+}, async ({ params: { id }, locale }) => {
+  const user = await getUser(id)
+
+  if (!user) {
+    return apiErrorResponse('USER_NOT_FOUND', undefined, locale)
+  }
+
+  return successResponse(user)
+})
+
+// PUT /api/mobile/users/[id] - Modifier un utilisateur (nom, email, rôle, activation)
+// 🔑 Permission : users.manage
+export const PUT = createHandler({
+  auth: 'bearer',
+  permission: 'users.manage',
+  body: userUpdateSchema,
+}, async ({ user: authUser, params: { id }, body: validatedData, locale }) => {
+  const result = await updateUser(id, validatedData, authUser)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse(result.data)
+})
+
+// DELETE /api/mobile/users/[id] - Désactiver un utilisateur (le compte est conservé pour l'historique)
+// 🔑 Permission : users.manage
+export const DELETE = createHandler({
+  auth: 'bearer',
+  permission: 'users.manage',
+}, async ({ user: authUser, params: { id }, locale }) => {
+  const result = await deactivateUser(id, authUser)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse(result.data)
+})
@@ -0,0 +1,42 @@
+import { prisma } from "@/lib/prisma"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { listUserSessions, revokeUserSessions } from "@/lib/sessions"
+
+// GET /api/mobile/users/[id]/sessions - Appareils connectés d'un utilisateur
+// 🔑 Permission : users.manage
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'users.manage',
+}, async ({ params: { id }, locale }) => {
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { id: true }
+  })
+
+  if (!user) {
+    return apiErrorResponse('USER_NOT_FOUND', undefined, locale)
+  }
+
+  return successResponse(await listUserSessions(id))
+})
+
+// DELETE /api/mobile/users/[id]/sessions - Déconnecter tous les appareils d'un utilisateur (départ d'un employé)
+// 🔑 Permission : users.manage
+export const DELETE = createHandler({
+  auth: 'bearer',
+  permission: 'users.manage',
+}, async ({ params: { id }, locale }) => {
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { id: true }
+  })
+
+  if (!user) {
+    return apiErrorResponse('USER_NOT_FOUND', undefined, locale)
+  }
+
+  const revoked = await revokeUserSessions(id)
+
+  return successResponse({ userId: id, revoked })
+})
@@ -0,0 +1,24 @@
+import { prisma } from "@/lib/prisma"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { unlockAccount } from "@/lib/loginThrottle"
+
+// POST /api/mobile/users/[id]/unlock - Déverrouiller un compte bloqué après trop d'échecs de connexion
+// 🔑 Permission : users.manage
+export const POST = createHandler({
+  auth: 'bearer',
+  permission: 'users.manage',
+}, async ({ user: authUser, params: { id }, locale }) => {
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { id: true, email: true }
+  })
+
+  if (!user) {
+    return apiErrorResponse('USER_NOT_FOUND', undefined, locale)
+  }
+
+  const wasLocked = await unlockAccount(user, authUser.userId)
+
+  return successResponse({ userId: user.id, wasLocked })
+})
@@ -0,0 +1,54 @@
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, successResponse } from "@/lib/apiResponse"
+import { getPaginationParams, calculatePagination, getSkipTake } from "@/lib/pagination"
+import { createUser, listUsers } from "@/lib/users"
+
+// Validation schema for user creation
+const userSchema = z.object({
+  email: z.string().email("Email invalide"),
+  name: z.string().min(1, "Le nom est requis"),
+  password: z.string().min(6, "Le mot de passe doit contenir au moins 6 caractères"),
+  role: z.string().min(1, "Le rôle est requis").default('EMPLOYEE'),
+})
+
+// GET /api/mobile/users - Liste des utilisateurs (filtres : search, role, active)
+// 🔑 Permission : users.manage
+export const GET = createHandler({
+  auth: 'bearer',
+  permission: 'users.manage',
+}, async ({ request }) => {
+  const { searchParams } = new URL(request.url)
+
+  // Pagination
+  const { page, limit } = getPaginationParams(searchParams)
+  const { skip, take } = getSkipTake(page, limit)
+
+  const active = searchParams.get('active')
+
+  const { users, total } = await listUsers({
+    search: searchParams.get('search'),
+    role: searchParams.get('role'),
+    active: active === null ? undefined : active === 'true'
+  }, skip, take)
+
+  const meta = calculatePagination(total, page, limit)
+
+  return Response.json({ success: true, data: users, meta }, { status: 200 })
+})
+
+// POST /api/mobile/users - Créer un utilisateur
+// 🔑 Permission : users.manage
+export const POST = createHandler({
+  auth: 'bearer',
+  permission: 'users.manage',
+  body: userSchema,
+}, async ({ user, body: validatedData, locale }) => {
+  const result = await createUser(validatedData, user)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return successResponse(result.data, 201)
+})
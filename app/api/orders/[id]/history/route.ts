@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse } from "@/lib/apiResponse"
+import { prisma } from "@/lib/prisma"
+import { getOrderTimeline } from "@/lib/orderHistory"
+
+export const GET = createHandler({
+  auth: 'session',
+  permission: 'orders.view',
+}, async ({ params: { id }, locale }) => {
+  const order = await prisma.order.findUnique({
+    where: { id },
+    select: { id: true }
+  })
+
+  if (!order) {
+    return apiErrorResponse('ORDER_NOT_FOUND', undefined, locale)
+  }
+
+  const history = await getOrderTimeline(id)
+
+  return NextResponse.json(history)
+})
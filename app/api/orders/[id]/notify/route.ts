@@ -1,78 +1,64 @@
-import { NextRequest, NextResponse } from "next/server"
-import { getServerSession } from "next-auth"
-import { authOptions } from "@/lib/auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse } from "@/lib/apiResponse"
 import { prisma } from "@/lib/prisma"
-import { envoyerSmsCommande, genererMessageCommandePrete } from "@/lib/sms"
+import { enqueueOrderNotification, deliverSmsOutboxMessage } from "@/lib/smsOutbox"
+import { SMS_EVENTS } from "@/lib/smsTemplates"
 
-export async function POST(
-  req: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
+// Event to notify (defaults to "order ready"); the body is optional
+const notifySchema = z.object({
+  event: z.enum(SMS_EVENTS, { message: "Invalid SMS event" }).default('ORDER_READY'),
+})
 
-    const { id } = await params
-    
-    // Get the order with customer and items
-    const order = await prisma.order.findUnique({
-      where: { id },
-      include: {
-        customer: true,
-        orderItems: {
-          include: {
-            product: true,
-          }
+export const POST = createHandler({
+  auth: 'session',
+  permission: 'orders.update',
+  body: notifySchema,
+}, async ({ params: { id }, body: { event }, locale }) => {
+  // Get the order with customer and items
+  const order = await prisma.order.findUnique({
+    where: { id },
+    include: {
+      customer: true,
+      orderItems: {
+        include: {
+          product: true,
         }
       }
-    })
-
-    if (!order) {
-      return NextResponse.json({ error: "Order not found" }, { status: 404 })
     }
+  })
 
-    const customerPhone = order.customer.phone
-    
-    if (!customerPhone) {
-      return NextResponse.json(
-        { error: "Customer has no phone number" },
-        { status: 400 }
-      )
-    }
+  if (!order) {
+    return apiErrorResponse('ORDER_NOT_FOUND', undefined, locale)
+  }
 
-    // Generate message with order details
-    const orderItemsForMessage = order.orderItems.map(item => ({
-      productName: item.product.name,
-      quantity: item.quantity,
-      unit: item.product.unit,
-    }))
-    
-    const message = genererMessageCommandePrete(
-      order.customer.name,
-      orderItemsForMessage
-    )
+  if (!order.customer.phone && !order.customer.email) {
+    return apiErrorResponse('CUSTOMER_UNREACHABLE', undefined, locale)
+  }
 
-    // Send SMS
-    const result = await envoyerSmsCommande(customerPhone, message, order.id)
+  // Queue the notification (manual: even if the template is inactive), then send it right away
+  const { queued, reason } = await prisma.$transaction(tx => enqueueOrderNotification(tx, event, order, true))
 
-    if (result.success) {
-      return NextResponse.json({ 
-        message: "SMS notification sent successfully",
-        phone: customerPhone 
-      })
-    } else {
-      return NextResponse.json(
-        { error: result.error || "Failed to send SMS" },
-        { status: 500 }
-      )
-    }
-  } catch (error) {
-    console.error("Error sending notification:", error)
-    return NextResponse.json(
-      { error: "Failed to send notification" },
-      { status: 500 }
-    )
+  // Client désinscrit (STOP) ou notification désactivée pour cet événement
+  if (!queued) {
+    return apiErrorResponse('NOTIFICATION_NOT_SENT', { reason }, locale)
+  }
+
+  const sent = await deliverSmsOutboxMessage(queued.id)
+  const label = queued.channel === 'EMAIL' ? 'Email' : 'SMS'
+
+  if (sent?.status === 'SENT') {
+    return NextResponse.json({ 
+      message: `${label} notification sent successfully`,
+      channel: queued.channel,
+      phone: queued.telephone,
+      email: queued.email
+    })
+  } else {
+    return apiErrorResponse('NOTIFICATION_FAILED', {
+      channel: queued.channel,
+      reason: sent?.lastError || `Failed to send ${label}`
+    }, locale)
   }
-}
+})
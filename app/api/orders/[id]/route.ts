@@ -1,76 +1,128 @@
-import { NextRequest, NextResponse } from "next/server"
-import { getServerSession } from "next-auth"
-import { authOptions } from "@/lib/auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse } from "@/lib/apiResponse"
+import { apiError } from "@/lib/errorCodes"
+import { requirePermission } from "@/lib/middleware/checkPermission"
 import { prisma } from "@/lib/prisma"
-import { envoyerSmsCommande, genererMessageCommandePrete } from "@/lib/sms"
-
-export async function GET(
-  req: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+import { enqueueOrderNotification, flushSmsOutbox } from "@/lib/smsOutbox"
+import { SMS_EVENT_BY_STATUS } from "@/lib/smsTemplates"
+import { getOrderSmsLogs } from "@/lib/smsDelivery"
+import {
+  OPEN_ORDER_STATUSES,
+  normalizeOrderStatus,
+  canTransition,
+  invalidTransitionError
+} from "@/lib/orderStatus"
+import { claimOrderStatus, recordStatusEvent } from "@/lib/orderHistory"
+import { applyStockMovement } from "@/lib/stock"
+import { releaseLots } from "@/lib/lots"
+
+const orderUpdateSchema = z.object({
+  status: z.string().optional(),
+  notes: z.string().optional().nullable(),
+  // Commentaire enregistré dans l'historique avec le changement de statut
+  note: z.string().optional(),
+})
+
+export const GET = createHandler({
+  auth: 'session',
+  permission: 'orders.view',
+}, async ({ params: { id }, locale }) => {
+  const order = await prisma.order.findUnique({
+    where: { id },
+    include: {
+      customer: true,
+      orderItems: {
+        include: {
+          product: true,
+        }
+      }
     }
+  })
 
-    const { id } = await params
-    const order = await prisma.order.findUnique({
-      where: { id },
-      include: {
-        customer: true,
-        orderItems: {
-          include: {
-            product: true,
-          }
+  if (!order) {
+    return apiErrorResponse('ORDER_NOT_FOUND', undefined, locale)
+  }
+
+  return NextResponse.json({
+    ...order,
+    sms: await getOrderSmsLogs(order.id)
+  })
+})
+
+export const PUT = createHandler({
+  auth: 'session',
+  permission: 'orders.update',
+  body: orderUpdateSchema,
+}, async ({ user, params: { id }, body, locale }) => {
+  const { notes, note } = body
+
+  const status = body.status ? normalizeOrderStatus(body.status) : undefined
+  if (status === null) {
+    return apiErrorResponse('INVALID_STATUS', { status: body.status ?? null }, locale)
+  }
+
+  // Get the order before updating to check if status is changing
+  const existingOrder = await prisma.order.findUnique({
+    where: { id },
+    include: {
+      customer: true,
+      orderItems: {
+        include: {
+          product: true,
         }
       }
-    })
-
-    if (!order) {
-      return NextResponse.json({ error: "Order not found" }, { status: 404 })
     }
+  })
 
-    return NextResponse.json(order)
-  } catch (error) {
-    console.error("Error fetching order:", error)
-    return NextResponse.json({ error: "Failed to fetch order" }, { status: 500 })
+  if (!existingOrder) {
+    return apiErrorResponse('ORDER_NOT_FOUND', undefined, locale)
   }
-}
-
-export async function PUT(
-  req: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
 
-    const { id } = await params
-    const body = await req.json()
-    const { status, notes } = body
+  if (status === 'CANCELLED' && existingOrder.status !== 'CANCELLED') {
+    requirePermission(user, 'orders.cancel')
+  }
 
-    // Get the order before updating to check if status is changing
-    const existingOrder = await prisma.order.findUnique({
-      where: { id },
-      include: {
-        customer: true,
-        orderItems: {
-          include: {
-            product: true,
-          }
-        }
+  // Reject transitions not allowed by the order lifecycle
+  if (status && !canTransition(existingOrder.status, status)) {
+    const { code, details } = invalidTransitionError(existingOrder.status, status)
+    return apiErrorResponse(code, details, locale)
+  }
+
+  // Update the order and record the transition atomically
+  const order = await prisma.$transaction(async (tx) => {
+    if (status && status !== existingOrder.status) {
+      await claimOrderStatus(tx, id, existingOrder.status, status)
+    }
+
+    // Restore stock if cancelling
+    if (status === 'CANCELLED' && existingOrder.status !== 'CANCELLED') {
+      for (const item of existingOrder.orderItems) {
+        await applyStockMovement(tx, {
+          productId: item.productId,
+          type: 'CANCEL_RESTORE',
+          quantity: item.quantity,
+          orderId: id,
+          userId: user.userId
+        })
       }
-    })
 
-    if (!existingOrder) {
-      return NextResponse.json({ error: "Order not found" }, { status: 404 })
+      // Give the quantities back to their lots
+      await releaseLots(tx, id)
     }
 
-    // Update the order
-    const order = await prisma.order.update({
+    if (status && status !== existingOrder.status) {
+      await recordStatusEvent(tx, {
+        orderId: id,
+        userId: user.userId,
+        fromStatus: existingOrder.status,
+        toStatus: status,
+        note
+      })
+    }
+
+    const updatedOrder = await tx.order.update({
       where: { id },
       data: {
         status,
@@ -86,80 +138,63 @@ export async function PUT(
       }
     })
 
-    // Send SMS if status changed to READY
-    if (status === 'READY' && existingOrder.status !== 'READY') {
-      const customerPhone = order.customer.phone
-      
-      if (customerPhone) {
-        // Generate message with order details
-        const orderItemsForMessage = order.orderItems.map(item => ({
-          productName: item.product.name,
-          quantity: item.quantity,
-          unit: item.product.unit,
-        }))
-        
-        const message = genererMessageCommandePrete(
-          order.customer.name,
-          orderItemsForMessage
-        )
-
-        // Send SMS asynchronously (don't block the response)
-        // Errors are logged to the database via the SMS service
-        envoyerSmsCommande(customerPhone, message, order.id).catch(error => {
-          console.error("Failed to send SMS notification:", error)
-        })
-      } else {
-        console.warn(`Order ${id} marked as READY but customer has no phone number`)
-      }
+    // Queue the SMS of the new status (if its template is active) with the status change
+    if (status && status !== existingOrder.status && SMS_EVENT_BY_STATUS[status]) {
+      await enqueueOrderNotification(tx, SMS_EVENT_BY_STATUS[status], updatedOrder)
     }
 
-    return NextResponse.json(order)
-  } catch (error) {
-    console.error("Error updating order:", error)
-    return NextResponse.json({ error: "Failed to update order" }, { status: 500 })
-  }
-}
-
-export async function DELETE(
-  req: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    return updatedOrder
+  })
+
+  // Send queued SMS without blocking the response (the cron worker retries failures)
+  flushSmsOutbox()
+
+  return NextResponse.json(order)
+})
+
+export const DELETE = createHandler({
+  auth: 'session',
+  permission: 'orders.delete',
+}, async ({ user, params: { id }, locale }) => {
+  // Restore stock before deleting
+  const order = await prisma.order.findUnique({
+    where: { id },
+    include: {
+      orderItems: true
     }
+  })
 
-    const { id } = await params
-    
-    // Restore stock before deleting
-    const order = await prisma.order.findUnique({
-      where: { id },
-      include: {
-        orderItems: true
-      }
-    })
+  if (!order) {
+    return apiErrorResponse('ORDER_NOT_FOUND', undefined, locale)
+  }
+
+  await prisma.$transaction(async (tx) => {
+    if ((OPEN_ORDER_STATUSES as string[]).includes(order.status)) {
+      // La commande passe d'abord à CANCELLED : une suppression ou annulation concurrente ne restaure pas une seconde fois
+      await claimOrderStatus(tx, id, order.status, 'CANCELLED')
 
-    if (order && order.status === 'PENDING') {
       for (const item of order.orderItems) {
-        await prisma.product.update({
-          where: { id: item.productId },
-          data: {
-            stock: {
-              increment: item.quantity
-            }
-          }
+        await applyStockMovement(tx, {
+          productId: item.productId,
+          type: 'CANCEL_RESTORE',
+          quantity: item.quantity,
+          orderId: id,
+          userId: user.userId,
+          note: 'Suppression de la commande'
         })
       }
+
+      // Give the quantities back to their lots
+      await releaseLots(tx, id)
     }
 
-    await prisma.order.delete({
+    const { count } = await tx.order.deleteMany({
       where: { id }
     })
+    if (count === 0) {
+      throw apiError('ORDER_NOT_FOUND')
+    }
+  })
 
-    return NextResponse.json({ message: "Order deleted successfully" })
-  } catch (error) {
-    console.error("Error deleting order:", error)
-    return NextResponse.json({ error: "Failed to delete order" }, { status: 500 })
-  }
-}
+  return NextResponse.json({ message: "Order deleted successfully" })
+})
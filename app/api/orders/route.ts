@@ -1,77 +1,91 @@
-import { NextRequest, NextResponse } from "next/server"
-import { getServerSession } from "next-auth"
-import { authOptions } from "@/lib/auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse } from "@/lib/apiResponse"
 import { prisma } from "@/lib/prisma"
+import { isInitialOrderStatus, normalizeOrderStatus } from "@/lib/orderStatus"
+import { applyStockMovement } from "@/lib/stock"
+import { allocateLots } from "@/lib/lots"
+import { enqueueOrderNotification, flushSmsOutbox } from "@/lib/smsOutbox"
 
-export async function GET() {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
+const orderSchema = z.object({
+  customerId: z.string({ message: "Missing required fields" }).min(1, "Missing required fields"),
+  items: z.array(z.object({
+    productId: z.string({ message: "Invalid order item" }),
+    quantity: z.number({ message: "Invalid order item" }).positive("Invalid order item"),
+    price: z.number({ message: "Invalid order item" }).nonnegative("Invalid order item"),
+  }), { message: "Missing required fields" }).min(1, "Missing required fields"),
+  notes: z.string().optional().nullable(),
+  status: z.string().optional(),
+})
 
-    const orders = await prisma.order.findMany({
-      include: {
-        customer: true,
-        orderItems: {
-          include: {
-            product: true,
-          }
+export const GET = createHandler({
+  auth: 'session',
+  permission: 'orders.view',
+}, async () => {
+  const orders = await prisma.order.findMany({
+    include: {
+      customer: true,
+      orderItems: {
+        include: {
+          product: true,
         }
-      },
-      orderBy: {
-        orderDate: 'desc'
       }
-    })
-
-    return NextResponse.json(orders)
-  } catch (error) {
-    console.error("Error fetching orders:", error)
-    return NextResponse.json({ error: "Failed to fetch orders" }, { status: 500 })
-  }
-}
-
-export async function POST(req: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    },
+    orderBy: {
+      orderDate: 'desc'
     }
+  })
 
-    const body = await req.json()
-    const { customerId, items, notes, status } = body
+  return NextResponse.json(orders)
+})
 
-    if (!customerId || !items || items.length === 0) {
-      return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
-    }
+export const POST = createHandler({
+  auth: 'session',
+  permission: 'orders.create',
+  body: orderSchema,
+}, async ({ user, body: { customerId, items, notes, status }, locale }) => {
+  const initialStatus = status ? normalizeOrderStatus(status) : 'PENDING'
+  if (!initialStatus || !isInitialOrderStatus(initialStatus)) {
+    return apiErrorResponse('INVALID_STATUS', { status: status ?? null }, locale)
+  }
 
-    // Calculate total and validate stock
-    let total = 0
-    for (const item of items) {
-      const product = await prisma.product.findUnique({
-        where: { id: item.productId }
-      })
-      
-      if (!product) {
-        return NextResponse.json({ error: `Product ${item.productId} not found` }, { status: 404 })
-      }
-      
-      if (product.stock < item.quantity) {
-        return NextResponse.json({ error: `Insufficient stock for ${product.name}` }, { status: 400 })
-      }
-      
-      total += product.price * item.quantity
+  // Calculate total and validate stock
+  let total = 0
+  for (const item of items) {
+    const product = await prisma.product.findUnique({
+      where: { id: item.productId }
+    })
+    
+    if (!product) {
+      return apiErrorResponse('PRODUCT_NOT_FOUND', { productId: item.productId }, locale)
     }
+    
+    if (product.stock < item.quantity) {
+      return apiErrorResponse('INSUFFICIENT_STOCK', {
+        productId: product.id,
+        productName: product.name,
+        available: product.stock,
+        requested: item.quantity
+      }, locale)
+    }
+    
+    total += product.price * item.quantity
+  }
 
-    // Create order with items and update stock
-    const order = await prisma.order.create({
+  // Create order with items and update stock atomically
+  const order = await prisma.$transaction(async (tx) => {
+    const newOrder = await tx.order.create({
       data: {
         customerId,
         total,
         notes,
-        status: status || 'PENDING',
+        status: initialStatus,
+        statusEvents: {
+          create: { userId: user.userId, toStatus: initialStatus }
+        },
         orderItems: {
-          create: items.map((item: { productId: string; quantity: number; price: number }) => ({
+          create: items.map(item => ({
             productId: item.productId,
             quantity: item.quantity,
             price: item.price,
@@ -88,21 +102,30 @@ export async function POST(req: NextRequest) {
       }
     })
 
-    // Update product stock
-    for (const item of items) {
-      await prisma.product.update({
-        where: { id: item.productId },
-        data: {
-          stock: {
-            decrement: item.quantity
-          }
-        }
+    // Update product stock through the ledger and take quantities from lots (FEFO)
+    for (const item of newOrder.orderItems) {
+      await applyStockMovement(tx, {
+        productId: item.productId,
+        type: 'SALE',
+        quantity: -item.quantity,
+        orderId: newOrder.id,
+        userId: user.userId
+      })
+      await allocateLots(tx, {
+        orderItemId: item.id,
+        productId: item.productId,
+        quantity: item.quantity
       })
     }
 
-    return NextResponse.json(order, { status: 201 })
-  } catch (error) {
-    console.error("Error creating order:", error)
-    return NextResponse.json({ error: "Failed to create order" }, { status: 500 })
-  }
-}
+    // Confirmation SMS, only queued when the ORDER_CONFIRMED template is active
+    await enqueueOrderNotification(tx, 'ORDER_CONFIRMED', newOrder)
+
+    return newOrder
+  })
+
+  // Send queued SMS without blocking the response (the cron worker retries failures)
+  flushSmsOutbox()
+
+  return NextResponse.json(order, { status: 201 })
+})
@@ -1,92 +1,105 @@
-import { NextRequest, NextResponse } from "next/server"
-import { getServerSession } from "next-auth"
-import { authOptions } from "@/lib/auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse } from "@/lib/apiResponse"
+import { requirePermission } from "@/lib/middleware/checkPermission"
 import { prisma } from "@/lib/prisma"
+import { applyStockMovement } from "@/lib/stock"
+import { consumeLots } from "@/lib/lots"
 
-export async function GET(
-  req: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+// Le formulaire envoie les nombres sous forme de chaînes ; supplierId vide retire le fournisseur
+const productUpdateSchema = z.object({
+  name: z.string().optional(),
+  description: z.string().optional().nullable(),
+  price: z.coerce.number({ message: "Invalid price" }).optional(),
+  stock: z.coerce.number({ message: "Invalid stock" }).optional(),
+  unit: z.string().optional(),
+  stockAlert: z.coerce.number({ message: "Invalid stock alert" }).optional(),
+  supplierId: z.string().optional().nullable(),
+})
+
+export const GET = createHandler({
+  auth: 'session',
+  permission: 'products.view',
+}, async ({ params: { id }, locale }) => {
+  const product = await prisma.product.findUnique({
+    where: { id },
+    include: {
+      supplier: true,
     }
+  })
 
-    const { id } = await params
-    const product = await prisma.product.findUnique({
-      where: { id },
-      include: {
-        supplier: true,
-      }
-    })
+  if (!product) {
+    return apiErrorResponse('PRODUCT_NOT_FOUND', undefined, locale)
+  }
 
-    if (!product) {
-      return NextResponse.json({ error: "Product not found" }, { status: 404 })
-    }
+  return NextResponse.json(product)
+})
 
-    return NextResponse.json(product)
-  } catch (error) {
-    console.error("Error fetching product:", error)
-    return NextResponse.json({ error: "Failed to fetch product" }, { status: 500 })
+export const PUT = createHandler({
+  auth: 'session',
+  permission: 'products.edit',
+  body: productUpdateSchema,
+}, async ({ user, params: { id }, body: { name, description, price, stock, unit, stockAlert, supplierId }, locale }) => {
+  const existingProduct = await prisma.product.findUnique({
+    where: { id }
+  })
+
+  if (!existingProduct) {
+    return apiErrorResponse('PRODUCT_NOT_FOUND', undefined, locale)
   }
-}
 
-export async function PUT(
-  req: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
+  // The form always sends price and stock: only actual changes need the dedicated permissions
+  if (price !== undefined && price !== existingProduct.price) {
+    requirePermission(user, 'products.price.edit')
+  }
+  if (stock !== undefined && stock !== existingProduct.stock) {
+    requirePermission(user, 'stock.adjust')
+  }
+
+  // Manual stock changes are recorded as ledger adjustments
+  const product = await prisma.$transaction(async (tx) => {
+    if (stock !== undefined && stock !== existingProduct.stock) {
+      await applyStockMovement(tx, {
+        productId: id,
+        type: 'ADJUSTMENT',
+        quantity: stock - existingProduct.stock,
+        userId: user.userId,
+        note: 'Modification manuelle du stock'
+      })
 
-    const { id } = await params
-    const body = await req.json()
-    const { name, description, price, stock, unit, stockAlert, supplierId } = body
+      // Stock removed by hand is taken out of the lots too, so FEFO does not allocate it again
+      if (stock < existingProduct.stock) {
+        await consumeLots(tx, id, existingProduct.stock - stock)
+      }
+    }
 
-    const product = await prisma.product.update({
+    return tx.product.update({
       where: { id },
       data: {
         name,
         description,
-        price: price !== undefined ? parseFloat(price) : undefined,
-        stock: stock !== undefined ? parseFloat(stock) : undefined,
+        price,
         unit,
-        stockAlert: stockAlert !== undefined ? parseFloat(stockAlert) : undefined,
+        stockAlert,
         supplierId: supplierId === '' ? null : supplierId,
       },
       include: {
         supplier: true,
       }
     })
+  })
 
-    return NextResponse.json(product)
-  } catch (error) {
-    console.error("Error updating product:", error)
-    return NextResponse.json({ error: "Failed to update product" }, { status: 500 })
-  }
-}
+  return NextResponse.json(product)
+})
 
-export async function DELETE(
-  req: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
+export const DELETE = createHandler({
+  auth: 'session',
+  permission: 'products.delete',
+}, async ({ params: { id } }) => {
+  await prisma.product.delete({
+    where: { id }
+  })
 
-    const { id } = await params
-    await prisma.product.delete({
-      where: { id }
-    })
-
-    return NextResponse.json({ message: "Product deleted successfully" })
-  } catch (error) {
-    console.error("Error deleting product:", error)
-    return NextResponse.json({ error: "Failed to delete product" }, { status: 500 })
-  }
-}
+  return NextResponse.json({ message: "Product deleted successfully" })
+})
@@ -1,63 +1,62 @@
-import { NextRequest, NextResponse } from "next/server"
-import { getServerSession } from "next-auth"
-import { authOptions } from "@/lib/auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
 import { prisma } from "@/lib/prisma"
 
-export async function GET() {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+// Le formulaire envoie les nombres sous forme de chaînes
+const productSchema = z.object({
+  name: z.string({ message: "Missing required fields" }).min(1, "Missing required fields"),
+  description: z.string().optional().nullable(),
+  price: z.coerce.number({ message: "Missing required fields" }),
+  stock: z.coerce.number({ message: "Missing required fields" }),
+  unit: z.string().optional(),
+  stockAlert: z.coerce.number({ message: "Invalid stock alert" }).optional(),
+  supplierId: z.string().optional().nullable(),
+})
+
+export const GET = createHandler({
+  auth: 'session',
+  permission: 'products.view',
+}, async () => {
+  const products = await prisma.product.findMany({
+    include: {
+      supplier: true,
+    },
+    orderBy: {
+      name: 'asc'
     }
-
-    const products = await prisma.product.findMany({
-      include: {
-        supplier: true,
-      },
-      orderBy: {
-        name: 'asc'
+  })
+
+  return NextResponse.json(products)
+})
+
+export const POST = createHandler({
+  auth: 'session',
+  permission: 'products.edit',
+  body: productSchema,
+}, async ({ user, body: { name, description, price, stock, unit, stockAlert, supplierId } }) => {
+  const product = await prisma.product.create({
+    data: {
+      name,
+      description,
+      price,
+      stock,
+      unit: unit || "kg",
+      stockAlert: stockAlert || 5,
+      supplierId: supplierId || null,
+      stockMovements: {
+        create: {
+          type: 'ADJUSTMENT',
+          quantity: stock,
+          userId: user.userId,
+          note: 'Stock initial'
+        }
       }
-    })
-
-    return NextResponse.json(products)
-  } catch (error) {
-    console.error("Error fetching products:", error)
-    return NextResponse.json({ error: "Failed to fetch products" }, { status: 500 })
-  }
-}
-
-export async function POST(req: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
-
-    const body = await req.json()
-    const { name, description, price, stock, unit, stockAlert, supplierId } = body
-
-    if (!name || price === undefined || stock === undefined) {
-      return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
+    },
+    include: {
+      supplier: true,
     }
+  })
 
-    const product = await prisma.product.create({
-      data: {
-        name,
-        description,
-        price: parseFloat(price),
-        stock: parseFloat(stock),
-        unit: unit || "kg",
-        stockAlert: stockAlert ? parseFloat(stockAlert) : 5,
-        supplierId: supplierId || null,
-      },
-      include: {
-        supplier: true,
-      }
-    })
-
-    return NextResponse.json(product, { status: 201 })
-  } catch (error) {
-    console.error("Error creating product:", error)
-    return NextResponse.json({ error: "Failed to create product" }, { status: 500 })
-  }
-}
+  return NextResponse.json(product, { status: 201 })
+})
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse } from "@/lib/apiResponse"
+import { receivePurchaseOrder, formatPurchaseOrder } from "@/lib/purchaseOrders"
+
+const receptionSchema = z.object({
+  lines: z.array(z.object({
+    lineId: z.string({ message: "Invalid reception line" }).min(1, "Invalid reception line"),
+    quantityReceived: z.number({ message: "Invalid reception line" }).nonnegative("Invalid reception line"),
+    lotNumber: z.string().optional(),
+    catchDate: z.string().optional(),
+    useByDate: z.string().optional(),
+  }), { message: "Missing required fields" }).min(1, "Missing required fields"),
+  notes: z.string().optional(),
+  close: z.unknown().optional(),
+})
+
+export const POST = createHandler({
+  auth: 'session',
+  permission: 'purchaseOrders.receive',
+  body: receptionSchema,
+}, async ({ user, params: { id }, body: { lines, notes, close }, locale }) => {
+  const receivedLines = lines.map(line => ({
+    lineId: line.lineId,
+    quantityReceived: line.quantityReceived,
+    lotNumber: line.lotNumber,
+    catchDate: line.catchDate ? new Date(line.catchDate) : null,
+    useByDate: line.useByDate ? new Date(line.useByDate) : null
+  }))
+
+  const result = await receivePurchaseOrder(id, { lines: receivedLines, notes, close: close === true }, user.userId)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return NextResponse.json(formatPurchaseOrder(result.data), { status: 201 })
+})
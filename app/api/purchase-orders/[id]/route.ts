@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse } from "@/lib/apiResponse"
+import { prisma } from "@/lib/prisma"
+import { purchaseOrderInclude, formatPurchaseOrder } from "@/lib/purchaseOrders"
+
+export const GET = createHandler({
+  auth: 'session',
+  permission: 'suppliers.view',
+}, async ({ params: { id }, locale }) => {
+  const purchaseOrder = await prisma.purchaseOrder.findUnique({
+    where: { id },
+    include: purchaseOrderInclude
+  })
+
+  if (!purchaseOrder) {
+    return apiErrorResponse('PURCHASE_ORDER_NOT_FOUND', undefined, locale)
+  }
+
+  return NextResponse.json(formatPurchaseOrder(purchaseOrder))
+})
+
+// Cancels the purchase order (only possible before any reception)
+export const DELETE = createHandler({
+  auth: 'session',
+  permission: 'purchaseOrders.manage',
+}, async ({ params: { id }, locale }) => {
+  const purchaseOrder = await prisma.purchaseOrder.findUnique({
+    where: { id }
+  })
+
+  if (!purchaseOrder) {
+    return apiErrorResponse('PURCHASE_ORDER_NOT_FOUND', undefined, locale)
+  }
+
+  if (purchaseOrder.status !== 'ORDERED') {
+    return apiErrorResponse('PURCHASE_ORDER_NOT_CANCELLABLE', undefined, locale)
+  }
+
+  const cancelled = await prisma.purchaseOrder.update({
+    where: { id },
+    data: { status: 'CANCELLED' },
+    include: purchaseOrderInclude
+  })
+
+  return NextResponse.json(formatPurchaseOrder(cancelled))
+})
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse } from "@/lib/apiResponse"
+import { prisma } from "@/lib/prisma"
+import { purchaseOrderInclude, formatPurchaseOrder } from "@/lib/purchaseOrders"
+
+const purchaseOrderSchema = z.object({
+  supplierId: z.string({ message: "Missing required fields" }).min(1, "Missing required fields"),
+  lines: z.array(z.object({
+    productId: z.string({ message: "Invalid purchase order line" }).min(1, "Invalid purchase order line"),
+    quantityOrdered: z.number({ message: "Invalid purchase order line" }).positive("Invalid purchase order line"),
+    unitPrice: z.number({ message: "Invalid purchase order line" }).nonnegative("Invalid purchase order line"),
+  }), { message: "Missing required fields" }).min(1, "Missing required fields"),
+  expectedDate: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+})
+
+export const GET = createHandler({
+  auth: 'session',
+  permission: 'suppliers.view',
+}, async ({ request }) => {
+  const supplierId = request.nextUrl.searchParams.get('supplierId')
+
+  const purchaseOrders = await prisma.purchaseOrder.findMany({
+    where: supplierId ? { supplierId } : undefined,
+    include: purchaseOrderInclude,
+    orderBy: {
+      orderDate: 'desc'
+    }
+  })
+
+  return NextResponse.json(purchaseOrders.map(formatPurchaseOrder))
+})
+
+export const POST = createHandler({
+  auth: 'session',
+  permission: 'purchaseOrders.manage',
+  body: purchaseOrderSchema,
+}, async ({ user, body: { supplierId, lines, expectedDate, notes }, locale }) => {
+  const supplier = await prisma.supplier.findUnique({
+    where: { id: supplierId }
+  })
+
+  if (!supplier) {
+    return apiErrorResponse('SUPPLIER_NOT_FOUND', undefined, locale)
+  }
+
+  const purchaseOrder = await prisma.purchaseOrder.create({
+    data: {
+      supplierId,
+      userId: user.userId,
+      expectedDate: expectedDate ? new Date(expectedDate) : null,
+      notes: notes || null,
+      lines: {
+        create: lines.map(line => ({
+          productId: line.productId,
+          quantityOrdered: line.quantityOrdered,
+          unitPrice: line.unitPrice,
+        }))
+      }
+    },
+    include: purchaseOrderInclude
+  })
+
+  return NextResponse.json(formatPurchaseOrder(purchaseOrder), { status: 201 })
+})
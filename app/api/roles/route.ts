@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { createHandler } from "@/lib/apiHandler"
+import { listRoles } from "@/lib/roles"
+
+export const GET = createHandler({
+  auth: 'session',
+  permission: 'users.manage',
+}, async () => {
+  const roles = await listRoles()
+
+  return NextResponse.json(roles)
+})
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, errorResponse } from "@/lib/apiResponse"
+import { verifyWebhookSignature } from "@/lib/smsDelivery"
+import { processInboundSms } from "@/lib/smsConsent"
+
+const inboundSchema = z.object({
+  from: z.string().min(1, "from requis"),
+  text: z.string()
+})
+
+// POST /api/sms/inbound - SMS reçus par la passerelle (réponses STOP / ARRET des clients)
+// Signé comme les accusés de réception (header X-Sms-Signature, secret SMS_WEBHOOK_SECRET)
+export const POST = createHandler({
+  auth: 'public',
+}, async ({ request, locale }) => {
+  const secret = process.env.SMS_WEBHOOK_SECRET
+
+  if (!secret) {
+    console.error("SMS_WEBHOOK_SECRET is not configured")
+    return apiErrorResponse('SERVICE_UNAVAILABLE', undefined, locale)
+  }
+
+  const rawBody = await request.text()
+
+  if (!verifyWebhookSignature(rawBody, request.headers.get("x-sms-signature"), secret)) {
+    return apiErrorResponse('INVALID_SIGNATURE', undefined, locale)
+  }
+
+  let payload: unknown
+  try {
+    payload = JSON.parse(rawBody)
+  } catch {
+    return errorResponse("Invalid JSON body", 400, 'VALIDATION_ERROR')
+  }
+
+  const { from, text } = inboundSchema.parse(payload)
+  const result = await processInboundSms(from, text)
+
+  return NextResponse.json(result)
+})
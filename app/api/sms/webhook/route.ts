@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse, errorResponse } from "@/lib/apiResponse"
+import {
+  SMS_DELIVERY_STATUSES,
+  recordDeliveryReceipt,
+  verifyWebhookSignature
+} from "@/lib/smsDelivery"
+
+const receiptSchema = z.object({
+  messageId: z.string().min(1, "messageId requis"),
+  status: z.string()
+    .transform(status => status.toUpperCase())
+    .pipe(z.enum(SMS_DELIVERY_STATUSES)),
+  timestamp: z.string().datetime({ offset: true }).optional(),
+  error: z.string().optional()
+})
+
+// POST /api/sms/webhook - Accusés de réception de l'opérateur SMS
+// Signé avec le secret partagé SMS_WEBHOOK_SECRET (header X-Sms-Signature: HMAC-SHA256 hex du corps brut)
+export const POST = createHandler({
+  auth: 'public',
+}, async ({ request, locale }) => {
+  const secret = process.env.SMS_WEBHOOK_SECRET
+
+  if (!secret) {
+    console.error("SMS_WEBHOOK_SECRET is not configured")
+    return apiErrorResponse('SERVICE_UNAVAILABLE', undefined, locale)
+  }
+
+  // La signature porte sur le corps brut : il est lu avant tout parsing
+  const rawBody = await request.text()
+
+  if (!verifyWebhookSignature(rawBody, request.headers.get("x-sms-signature"), secret)) {
+    return apiErrorResponse('INVALID_SIGNATURE', undefined, locale)
+  }
+
+  let payload: unknown
+  try {
+    payload = JSON.parse(rawBody)
+  } catch {
+    return errorResponse("Invalid JSON body", 400, 'VALIDATION_ERROR')
+  }
+
+  const receipt = receiptSchema.parse(payload)
+
+  const result = await recordDeliveryReceipt({
+    providerMessageId: receipt.messageId,
+    status: receipt.status,
+    timestamp: receipt.timestamp ? new Date(receipt.timestamp) : undefined,
+    error: receipt.error
+  })
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return NextResponse.json(result.data)
+})
@@ -1,54 +1,49 @@
-import { NextRequest, NextResponse } from "next/server"
-import { getServerSession } from "next-auth"
-import { authOptions } from "@/lib/auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { errorResponse } from "@/lib/apiResponse"
 import { prisma } from "@/lib/prisma"
-
-export async function GET() {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+import { normalizeOptionalPhone } from "@/lib/phone"
+
+const supplierSchema = z.object({
+  name: z.string({ message: "Name is required" }).min(1, "Name is required"),
+  email: z.string().optional().nullable(),
+  phone: z.string().optional().nullable(),
+  address: z.string().optional().nullable(),
+})
+
+export const GET = createHandler({
+  auth: 'session',
+  permission: 'suppliers.view',
+}, async () => {
+  const suppliers = await prisma.supplier.findMany({
+    orderBy: {
+      name: 'asc'
     }
-
-    const suppliers = await prisma.supplier.findMany({
-      orderBy: {
-        name: 'asc'
-      }
-    })
-
-    return NextResponse.json(suppliers)
-  } catch (error) {
-    console.error("Error fetching suppliers:", error)
-    return NextResponse.json({ error: "Failed to fetch suppliers" }, { status: 500 })
+  })
+
+  return NextResponse.json(suppliers)
+})
+
+export const POST = createHandler({
+  auth: 'session',
+  permission: 'suppliers.edit',
+  body: supplierSchema,
+}, async ({ body: { name, email, phone, address } }) => {
+  const phoneE164 = normalizeOptionalPhone(phone)
+  if (!phoneE164.success) {
+    return errorResponse(phoneE164.error, 400, 'VALIDATION_ERROR', { field: 'phone' })
   }
-}
-
-export async function POST(req: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
-
-    const body = await req.json()
-    const { name, email, phone, address } = body
 
-    if (!name) {
-      return NextResponse.json({ error: "Name is required" }, { status: 400 })
+  const supplier = await prisma.supplier.create({
+    data: {
+      name,
+      email: email || null,
+      phone: phone || null,
+      phoneE164: phoneE164.e164 ?? null,
+      address: address || null,
     }
+  })
 
-    const supplier = await prisma.supplier.create({
-      data: {
-        name,
-        email: email || null,
-        phone: phone || null,
-        address: address || null,
-      }
-    })
-
-    return NextResponse.json(supplier, { status: 201 })
-  } catch (error) {
-    console.error("Error creating supplier:", error)
-    return NextResponse.json({ error: "Failed to create supplier" }, { status: 500 })
-  }
-}
+  return NextResponse.json(supplier, { status: 201 })
+})
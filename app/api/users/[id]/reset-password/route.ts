@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse } from "@/lib/apiResponse"
+import { resetUserPassword } from "@/lib/users"
+
+const resetPasswordSchema = z.object({
+  password: z.string({ message: "Password must be at least 6 characters" })
+    .min(6, "Password must be at least 6 characters"),
+})
+
+export const POST = createHandler({
+  auth: 'session',
+  permission: 'users.manage',
+  body: resetPasswordSchema,
+}, async ({ user, params: { id }, body: { password }, locale }) => {
+  const result = await resetUserPassword(id, password, user)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return NextResponse.json(result.data)
+})
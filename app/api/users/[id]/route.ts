@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse } from "@/lib/apiResponse"
+import { deactivateUser, updateUser } from "@/lib/users"
+
+// Les champs vides du formulaire sont ignorés
+const userUpdateSchema = z.object({
+  email: z.string().transform(email => email || undefined).optional(),
+  name: z.string().transform(name => name || undefined).optional(),
+  role: z.string({ message: "Invalid role" }).optional(),
+  active: z.boolean({ message: "Invalid active flag" }).optional(),
+})
+
+export const PUT = createHandler({
+  auth: 'session',
+  permission: 'users.manage',
+  body: userUpdateSchema,
+}, async ({ user, params: { id }, body, locale }) => {
+  const result = await updateUser(id, body, user)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return NextResponse.json(result.data)
+})
+
+// Désactivation : le compte est conservé pour l'historique
+export const DELETE = createHandler({
+  auth: 'session',
+  permission: 'users.manage',
+}, async ({ user, params: { id }, locale }) => {
+  const result = await deactivateUser(id, user)
+
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
+  }
+
+  return NextResponse.json(result.data)
+})
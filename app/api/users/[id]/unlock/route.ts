@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse } from "@/lib/apiResponse"
+import { prisma } from "@/lib/prisma"
+import { unlockAccount } from "@/lib/loginThrottle"
+
+export const POST = createHandler({
+  auth: 'session',
+  permission: 'users.manage',
+}, async ({ user: authUser, params: { id }, locale }) => {
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { id: true, email: true }
+  })
+
+  if (!user) {
+    return apiErrorResponse('USER_NOT_FOUND', undefined, locale)
+  }
+
+  const wasLocked = await unlockAccount(user, authUser.userId)
+
+  return NextResponse.json({ userId: user.id, wasLocked })
+})
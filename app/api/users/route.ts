@@ -1,48 +1,45 @@
-import { NextRequest, NextResponse } from "next/server"
-import { hash } from "bcryptjs"
-import { prisma } from "@/lib/prisma"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createHandler } from "@/lib/apiHandler"
+import { apiErrorResponse } from "@/lib/apiResponse"
+import { createUser, listUsers } from "@/lib/users"
 
-export async function POST(req: NextRequest) {
-  try {
-    const body = await req.json()
-    const { email, password, name, role } = body
+const listQuerySchema = z.object({
+  search: z.string().optional(),
+  role: z.string().optional(),
+  active: z.enum(['true', 'false']).transform(active => active === 'true').optional(),
+})
 
-    if (!email || !password || !name) {
-      return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
-    }
+const userSchema = z.object({
+  email: z.string({ message: "Missing required fields" }).min(1, "Missing required fields"),
+  name: z.string({ message: "Missing required fields" }).min(1, "Missing required fields"),
+  password: z.string({ message: "Missing required fields" }).min(6, "Password must be at least 6 characters"),
+  role: z.string({ message: "Invalid role" }).optional(),
+})
 
-    // Check if user already exists
-    const existingUser = await prisma.user.findUnique({
-      where: { email }
-    })
+export const GET = createHandler({
+  auth: 'session',
+  permission: 'users.manage',
+  query: listQuerySchema,
+}, async ({ query }) => {
+  const { users } = await listUsers(query)
 
-    if (existingUser) {
-      return NextResponse.json({ error: "User already exists" }, { status: 400 })
-    }
+  return NextResponse.json(users)
+})
 
-    // Hash password
-    const hashedPassword = await hash(password, 10)
+export const POST = createHandler({
+  auth: 'session',
+  permission: 'users.manage',
+  body: userSchema,
+}, async ({ user, body, locale }) => {
+  const result = await createUser({
+    ...body,
+    role: body.role || 'EMPLOYEE'
+  }, user)
 
-    // Create user
-    const user = await prisma.user.create({
-      data: {
-        email,
-        password: hashedPassword,
-        name,
-        role: role || 'EMPLOYEE'
-      },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        createdAt: true
-      }
-    })
-
-    return NextResponse.json(user, { status: 201 })
-  } catch (error) {
-    console.error("Error creating user:", error)
-    return NextResponse.json({ error: "Failed to create user" }, { status: 500 })
+  if (!result.success) {
+    return apiErrorResponse(result.code, result.details, locale)
   }
-}
+
+  return NextResponse.json(result.data, { status: 201 })
+})
@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts'
+import { ORDER_STATUS_LABELS, OrderStatus } from '@/lib/orderStatus'
 
 interface Product {
   id: string
@@ -219,10 +220,12 @@ export default function DashboardPage() {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
                         order.status === 'DELIVERED' ? 'bg-green-100 text-green-800' :
+                        order.status === 'READY' ? 'bg-blue-100 text-blue-800' :
+                        order.status === 'PREPARING' ? 'bg-purple-100 text-purple-800' :
                         order.status === 'PENDING' ? 'bg-yellow-100 text-yellow-800' :
                         'bg-red-100 text-red-800'
                       }`}>
-                        {order.status === 'DELIVERED' ? 'Livrée' : order.status === 'PENDING' ? 'En cours' : 'Annulée'}
+                        {ORDER_STATUS_LABELS[order.status as OrderStatus] ?? order.status}
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
@@ -1,8 +1,9 @@
 'use client'
 
 import { useState } from 'react'
-import { signIn } from 'next-auth/react'
+import { getSession, signIn } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
+import { getHomePage } from '@/lib/navigation'
 
 export default function LoginPage() {
   const router = useRouter()
@@ -24,9 +25,12 @@ export default function LoginPage() {
       })
 
       if (result?.error) {
-        setError('Email ou mot de passe incorrect')
+        // CredentialsSignin : identifiants refusés ; autre message : connexion bloquée (trop d'échecs)
+        setError(result.error === 'CredentialsSignin' ? 'Email ou mot de passe incorrect' : result.error)
       } else {
-        router.push('/dashboard')
+        // Première page du menu autorisée par le rôle (le tableau de bord exige reports.view)
+        const session = await getSession()
+        router.push(getHomePage(session?.user))
         router.refresh()
       }
     } catch {
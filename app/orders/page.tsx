@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
+import { ORDER_STATUS_LABELS, OrderStatus } from '@/lib/orderStatus'
 
 interface Order {
   id: string
@@ -25,6 +26,18 @@ interface Order {
   }[]
 }
 
+interface StatusEvent {
+  id: string
+  fromStatus: string | null
+  toStatus: string
+  note: string | null
+  createdAt: string
+  user: {
+    name: string
+    email: string
+  } | null
+}
+
 interface Customer {
   id: string
   name: string
@@ -46,6 +59,8 @@ export default function OrdersPage() {
   const [products, setProducts] = useState<Product[]>([])
   const [loading, setLoading] = useState(true)
   const [showForm, setShowForm] = useState(false)
+  const [historyOrder, setHistoryOrder] = useState<Order | null>(null)
+  const [history, setHistory] = useState<StatusEvent[]>([])
   const [formData, setFormData] = useState({
     customerId: '',
     notes: '',
@@ -154,6 +169,10 @@ export default function OrdersPage() {
         if (newStatus === 'READY') {
           alert('Commande marquée comme prête. Le client sera notifié par SMS si un numéro de téléphone est disponible.')
         }
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Erreur lors de la mise à jour de la commande')
+        fetchOrders()
       }
     } catch (error) {
       console.error('Error updating order:', error)
@@ -180,6 +199,22 @@ export default function OrdersPage() {
     }
   }
 
+  const handleShowHistory = async (order: Order) => {
+    try {
+      const response = await fetch(`/api/orders/${order.id}/history`)
+      if (response.ok) {
+        const data = await response.json()
+        setHistory(data)
+        setHistoryOrder(order)
+      }
+    } catch (error) {
+      console.error('Error fetching order history:', error)
+    }
+  }
+
+  const statusLabel = (status: string) =>
+    ORDER_STATUS_LABELS[status as OrderStatus] ?? status
+
   const addItem = () => {
     setFormData({
       ...formData,
@@ -369,16 +404,43 @@ export default function OrdersPage() {
                     <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
                       order.status === 'DELIVERED' ? 'bg-green-100 text-green-800' :
                       order.status === 'READY' ? 'bg-blue-100 text-blue-800' :
+                      order.status === 'PREPARING' ? 'bg-purple-100 text-purple-800' :
                       order.status === 'PENDING' ? 'bg-yellow-100 text-yellow-800' :
                       'bg-red-100 text-red-800'
                     }`}>
-                      {order.status === 'DELIVERED' ? 'Livrée' : 
-                       order.status === 'READY' ? 'Prête' :
-                       order.status === 'PENDING' ? 'En cours' : 'Annulée'}
+                      {statusLabel(order.status)}
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <button
+                      onClick={() => handleShowHistory(order)}
+                      className="text-gray-600 hover:text-gray-900 mr-2"
+                    >
+                      Historique
+                    </button>
                     {order.status === 'PENDING' && (
+                      <>
+                        <button
+                          onClick={() => handleUpdateStatus(order.id, 'PREPARING')}
+                          className="text-purple-600 hover:text-purple-900 mr-2"
+                        >
+                          Préparer
+                        </button>
+                        <button
+                          onClick={() => handleUpdateStatus(order.id, 'READY')}
+                          className="text-blue-600 hover:text-blue-900 mr-2"
+                        >
+                          Prête
+                        </button>
+                        <button
+                          onClick={() => handleUpdateStatus(order.id, 'CANCELLED')}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          Annuler
+                        </button>
+                      </>
+                    )}
+                    {order.status === 'PREPARING' && (
                       <>
                         <button
                           onClick={() => handleUpdateStatus(order.id, 'READY')}
@@ -422,6 +484,44 @@ export default function OrdersPage() {
             </tbody>
           </table>
         </div>
+
+        {historyOrder && (
+          <div className="bg-white rounded-lg shadow p-6 mt-8">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold">
+                Historique de la commande de {historyOrder.customer.name} du {new Date(historyOrder.orderDate).toLocaleDateString('fr-FR')}
+              </h2>
+              <button
+                onClick={() => setHistoryOrder(null)}
+                className="bg-gray-300 hover:bg-gray-400 text-gray-800 px-3 py-1 rounded-md text-sm"
+              >
+                Fermer
+              </button>
+            </div>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500">Aucun changement de statut enregistré.</p>
+            ) : (
+              <ol className="border-l-2 border-blue-200 space-y-4">
+                {history.map(event => (
+                  <li key={event.id} className="ml-4">
+                    <div className="text-sm text-gray-500">
+                      {new Date(event.createdAt).toLocaleString('fr-FR')}
+                    </div>
+                    <div className="text-sm text-gray-900">
+                      {event.fromStatus
+                        ? `${statusLabel(event.fromStatus)} → ${statusLabel(event.toStatus)}`
+                        : `Création (${statusLabel(event.toStatus)})`}
+                      {' '}par {event.user?.name ?? 'utilisateur inconnu'}
+                    </div>
+                    {event.note && (
+                      <div className="text-sm text-gray-600 italic">{event.note}</div>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
       </div>
     </div>
   )
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
+import Link from 'next/link'
 
 interface Supplier {
   id: string
@@ -92,12 +93,20 @@ export default function SuppliersPage() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center mb-8">
           <h1 className="text-3xl font-bold text-gray-900">Gestion des fournisseurs</h1>
-          <button
-            onClick={() => setShowForm(!showForm)}
-            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md"
-          >
-            {showForm ? 'Annuler' : 'Ajouter un fournisseur'}
-          </button>
+          <div className="flex gap-2">
+            <Link
+              href="/suppliers/purchase-orders"
+              className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded-md"
+            >
+              Bons de commande
+            </Link>
+            <button
+              onClick={() => setShowForm(!showForm)}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md"
+            >
+              {showForm ? 'Annuler' : 'Ajouter un fournisseur'}
+            </button>
+          </div>
         </div>
 
         {showForm && (
@@ -0,0 +1,562 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { hasPermission } from '@/lib/permissions'
+
+interface PurchaseOrderLine {
+  id: string
+  productId: string
+  productName: string
+  productUnit: string
+  quantityOrdered: number
+  quantityReceived: number
+  remainingQuantity: number
+  unitPrice: number
+}
+
+interface PurchaseOrder {
+  id: string
+  supplier: {
+    id: string
+    name: string
+  }
+  status: string
+  orderDate: string
+  expectedDate: string | null
+  notes: string | null
+  total: number
+  receivedTotal: number
+  lines: PurchaseOrderLine[]
+}
+
+interface Supplier {
+  id: string
+  name: string
+}
+
+interface Product {
+  id: string
+  name: string
+  price: number
+  unit: string
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  ORDERED: 'Commandé',
+  PARTIALLY_RECEIVED: 'Reçu partiellement',
+  RECEIVED: 'Reçu',
+  CANCELLED: 'Annulé'
+}
+
+export default function PurchaseOrdersPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState({
+    supplierId: '',
+    expectedDate: '',
+    notes: '',
+    lines: [{ productId: '', quantityOrdered: '', unitPrice: '' }]
+  })
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null)
+  const [receptionData, setReceptionData] = useState<{
+    quantities: Record<string, string>
+    lotNumbers: Record<string, string>
+    useByDates: Record<string, string>
+    notes: string
+    close: boolean
+  }>({ quantities: {}, lotNumbers: {}, useByDates: {}, notes: '', close: false })
+
+  const canManage = hasPermission(session?.user, 'purchaseOrders.manage')
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    }
+  }, [status, router])
+
+  useEffect(() => {
+    if (session) {
+      fetchPurchaseOrders()
+      fetchSuppliers()
+      fetchProducts()
+    }
+  }, [session])
+
+  const fetchPurchaseOrders = async () => {
+    try {
+      const response = await fetch('/api/purchase-orders')
+      if (response.ok) {
+        const data = await response.json()
+        setPurchaseOrders(data)
+      }
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchSuppliers = async () => {
+    try {
+      const response = await fetch('/api/suppliers')
+      if (response.ok) {
+        const data = await response.json()
+        setSuppliers(data)
+      }
+    } catch (error) {
+      console.error('Error fetching suppliers:', error)
+    }
+  }
+
+  const fetchProducts = async () => {
+    try {
+      const response = await fetch('/api/products')
+      if (response.ok) {
+        const data = await response.json()
+        setProducts(data)
+      }
+    } catch (error) {
+      console.error('Error fetching products:', error)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      const lines = formData.lines
+        .filter(line => line.productId && line.quantityOrdered && line.unitPrice)
+        .map(line => ({
+          productId: line.productId,
+          quantityOrdered: parseFloat(line.quantityOrdered),
+          unitPrice: parseFloat(line.unitPrice)
+        }))
+
+      const response = await fetch('/api/purchase-orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          supplierId: formData.supplierId,
+          expectedDate: formData.expectedDate || undefined,
+          notes: formData.notes,
+          lines
+        })
+      })
+
+      if (response.ok) {
+        fetchPurchaseOrders()
+        resetForm()
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Erreur lors de la création du bon de commande')
+      }
+    } catch (error) {
+      console.error('Error saving purchase order:', error)
+      alert('Erreur lors de la création du bon de commande')
+    }
+  }
+
+  const handleCancel = async (purchaseOrderId: string) => {
+    if (!confirm('Annuler ce bon de commande ?')) return
+
+    try {
+      const response = await fetch(`/api/purchase-orders/${purchaseOrderId}`, {
+        method: 'DELETE'
+      })
+
+      if (response.ok) {
+        fetchPurchaseOrders()
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Erreur lors de l\'annulation')
+      }
+    } catch (error) {
+      console.error('Error cancelling purchase order:', error)
+    }
+  }
+
+  const openReception = (purchaseOrder: PurchaseOrder) => {
+    const quantities: Record<string, string> = {}
+    for (const line of purchaseOrder.lines) {
+      quantities[line.id] = line.remainingQuantity > 0 ? String(line.remainingQuantity) : ''
+    }
+    setReceptionData({ quantities, lotNumbers: {}, useByDates: {}, notes: '', close: false })
+    setReceivingOrder(purchaseOrder)
+  }
+
+  const handleReception = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!receivingOrder) return
+
+    try {
+      const lines = Object.entries(receptionData.quantities)
+        .filter(([, quantity]) => quantity !== '')
+        .map(([lineId, quantity]) => ({
+          lineId,
+          quantityReceived: parseFloat(quantity),
+          lotNumber: receptionData.lotNumbers[lineId] || undefined,
+          useByDate: receptionData.useByDates[lineId]
+            ? new Date(receptionData.useByDates[lineId]).toISOString()
+            : undefined
+        }))
+
+      const response = await fetch(`/api/purchase-orders/${receivingOrder.id}/receptions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          lines,
+          notes: receptionData.notes,
+          close: receptionData.close
+        })
+      })
+
+      if (response.ok) {
+        fetchPurchaseOrders()
+        setReceivingOrder(null)
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Erreur lors de la réception')
+      }
+    } catch (error) {
+      console.error('Error recording reception:', error)
+      alert('Erreur lors de la réception')
+    }
+  }
+
+  const addLine = () => {
+    setFormData({
+      ...formData,
+      lines: [...formData.lines, { productId: '', quantityOrdered: '', unitPrice: '' }]
+    })
+  }
+
+  const removeLine = (index: number) => {
+    setFormData({ ...formData, lines: formData.lines.filter((_, i) => i !== index) })
+  }
+
+  const updateLine = (index: number, field: string, value: string) => {
+    const newLines = [...formData.lines]
+    newLines[index] = { ...newLines[index], [field]: value }
+    setFormData({ ...formData, lines: newLines })
+  }
+
+  const resetForm = () => {
+    setFormData({
+      supplierId: '',
+      expectedDate: '',
+      notes: '',
+      lines: [{ productId: '', quantityOrdered: '', unitPrice: '' }]
+    })
+    setShowForm(false)
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-xl">Chargement...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Bons de commande fournisseurs</h1>
+            <Link href="/suppliers" className="text-sm text-blue-600 hover:text-blue-800">
+              ← Retour aux fournisseurs
+            </Link>
+          </div>
+          {canManage && (
+            <button
+              onClick={() => setShowForm(!showForm)}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md"
+            >
+              {showForm ? 'Annuler' : 'Nouveau bon de commande'}
+            </button>
+          )}
+        </div>
+
+        {showForm && (
+          <div className="bg-white rounded-lg shadow p-6 mb-8">
+            <h2 className="text-xl font-semibold mb-4">Nouveau bon de commande</h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Fournisseur *</label>
+                  <select
+                    required
+                    value={formData.supplierId}
+                    onChange={(e) => setFormData({ ...formData, supplierId: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Sélectionner un fournisseur</option>
+                    {suppliers.map(supplier => (
+                      <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Livraison prévue</label>
+                  <input
+                    type="date"
+                    value={formData.expectedDate}
+                    onChange={(e) => setFormData({ ...formData, expectedDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Lignes *</label>
+                {formData.lines.map((line, index) => (
+                  <div key={index} className="flex gap-2 mb-2">
+                    <select
+                      required
+                      value={line.productId}
+                      onChange={(e) => updateLine(index, 'productId', e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Sélectionner un produit</option>
+                      {products.map(product => (
+                        <option key={product.id} value={product.id}>
+                          {product.name} ({product.unit})
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      step="0.01"
+                      required
+                      placeholder="Quantité"
+                      value={line.quantityOrdered}
+                      onChange={(e) => updateLine(index, 'quantityOrdered', e.target.value)}
+                      className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      required
+                      placeholder="Prix/unité"
+                      value={line.unitPrice}
+                      onChange={(e) => updateLine(index, 'unitPrice', e.target.value)}
+                      className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    {formData.lines.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => removeLine(index)}
+                        className="px-3 py-2 bg-red-500 text-white rounded-md hover:bg-red-600"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={addLine}
+                  className="mt-2 text-blue-600 hover:text-blue-800 text-sm font-medium"
+                >
+                  + Ajouter une ligne
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md"
+                >
+                  Créer le bon de commande
+                </button>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="bg-gray-300 hover:bg-gray-400 text-gray-800 px-4 py-2 rounded-md"
+                >
+                  Annuler
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {receivingOrder && (
+          <div className="bg-white rounded-lg shadow p-6 mb-8">
+            <h2 className="text-xl font-semibold mb-4">
+              Réception - {receivingOrder.supplier.name} du {new Date(receivingOrder.orderDate).toLocaleDateString('fr-FR')}
+            </h2>
+            <form onSubmit={handleReception} className="space-y-4">
+              {receivingOrder.lines.map(line => (
+                <div key={line.id} className="flex items-center gap-4">
+                  <div className="flex-1 text-sm text-gray-900">
+                    {line.productName} — commandé {line.quantityOrdered} {line.productUnit}, déjà reçu {line.quantityReceived} {line.productUnit}
+                  </div>
+                  <input
+                    type="number"
+                    step="0.001"
+                    min="0"
+                    placeholder="Poids reçu"
+                    value={receptionData.quantities[line.id] ?? ''}
+                    onChange={(e) => setReceptionData({
+                      ...receptionData,
+                      quantities: { ...receptionData.quantities, [line.id]: e.target.value }
+                    })}
+                    className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="text"
+                    placeholder="N° de lot"
+                    value={receptionData.lotNumbers[line.id] ?? ''}
+                    onChange={(e) => setReceptionData({
+                      ...receptionData,
+                      lotNumbers: { ...receptionData.lotNumbers, [line.id]: e.target.value }
+                    })}
+                    className="w-36 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="date"
+                    title="DLC"
+                    value={receptionData.useByDates[line.id] ?? ''}
+                    onChange={(e) => setReceptionData({
+                      ...receptionData,
+                      useByDates: { ...receptionData.useByDates, [line.id]: e.target.value }
+                    })}
+                    className="w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              ))}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <input
+                  type="text"
+                  value={receptionData.notes}
+                  onChange={(e) => setReceptionData({ ...receptionData, notes: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={receptionData.close}
+                  onChange={(e) => setReceptionData({ ...receptionData, close: e.target.checked })}
+                />
+                Clôturer le bon de commande (plus rien à recevoir)
+              </label>
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md"
+                >
+                  Enregistrer la réception
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setReceivingOrder(null)}
+                  className="bg-gray-300 hover:bg-gray-400 text-gray-800 px-4 py-2 rounded-md"
+                >
+                  Annuler
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Date
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Fournisseur
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Lignes
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Total
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Statut
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {purchaseOrders.map((purchaseOrder) => (
+                <tr key={purchaseOrder.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {new Date(purchaseOrder.orderDate).toLocaleDateString('fr-FR')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {purchaseOrder.supplier.name}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {purchaseOrder.lines.map(line => (
+                      <div key={line.id}>
+                        {line.productName} : {line.quantityReceived}/{line.quantityOrdered} {line.productUnit} à {line.unitPrice.toFixed(2)} €
+                      </div>
+                    ))}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {purchaseOrder.total.toFixed(2)} €
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                      purchaseOrder.status === 'RECEIVED' ? 'bg-green-100 text-green-800' :
+                      purchaseOrder.status === 'PARTIALLY_RECEIVED' ? 'bg-blue-100 text-blue-800' :
+                      purchaseOrder.status === 'ORDERED' ? 'bg-yellow-100 text-yellow-800' :
+                      'bg-red-100 text-red-800'
+                    }`}>
+                      {STATUS_LABELS[purchaseOrder.status] ?? purchaseOrder.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    {(purchaseOrder.status === 'ORDERED' || purchaseOrder.status === 'PARTIALLY_RECEIVED') && (
+                      <button
+                        onClick={() => openReception(purchaseOrder)}
+                        className="text-green-600 hover:text-green-900 mr-2"
+                      >
+                        Réceptionner
+                      </button>
+                    )}
+                    {canManage && purchaseOrder.status === 'ORDERED' && (
+                      <button
+                        onClick={() => handleCancel(purchaseOrder.id)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Annuler
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
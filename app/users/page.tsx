@@ -0,0 +1,340 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { hasPermission } from '@/lib/permissions'
+import { getHomePage } from '@/lib/navigation'
+
+interface User {
+  id: string
+  email: string
+  name: string
+  role: string
+  active: boolean
+  deactivatedAt: string | null
+  createdAt: string
+}
+
+interface Role {
+  name: string
+  label: string
+}
+
+export default function UsersPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [users, setUsers] = useState<User[]>([])
+  const [roles, setRoles] = useState<Role[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState({
+    name: '',
+    email: '',
+    password: '',
+    role: 'EMPLOYEE'
+  })
+
+  const canManage = hasPermission(session?.user, 'users.manage')
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    }
+    // Page réservée à la gestion des comptes
+    if (status === 'authenticated' && !canManage) {
+      router.push(getHomePage(session?.user))
+    }
+  }, [status, canManage, router, session])
+
+  useEffect(() => {
+    if (canManage) {
+      fetchUsers()
+      fetchRoles()
+    }
+  }, [canManage])
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch('/api/users')
+      if (response.ok) {
+        const data = await response.json()
+        setUsers(data)
+      }
+    } catch (error) {
+      console.error('Error fetching users:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchRoles = async () => {
+    try {
+      const response = await fetch('/api/roles')
+      if (response.ok) {
+        const data = await response.json()
+        setRoles(data)
+      }
+    } catch (error) {
+      console.error('Error fetching roles:', error)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      const response = await fetch('/api/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData)
+      })
+
+      if (response.ok) {
+        fetchUsers()
+        resetForm()
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Erreur lors de la création de l\'utilisateur')
+      }
+    } catch (error) {
+      console.error('Error saving user:', error)
+      alert('Erreur lors de la création de l\'utilisateur')
+    }
+  }
+
+  const updateUser = async (user: User, data: { role?: string; active?: boolean }) => {
+    try {
+      const response = await fetch(`/api/users/${user.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      })
+
+      if (response.ok) {
+        fetchUsers()
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Erreur lors de la modification')
+      }
+    } catch (error) {
+      console.error('Error updating user:', error)
+    }
+  }
+
+  const handleToggleActive = async (user: User) => {
+    if (user.active && !confirm(`Désactiver le compte de ${user.name} ? Ses appareils seront déconnectés.`)) return
+    await updateUser(user, { active: !user.active })
+  }
+
+  const handleResetPassword = async (user: User) => {
+    const password = prompt(`Nouveau mot de passe pour ${user.name} (6 caractères minimum)`)
+    if (!password) return
+
+    try {
+      const response = await fetch(`/api/users/${user.id}/reset-password`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password })
+      })
+
+      if (response.ok) {
+        alert('Mot de passe modifié')
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Erreur lors du changement de mot de passe')
+      }
+    } catch (error) {
+      console.error('Error resetting password:', error)
+    }
+  }
+
+  const handleUnlock = async (user: User) => {
+    try {
+      const response = await fetch(`/api/users/${user.id}/unlock`, { method: 'POST' })
+
+      if (response.ok) {
+        const data = await response.json()
+        alert(data.wasLocked ? 'Compte déverrouillé' : 'Ce compte n\'était pas verrouillé')
+      }
+    } catch (error) {
+      console.error('Error unlocking user:', error)
+    }
+  }
+
+  const resetForm = () => {
+    setFormData({
+      name: '',
+      email: '',
+      password: '',
+      role: 'EMPLOYEE'
+    })
+    setShowForm(false)
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-xl">Chargement...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Gestion des utilisateurs</h1>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md"
+          >
+            {showForm ? 'Annuler' : 'Ajouter un utilisateur'}
+          </button>
+        </div>
+
+        {showForm && (
+          <div className="bg-white rounded-lg shadow p-6 mb-8">
+            <h2 className="text-xl font-semibold mb-4">Nouvel utilisateur</h2>
+            <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Nom *</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Email *</label>
+                <input
+                  type="email"
+                  required
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Mot de passe *</label>
+                <input
+                  type="password"
+                  required
+                  minLength={6}
+                  value={formData.password}
+                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Rôle</label>
+                <select
+                  value={formData.role}
+                  onChange={(e) => setFormData({ ...formData, role: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {roles.map((role) => (
+                    <option key={role.name} value={role.name}>{role.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-2 flex gap-2">
+                <button
+                  type="submit"
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md"
+                >
+                  Créer
+                </button>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="bg-gray-300 hover:bg-gray-400 text-gray-800 px-4 py-2 rounded-md"
+                >
+                  Annuler
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Nom
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Email
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rôle
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Statut
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {users.map((user) => (
+                <tr key={user.id} className={user.active ? '' : 'bg-gray-50 text-gray-500'}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {user.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {user.email}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    <select
+                      value={user.role}
+                      disabled={user.id === session?.user?.id}
+                      onChange={(e) => updateUser(user, { role: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded-md"
+                    >
+                      {roles.map((role) => (
+                        <option key={role.name} value={role.name}>{role.label}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                      user.active ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                    }`}>
+                      {user.active ? 'Actif' : 'Désactivé'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <button
+                      onClick={() => handleResetPassword(user)}
+                      className="text-blue-600 hover:text-blue-900 mr-2"
+                    >
+                      Mot de passe
+                    </button>
+                    <button
+                      onClick={() => handleUnlock(user)}
+                      className="text-gray-600 hover:text-gray-900 mr-2"
+                    >
+                      Déverrouiller
+                    </button>
+                    {user.id !== session?.user?.id && (
+                      <button
+                        onClick={() => handleToggleActive(user)}
+                        className={user.active ? 'text-red-600 hover:text-red-900' : 'text-green-600 hover:text-green-900'}
+                      >
+                        {user.active ? 'Désactiver' : 'Réactiver'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
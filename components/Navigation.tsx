@@ -3,6 +3,7 @@
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { signOut, useSession } from 'next-auth/react'
+import { getHomePage, getNavigation } from '@/lib/navigation'
 
 export default function Navigation() {
   const pathname = usePathname()
@@ -12,13 +13,8 @@ export default function Navigation() {
     return null
   }
 
-  const navigation = [
-    { name: 'Tableau de bord', href: '/dashboard' },
-    { name: 'Produits', href: '/products' },
-    { name: 'Commandes', href: '/orders' },
-    { name: 'Clients', href: '/customers' },
-    { name: 'Fournisseurs', href: '/suppliers' },
-  ]
+  // Seules les pages accessibles avec le rôle de l'utilisateur sont proposées
+  const navigation = getNavigation(session.user)
 
   return (
     <nav className="bg-blue-600 text-white shadow-lg">
@@ -26,7 +22,7 @@ export default function Navigation() {
         <div className="flex justify-between h-16">
           <div className="flex">
             <div className="flex-shrink-0 flex items-center">
-              <Link href="/dashboard" className="text-xl font-bold">
+              <Link href={getHomePage(session.user)} className="text-xl font-bold">
                 🐟 Ker Pesked
               </Link>
             </div>
@@ -0,0 +1,145 @@
+import { NextRequest } from "next/server"
+import { getServerSession } from "next-auth"
+import { z } from "zod"
+import { authOptions } from "./auth"
+import { verifyAuthToken } from "./middleware/authMiddleware"
+import { requirePermission } from "./middleware/checkPermission"
+import { Permission } from "./permissions"
+import { DEFAULT_LOCALE, Locale, apiError, isApiError, resolveLocale } from "./errorCodes"
+import { apiErrorResponse, errorResponse } from "./apiResponse"
+import { AuthUser } from "@/types/api"
+
+// session : cookie NextAuth (pages web) ; bearer : JWT mobile ; public : aucune authentification
+// (webhooks, cron et login, qui vérifient eux-mêmes leur secret)
+export type AuthMode = 'session' | 'bearer' | 'public'
+
+type Schema = z.ZodType | undefined
+
+type Infer<S extends Schema, Fallback> = S extends z.ZodType ? z.output<S> : Fallback
+
+interface HandlerOptions<A extends AuthMode, P extends Schema, Q extends Schema, B extends Schema> {
+  auth: A
+  // Toutes les permissions listées sont requises
+  permission?: Permission | Permission[]
+  // Clés d'API acceptées (auth bearer, true par défaut) ; false pour les routes liées à un compte (profil, sessions)
+  apiKey?: boolean
+  params?: P
+  query?: Q
+  body?: B
+}
+
+export interface HandlerContext<A extends AuthMode, P extends Schema, Q extends Schema, B extends Schema> {
+  request: NextRequest
+  user: A extends 'public' ? null : AuthUser
+  // Segments dynamiques de l'URL, validés par le schéma params s'il est fourni
+  params: Infer<P, Record<string, string>>
+  query: Infer<Q, undefined>
+  body: Infer<B, undefined>
+  // Langue des messages d'erreur (Accept-Language ; toujours le français pour les pages web)
+  locale: Locale
+}
+
+// Contexte passé par Next.js aux route handlers
+interface RouteContext {
+  params: Promise<Record<string, string>>
+}
+
+/**
+ * Builds a route handler: authenticates the caller, checks the permissions, validates
+ * params, query string and JSON body, then runs the handler
+ * Every failure is turned into the shared error envelope: errors thrown with apiError keep their code,
+ * schema failures become VALIDATION_ERROR and unexpected errors a logged INTERNAL_ERROR
+ */
+export function createHandler<
+  A extends AuthMode,
+  P extends Schema = undefined,
+  Q extends Schema = undefined,
+  B extends Schema = undefined
+>(
+  options: HandlerOptions<A, P, Q, B>,
+  handler: (context: HandlerContext<A, P, Q, B>) => Promise<Response>
+) {
+  return async (request: NextRequest, routeContext: RouteContext) => {
+    const locale = options.auth === 'session' ? DEFAULT_LOCALE : resolveLocale(request.headers.get('accept-language'))
+
+    try {
+      const user = await authenticate(request, options.auth)
+
+      if (user?.apiKeyId && options.apiKey === false) {
+        throw apiError('API_KEY_NOT_ALLOWED')
+      }
+
+      if (options.permission) {
+        const permissions = Array.isArray(options.permission) ? options.permission : [options.permission]
+        requirePermission(user, ...permissions)
+      }
+
+      const rawParams = (await routeContext?.params) ?? {}
+      const params = options.params ? options.params.parse(rawParams) : rawParams
+      const query = options.query
+        ? options.query.parse(Object.fromEntries(request.nextUrl.searchParams))
+        : undefined
+      const body = options.body ? options.body.parse(await readJson(request)) : undefined
+
+      return await handler({ request, user, params, query, body, locale } as HandlerContext<A, P, Q, B>)
+    } catch (error: unknown) {
+      return handleError(error, locale)
+    }
+  }
+}
+
+async function authenticate(request: NextRequest, mode: AuthMode): Promise<AuthUser | null> {
+  if (mode === 'public') {
+    return null
+  }
+
+  if (mode === 'bearer') {
+    return verifyAuthToken(request)
+  }
+
+  const session = await getServerSession(authOptions)
+  if (!session) {
+    throw apiError('UNAUTHORIZED')
+  }
+
+  return {
+    userId: session.user.id,
+    email: session.user.email,
+    role: session.user.role,
+    permissions: session.user.permissions ?? []
+  }
+}
+
+// Corps absent : objet vide (les schémas décident des champs requis) ; JSON invalide : erreur de validation plutôt qu'une 500
+async function readJson(request: NextRequest) {
+  const text = await request.text()
+  if (!text.trim()) {
+    return {}
+  }
+
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new z.ZodError([{
+      code: 'custom',
+      path: [],
+      message: 'Corps de requête JSON invalide',
+      input: undefined
+    }])
+  }
+}
+
+function handleError(error: unknown, locale: Locale) {
+  // Les messages des schémas sont rédigés en français : seul le champ en cause est structuré
+  if (error instanceof z.ZodError) {
+    const issue = error.issues[0]
+    return errorResponse(issue.message, 400, 'VALIDATION_ERROR', { field: issue.path.join('.') || null })
+  }
+
+  if (isApiError(error)) {
+    return apiErrorResponse(error.code, error.details, locale)
+  }
+
+  console.error("API Error:", error)
+  return apiErrorResponse('INTERNAL_ERROR', undefined, locale)
+}
@@ -0,0 +1,183 @@
+import crypto from "crypto"
+import { prisma } from "./prisma"
+import { hashToken } from "./jwt"
+import { Permission, isPermission } from "./permissions"
+import { checkPermissionsGrantable, getRolePermissions } from "./roles"
+import { ErrorCode, ErrorDetails, apiError } from "./errorCodes"
+import { AuthUser } from "@/types/api"
+
+// Préfixe des clés : distingue une clé d'API d'un JWT dans l'en-tête Authorization
+export const API_KEY_PREFIX = 'kp_'
+
+// Caractères de la clé conservés en clair pour la reconnaître dans la liste
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8
+
+// lastUsedAt n'est réécrit qu'au-delà de cet intervalle : pas d'écriture en base à chaque requête
+const LAST_USED_REFRESH_INTERVAL = 60 * 1000
+
+type ApiKeyResult<T> =
+  | { success: true; data: T }
+  | { success: false; code: ErrorCode; details?: ErrorDetails }
+
+interface ApiKeyInput {
+  name: string
+  permissions: Permission[]
+  expiresAt?: Date | null
+}
+
+const apiKeyInclude = {
+  permissions: { select: { permission: true } },
+  createdBy: { select: { id: true, name: true } }
+}
+
+function formatApiKey(apiKey: {
+  id: string
+  name: string
+  prefix: string
+  permissions: { permission: string }[]
+  createdBy: { id: string; name: string }
+  expiresAt: Date | null
+  revokedAt: Date | null
+  lastUsedAt: Date | null
+  lastUsedIp: string | null
+  createdAt: Date
+}) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    permissions: apiKey.permissions.map(p => p.permission).filter(isPermission),
+    createdBy: apiKey.createdBy,
+    expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+    revokedAt: apiKey.revokedAt?.toISOString() ?? null,
+    lastUsedAt: apiKey.lastUsedAt?.toISOString() ?? null,
+    lastUsedIp: apiKey.lastUsedIp,
+    createdAt: apiKey.createdAt.toISOString(),
+    active: !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt > new Date())
+  }
+}
+
+export function isApiKey(token: string) {
+  return token.startsWith(API_KEY_PREFIX)
+}
+
+/**
+ * Lists API keys, revoked and expired ones included, newest first
+ */
+export async function listApiKeys() {
+  const apiKeys = await prisma.apiKey.findMany({
+    include: apiKeyInclude,
+    orderBy: { createdAt: 'desc' }
+  })
+
+  return apiKeys.map(formatApiKey)
+}
+
+/**
+ * Creates an API key (admin action)
+ * The creator can only grant permissions they hold, and actions made with the key are attributed to them
+ * @returns The key record and the raw key, returned this once and never stored
+ */
+export async function createApiKey(
+  input: ApiKeyInput,
+  creator: AuthUser
+): Promise<ApiKeyResult<ReturnType<typeof formatApiKey> & { key: string }>> {
+  const permissions = [...new Set(input.permissions)]
+
+  const refusal = checkPermissionsGrantable(permissions, creator)
+  if (refusal) {
+    return { success: false, ...refusal }
+  }
+
+  const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('hex')
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      name: input.name,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashToken(key),
+      createdById: creator.userId,
+      expiresAt: input.expiresAt ?? null,
+      permissions: {
+        create: permissions.map(permission => ({ permission }))
+      }
+    },
+    include: apiKeyInclude
+  })
+
+  return { success: true, data: { ...formatApiKey(apiKey), key } }
+}
+
+/**
+ * Revokes an API key: the integration using it is refused from its next request
+ * The record is kept for the history (last use, creator)
+ */
+export async function revokeApiKey(id: string): Promise<ApiKeyResult<ReturnType<typeof formatApiKey>>> {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { id },
+    select: { revokedAt: true }
+  })
+
+  if (!apiKey) {
+    return { success: false, code: 'API_KEY_NOT_FOUND', details: { apiKeyId: id } }
+  }
+
+  if (apiKey.revokedAt) {
+    return { success: false, code: 'API_KEY_REVOKED', details: { apiKeyId: id } }
+  }
+
+  const revoked = await prisma.apiKey.update({
+    where: { id },
+    data: { revokedAt: new Date() },
+    include: apiKeyInclude
+  })
+
+  return { success: true, data: formatApiKey(revoked) }
+}
+
+/**
+ * Authenticates a request made with an API key and records its use
+ * The key gets its own permissions, limited to those its creator still holds:
+ * demoting or deactivating the administrator also restricts or disables their keys
+ * @param ipAddress - Client IP, recorded as the last use
+ * @throws apiError API_KEY_INVALID or API_KEY_EXPIRED
+ */
+export async function authenticateApiKey(key: string, ipAddress?: string | null): Promise<AuthUser> {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashToken(key) },
+    include: {
+      permissions: { select: { permission: true } },
+      createdBy: { select: { id: true, email: true, role: true, active: true } }
+    }
+  })
+
+  if (!apiKey || apiKey.revokedAt || !apiKey.createdBy.active) {
+    throw apiError('API_KEY_INVALID')
+  }
+
+  const now = new Date()
+  if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+    throw apiError('API_KEY_EXPIRED')
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_REFRESH_INTERVAL
+    || apiKey.lastUsedIp !== (ipAddress ?? null)) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: now, lastUsedIp: ipAddress ?? null }
+    })
+  }
+
+  const creatorPermissions = await getRolePermissions(apiKey.createdBy.role)
+
+  return {
+    userId: apiKey.createdBy.id,
+    email: apiKey.createdBy.email,
+    role: apiKey.createdBy.role,
+    permissions: apiKey.permissions
+      .map(p => p.permission)
+      .filter(isPermission)
+      .filter(permission => creatorPermissions.includes(permission)),
+    apiKeyId: apiKey.id
+  }
+}
@@ -1,21 +1,70 @@
 // Helper functions pour les réponses API standardisées
 
+import {
+  DEFAULT_LOCALE,
+  ERROR_DEFINITIONS,
+  ErrorCode,
+  ErrorDetails,
+  Locale,
+  formatErrorMessage,
+} from "./errorCodes";
+import { ApiErrorResponse } from "@/types/api";
+
 export function successResponse<T>(data: T, status = 200) {
   return Response.json({ success: true, data }, { status });
 }
 
-export function errorResponse(error: string, status = 400) {
-  return Response.json({ success: false, error }, { status });
+// Code d'erreur par défaut selon le statut HTTP, quand la route n'en précise pas
+const DEFAULT_ERROR_CODES: Record<number, ErrorCode> = {
+  400: "BAD_REQUEST",
+  401: "UNAUTHORIZED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  409: "CONFLICT",
+  429: "TOO_MANY_REQUESTS",
+  500: "INTERNAL_ERROR",
+  503: "SERVICE_UNAVAILABLE",
+};
+
+export function errorCodeForStatus(status: number): ErrorCode {
+  return DEFAULT_ERROR_CODES[status] ?? (status >= 500 ? "INTERNAL_ERROR" : "BAD_REQUEST");
 }
 
-export function unauthorizedResponse(error = "Non authentifié") {
-  return Response.json({ success: false, error }, { status: 401 });
+/**
+ * Error envelope shared by the web and mobile routes: { success: false, error, code, details? }
+ * Prefer apiErrorResponse: this one is for free-form messages (validation errors, configuration)
+ * @param code - Code of the catalog, deduced from the status when omitted
+ */
+export function errorResponse(
+  error: string,
+  status = 400,
+  code: ErrorCode = errorCodeForStatus(status),
+  details?: ErrorDetails,
+  init?: ResponseInit
+) {
+  const body: ApiErrorResponse = details ? { success: false, error, code, details } : { success: false, error, code };
+  return Response.json(body, { ...init, status });
 }
 
-export function forbiddenResponse(error = "Non autorisé") {
-  return Response.json({ success: false, error }, { status: 403 });
+/**
+ * Error response of a catalog code: the status comes from the catalog, the message is generated in the client language
+ * @param details - Structured data returned to the client and used to fill the message
+ */
+export function apiErrorResponse(
+  code: ErrorCode,
+  details?: ErrorDetails,
+  locale: Locale = DEFAULT_LOCALE,
+  init?: ResponseInit
+) {
+  return errorResponse(formatErrorMessage(code, details, locale), ERROR_DEFINITIONS[code].status, code, details, init);
 }
 
-export function notFoundResponse(error = "Ressource non trouvée") {
-  return Response.json({ success: false, error }, { status: 404 });
+export function csvResponse(csv: string, filename: string) {
+  return new Response(csv, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename.replace(/[^\w.-]/g, "_")}"`,
+    },
+  });
 }
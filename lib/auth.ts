@@ -2,6 +2,21 @@ import { NextAuthOptions } from "next-auth"
 import CredentialsProvider from "next-auth/providers/credentials"
 import { compare } from "bcryptjs"
 import { prisma } from "./prisma"
+import { reserveLoginAttempt, recordLoginFailure, recordLoginSuccess } from "./loginThrottle"
+import { getRolePermissions } from "./roles"
+import { formatErrorMessage } from "./errorCodes"
+import { resolveClientIp } from "./clientIp"
+
+// Les permissions de la session web sont relues en base au plus tard après ce délai
+const PERMISSIONS_REFRESH_MS = 5 * 60 * 1000
+
+// Adresse du client d'après les en-têtes bruts transmis par NextAuth (voir TRUST_PROXY)
+function getForwardedIp(headers: Record<string, unknown> | undefined) {
+  return resolveClientIp(name => {
+    const value = headers?.[name]
+    return typeof value === 'string' ? value : null
+  })
+}
 
 export const authOptions: NextAuthOptions = {
   secret: process.env.NEXTAUTH_SECRET,
@@ -12,11 +27,19 @@ export const authOptions: NextAuthOptions = {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" }
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         if (!credentials?.email || !credentials?.password) {
           return null
         }
 
+        const ipAddress = getForwardedIp(req?.headers)
+
+        // Le message de l'erreur est affiché sur la page de connexion
+        const throttle = await reserveLoginAttempt(credentials.email, ipAddress)
+        if (!throttle.allowed) {
+          throw new Error(formatErrorMessage(throttle.code, { retryAfter: throttle.retryAfter }))
+        }
+
         const user = await prisma.user.findUnique({
           where: {
             email: credentials.email
@@ -24,15 +47,23 @@ export const authOptions: NextAuthOptions = {
         })
 
         if (!user) {
+          await recordLoginFailure(credentials.email, ipAddress)
           return null
         }
 
         const isPasswordValid = await compare(credentials.password, user.password)
 
         if (!isPasswordValid) {
+          await recordLoginFailure(credentials.email, ipAddress, user.id)
           return null
         }
 
+        await recordLoginSuccess(credentials.email, ipAddress)
+
+        if (!user.active) {
+          throw new Error(formatErrorMessage('ACCOUNT_DISABLED'))
+        }
+
         return {
           id: user.id,
           email: user.email,
@@ -52,12 +83,31 @@ export const authOptions: NextAuthOptions = {
     async jwt({ token, user }) {
       if (user) {
         token.role = user.role
+        token.permissions = await getRolePermissions(user.role)
+        token.permissionsAt = Date.now()
+        return token
+      }
+
+      // Changement de rôle ou désactivation : pris en compte sans attendre une reconnexion
+      if (!token.permissionsAt || Date.now() - token.permissionsAt > PERMISSIONS_REFRESH_MS) {
+        const current = token.sub
+          ? await prisma.user.findUnique({
+              where: { id: token.sub },
+              select: { role: true, active: true }
+            })
+          : null
+
+        token.role = current?.role ?? token.role
+        token.permissions = current?.active ? await getRolePermissions(current.role) : []
+        token.permissionsAt = Date.now()
       }
       return token
     },
     async session({ session, token }) {
       if (session?.user) {
+        session.user.id = token.sub as string
         session.user.role = token.role as string
+        session.user.permissions = token.permissions ?? []
       }
       return session
     }
@@ -0,0 +1,26 @@
+// Nombre de reverse proxies placés devant l'application (TRUST_PROXY, 0 par défaut)
+// Seules les adresses ajoutées par ces proxies à X-Forwarded-For sont fiables : le début de l'en-tête
+// est écrit par le client, qui peut en changer à chaque requête
+const TRUSTED_PROXIES = Math.max(parseInt(process.env.TRUST_PROXY || '0') || 0, 0)
+
+/**
+ * Resolve the client IP address from the headers set by the trusted reverse proxies
+ * Each trusted proxy appends the address it received the request from, so the client is
+ * the TRUST_PROXY-th entry from the right; anything before it may be forged
+ * @param getHeader - Reads a request header (lower-case name)
+ * @returns IP address, or null when unknown (no trusted proxy configured: the headers are ignored)
+ */
+export function resolveClientIp(getHeader: (name: string) => string | null | undefined): string | null {
+  if (TRUSTED_PROXIES === 0) {
+    return null
+  }
+
+  const forwarded = getHeader('x-forwarded-for')
+  if (forwarded) {
+    const hops = forwarded.split(',').map(hop => hop.trim()).filter(Boolean)
+    return hops[Math.max(hops.length - TRUSTED_PROXIES, 0)] ?? null
+  }
+
+  // X-Real-IP est remplacé (et non complété) par le proxy
+  return getHeader('x-real-ip') || null
+}
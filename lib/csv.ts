@@ -0,0 +1,30 @@
+export type CsvValue = string | number | null | undefined
+
+// Séparateur attendu par Excel en configuration française
+const SEPARATOR = ';'
+
+// Premiers caractères qui font interpréter une cellule comme une formule
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function escapeCsvValue(value: CsvValue) {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  // Texte commençant par = + - @ : exécuté comme formule par Excel (noms, emails saisis par des tiers)
+  // Les nombres restent tels quels, une quantité négative n'est pas une formule
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value)
+  if (/[";\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+/**
+ * Builds a CSV document from a header row and data rows
+ * Prefixed with a UTF-8 BOM so spreadsheet software keeps accents
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]) {
+  const lines = [headers, ...rows].map(row => row.map(escapeCsvValue).join(SEPARATOR))
+  return '\uFEFF' + lines.join('\r\n') + '\r\n'
+}
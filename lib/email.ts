@@ -0,0 +1,91 @@
+import { prisma } from "./prisma"
+import { EmailTransport, getEmailTransport } from "./emailTransports"
+
+interface EmailResult {
+  success: boolean
+  error?: string
+}
+
+// Contrôle de forme uniquement : l'adresse est validée à la saisie du client
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Sends an email notification through the configured transport (EMAIL_TRANSPORT)
+ * @param email - Recipient address
+ * @param subject - Subject line
+ * @param message - Plain text body
+ * @param orderId - Optional order ID for logging purposes
+ * @returns Promise with the result of the email operation
+ */
+export async function envoyerEmailCommande(
+  email: string,
+  subject: string,
+  message: string,
+  orderId?: string
+): Promise<EmailResult> {
+  const emailEnabled = process.env.EMAIL_ENABLED === "true"
+
+  if (!emailEnabled) {
+    console.log("Email disabled. Would have sent:", { email, subject, message })
+    await logEmail(email, subject, message, orderId, true, "Email disabled")
+    return { success: true }
+  }
+
+  let transport: EmailTransport
+  try {
+    transport = getEmailTransport()
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error"
+    console.error(errorMessage)
+    await logEmail(email, subject, message, orderId, false, errorMessage)
+    return { success: false, error: errorMessage }
+  }
+
+  if (!EMAIL_PATTERN.test(email)) {
+    const error = "Invalid email address"
+    console.error(error)
+    await logEmail(email, subject, message, orderId, false, error)
+    return { success: false, error }
+  }
+
+  const result = await transport.send({ to: email, subject, text: message })
+
+  if (!result.success) {
+    console.error(`Error sending email (${transport.name}):`, result.error)
+    await logEmail(email, subject, message, orderId, false, result.error)
+    return { success: false, error: result.error }
+  }
+
+  await logEmail(email, subject, message, orderId, true)
+  console.log(`Email sent successfully (${transport.name}):`, { email, subject })
+
+  return { success: true }
+}
+
+/**
+ * Logs email send attempts to the database
+ */
+async function logEmail(
+  email: string,
+  subject: string,
+  message: string,
+  orderId: string | undefined,
+  success: boolean,
+  errorMessage?: string
+): Promise<void> {
+  try {
+    await prisma.emailLog.create({
+      data: {
+        email,
+        subject,
+        message,
+        orderId,
+        success,
+        errorMessage,
+      },
+    })
+  } catch (error) {
+    console.error("Error logging email to database:", error)
+    // Don't throw - logging failure shouldn't break the main flow
+  }
+}
@@ -0,0 +1,139 @@
+import { appendFile } from "fs/promises"
+import nodemailer from "nodemailer"
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface EmailSendResult {
+  success: boolean
+  error?: string
+}
+
+export interface EmailTransport {
+  name: string
+  send(message: EmailMessage): Promise<EmailSendResult>
+}
+
+export const EMAIL_TRANSPORT_NAMES = ['smtp', 'file', 'console'] as const
+
+export type EmailTransportName = typeof EMAIL_TRANSPORT_NAMES[number]
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : "Unknown error"
+}
+
+/**
+ * SMTP transport (any SMTP-compatible server or relay: OVH, Brevo, Mailgun, Gmail...)
+ */
+export function createSmtpTransport(config: {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  password?: string
+  from: string
+}): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    // Même délai maximum que la passerelle SMS
+    connectionTimeout: 10000,
+    socketTimeout: 10000
+  })
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      try {
+        await transporter.sendMail({
+          from: config.from,
+          to: message.to,
+          subject: message.subject,
+          text: message.text
+        })
+
+        return { success: true }
+      } catch (error) {
+        return { success: false, error: errorMessage(error) }
+      }
+    }
+  }
+}
+
+/**
+ * Development transport: emails are printed to the console and, when a file is given,
+ * appended to it as JSON lines. Nothing leaves the machine.
+ */
+export function createFileTransport(config: { file?: string } = {}): EmailTransport {
+  return {
+    name: config.file ? 'file' : 'console',
+    async send(message) {
+      const email = { ...message, sentAt: new Date().toISOString() }
+
+      if (config.file) {
+        try {
+          await appendFile(config.file, JSON.stringify(email) + "\n")
+        } catch (error) {
+          return { success: false, error: `File transport: ${errorMessage(error)}` }
+        }
+      }
+
+      console.log("Email:", email)
+      return { success: true }
+    }
+  }
+}
+
+let cachedTransport: { key: string; transport: EmailTransport } | null = null
+
+/**
+ * Returns the transport selected by EMAIL_TRANSPORT (console by default)
+ * @throws Error when the selected transport is not configured
+ */
+export function getEmailTransport(): EmailTransport {
+  const name = (process.env.EMAIL_TRANSPORT || 'console') as EmailTransportName
+  const env = process.env
+
+  // Recréé si la configuration change (tests, rechargement des variables)
+  const key = [name, env.SMTP_HOST, env.SMTP_PORT, env.SMTP_SECURE, env.SMTP_USER, env.SMTP_PASSWORD, env.EMAIL_FROM, env.EMAIL_FILE].join('|')
+  if (cachedTransport?.key === key) {
+    return cachedTransport.transport
+  }
+
+  let transport: EmailTransport
+
+  switch (name) {
+    case 'smtp':
+      if (!env.SMTP_HOST || !env.EMAIL_FROM) {
+        throw new Error("SMTP not configured. Please set SMTP_HOST and EMAIL_FROM")
+      }
+      transport = createSmtpTransport({
+        host: env.SMTP_HOST,
+        port: parseInt(env.SMTP_PORT || '587'),
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER || undefined,
+        password: env.SMTP_PASSWORD || undefined,
+        from: env.EMAIL_FROM
+      })
+      break
+    case 'file':
+      if (!env.EMAIL_FILE) {
+        throw new Error("Email file transport not configured. Please set EMAIL_FILE")
+      }
+      transport = createFileTransport({ file: env.EMAIL_FILE })
+      break
+    case 'console':
+      transport = createFileTransport()
+      break
+    default:
+      throw new Error(`Unknown email transport "${name}". Use one of: ${EMAIL_TRANSPORT_NAMES.join(', ')}`)
+  }
+
+  cachedTransport = { key, transport }
+  return transport
+}
@@ -0,0 +1,577 @@
+// Catalogue des codes d'erreur de l'API : le code est stable, le message est généré dans la langue du client
+// Ce module n'accède pas à la base : il est aussi utilisable par les composants client
+export const ERROR_CODES = [
+  // Génériques
+  'VALIDATION_ERROR',
+  'BAD_REQUEST',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'CONFLICT',
+  'TOO_MANY_REQUESTS',
+  'INTERNAL_ERROR',
+  'SERVICE_UNAVAILABLE',
+  // Authentification et sessions
+  'TOKEN_MISSING',
+  'TOKEN_MALFORMED',
+  'TOKEN_INVALID',
+  'TOKEN_EXPIRED',
+  'REFRESH_TOKEN_INVALID',
+  'INVALID_SIGNATURE',
+  'INVALID_CREDENTIALS',
+  'ACCOUNT_DISABLED',
+  'ACCOUNT_LOCKED',
+  'IP_LOCKED',
+  'LOGIN_THROTTLED',
+  'SESSION_NOT_FOUND',
+  'SESSION_REVOKED',
+  'CURRENT_SESSION_UNKNOWN',
+  'CURRENT_PASSWORD_REQUIRED',
+  'CURRENT_PASSWORD_INCORRECT',
+  'NO_CHANGES',
+  // Utilisateurs et rôles
+  'USER_NOT_FOUND',
+  'EMAIL_ALREADY_USED',
+  'UNKNOWN_ROLE',
+  'SELF_DEMOTION',
+  'LAST_ADMIN',
+  'ROLE_NOT_ASSIGNABLE',
+  'USER_NOT_MANAGEABLE',
+  'ROLE_NOT_FOUND',
+  'ROLE_ALREADY_EXISTS',
+  'ADMIN_ROLE_LOCKED',
+  'SYSTEM_ROLE',
+  'ROLE_IN_USE',
+  // Clés d'API
+  'API_KEY_INVALID',
+  'API_KEY_EXPIRED',
+  'API_KEY_NOT_ALLOWED',
+  'API_KEY_NOT_FOUND',
+  'API_KEY_REVOKED',
+  // Produits, stock et lots
+  'PRODUCT_NOT_FOUND',
+  'PRODUCT_HAS_ORDERS',
+  'INSUFFICIENT_STOCK',
+  'LOT_NOT_FOUND',
+  'INSUFFICIENT_LOT_QUANTITY',
+  'LOT_REQUIRED',
+  'WASTE_NOT_FOUND',
+  'WASTE_ALREADY_REVERSED',
+  'INVENTORY_NOT_FOUND',
+  'INVENTORY_ALREADY_OPEN',
+  'INVENTORY_CLOSED',
+  'INVENTORY_EMPTY',
+  // Clients et commandes
+  'CUSTOMER_NOT_FOUND',
+  'CUSTOMER_HAS_OPEN_ORDERS',
+  'CUSTOMER_HAS_ORDERS',
+  'CUSTOMER_UNREACHABLE',
+  'ORDER_NOT_FOUND',
+  'INVALID_STATUS',
+  'INVALID_TRANSITION',
+  'ORDER_STATUS_FINAL',
+  'ORDER_STATUS_CHANGED',
+  // Fournisseurs et bons de commande
+  'SUPPLIER_NOT_FOUND',
+  'SUPPLIER_HAS_PRODUCTS',
+  'PURCHASE_ORDER_NOT_FOUND',
+  'PURCHASE_ORDER_CLOSED',
+  'PURCHASE_ORDER_NOT_CANCELLABLE',
+  'PURCHASE_ORDER_LINE_NOT_FOUND',
+  // Notifications
+  'SMS_NOT_FOUND',
+  'SMS_NOT_FAILED',
+  'SMS_REFUSED',
+  'SMS_ALREADY_RESENT',
+  'SMS_RETRY_PENDING',
+  'OUTBOX_MESSAGE_NOT_FOUND',
+  'OUTBOX_MESSAGE_NOT_RETRYABLE',
+  'CAMPAIGN_NOT_FOUND',
+  'CAMPAIGN_ALREADY_CANCELLED',
+  'CAMPAIGN_NO_RECIPIENTS',
+  'UNKNOWN_PLACEHOLDERS',
+  'NOTIFICATION_NOT_SENT',
+  'NOTIFICATION_FAILED'
+] as const
+
+export type ErrorCode = typeof ERROR_CODES[number]
+
+// Langues des messages d'erreur, la première est celle par défaut
+export const LOCALES = ['fr', 'en'] as const
+
+export type Locale = typeof LOCALES[number]
+
+export const DEFAULT_LOCALE: Locale = 'fr'
+
+// Données structurées de l'erreur, reprises dans le message via {nom}
+export type ErrorDetails = Record<string, string | number | null>
+
+interface ErrorDefinition {
+  status: number
+  messages: Record<Locale, string>
+}
+
+export const ERROR_DEFINITIONS: Record<ErrorCode, ErrorDefinition> = {
+  VALIDATION_ERROR: {
+    status: 400,
+    messages: { fr: 'Données invalides', en: 'Invalid data' }
+  },
+  BAD_REQUEST: {
+    status: 400,
+    messages: { fr: 'Requête invalide', en: 'Bad request' }
+  },
+  UNAUTHORIZED: {
+    status: 401,
+    messages: { fr: 'Non authentifié', en: 'Not authenticated' }
+  },
+  FORBIDDEN: {
+    status: 403,
+    messages: { fr: 'Non autorisé', en: 'Not allowed' }
+  },
+  NOT_FOUND: {
+    status: 404,
+    messages: { fr: 'Ressource non trouvée', en: 'Resource not found' }
+  },
+  CONFLICT: {
+    status: 409,
+    messages: { fr: "Conflit avec l'état actuel de la ressource", en: 'Conflict with the current state of the resource' }
+  },
+  TOO_MANY_REQUESTS: {
+    status: 429,
+    messages: { fr: 'Trop de requêtes', en: 'Too many requests' }
+  },
+  INTERNAL_ERROR: {
+    status: 500,
+    messages: { fr: 'Une erreur est survenue', en: 'An error occurred' }
+  },
+  SERVICE_UNAVAILABLE: {
+    status: 503,
+    messages: { fr: 'Service non configuré', en: 'Service not configured' }
+  },
+  TOKEN_MISSING: {
+    status: 401,
+    messages: { fr: "Token d'authentification manquant", en: 'Missing authentication token' }
+  },
+  TOKEN_MALFORMED: {
+    status: 401,
+    messages: { fr: 'Format de token invalide. Utilisez: Bearer <token>', en: 'Invalid token format. Use: Bearer <token>' }
+  },
+  TOKEN_INVALID: {
+    status: 401,
+    messages: { fr: 'Token invalide', en: 'Invalid token' }
+  },
+  TOKEN_EXPIRED: {
+    status: 401,
+    messages: { fr: 'Token expiré', en: 'Token expired' }
+  },
+  REFRESH_TOKEN_INVALID: {
+    status: 401,
+    messages: { fr: 'Refresh token invalide ou expiré', en: 'Invalid or expired refresh token' }
+  },
+  INVALID_SIGNATURE: {
+    status: 401,
+    messages: { fr: 'Signature invalide', en: 'Invalid signature' }
+  },
+  INVALID_CREDENTIALS: {
+    status: 401,
+    messages: { fr: 'Email ou mot de passe incorrect', en: 'Incorrect email or password' }
+  },
+  ACCOUNT_DISABLED: {
+    status: 403,
+    messages: { fr: 'Compte désactivé, contactez un administrateur', en: 'Account disabled, contact an administrator' }
+  },
+  ACCOUNT_LOCKED: {
+    status: 429,
+    messages: {
+      fr: "Compte temporairement verrouillé après trop d'échecs de connexion (réessayez dans {retryAfter} s)",
+      en: 'Account temporarily locked after too many failed logins (retry in {retryAfter} s)'
+    }
+  },
+  IP_LOCKED: {
+    status: 429,
+    messages: {
+      fr: 'Trop de tentatives de connexion depuis cette adresse (réessayez dans {retryAfter} s)',
+      en: 'Too many login attempts from this address (retry in {retryAfter} s)'
+    }
+  },
+  LOGIN_THROTTLED: {
+    status: 429,
+    messages: {
+      fr: 'Trop de tentatives, patientez avant de réessayer (réessayez dans {retryAfter} s)',
+      en: 'Too many attempts, wait before trying again (retry in {retryAfter} s)'
+    }
+  },
+  SESSION_NOT_FOUND: {
+    status: 404,
+    messages: { fr: 'Session non trouvée', en: 'Session not found' }
+  },
+  SESSION_REVOKED: {
+    status: 401,
+    messages: {
+      fr: 'Session terminée (compte désactivé ou appareil déconnecté), reconnectez-vous',
+      en: 'Session ended (account deactivated or device signed out), please log in again'
+    }
+  },
+  CURRENT_SESSION_UNKNOWN: {
+    status: 400,
+    messages: { fr: 'Session courante inconnue, reconnectez-vous', en: 'Unknown current session, please log in again' }
+  },
+  CURRENT_PASSWORD_REQUIRED: {
+    status: 400,
+    messages: { fr: 'Mot de passe actuel requis', en: 'Current password required' }
+  },
+  CURRENT_PASSWORD_INCORRECT: {
+    status: 400,
+    messages: { fr: 'Mot de passe actuel incorrect', en: 'Incorrect current password' }
+  },
+  NO_CHANGES: {
+    status: 400,
+    messages: { fr: 'Aucune modification fournie', en: 'No changes provided' }
+  },
+  USER_NOT_FOUND: {
+    status: 404,
+    messages: { fr: 'Utilisateur non trouvé', en: 'User not found' }
+  },
+  EMAIL_ALREADY_USED: {
+    status: 409,
+    messages: { fr: 'Un utilisateur existe déjà avec cet email', en: 'A user already exists with this email' }
+  },
+  UNKNOWN_ROLE: {
+    status: 400,
+    messages: { fr: 'Rôle inconnu : {role}', en: 'Unknown role: {role}' }
+  },
+  SELF_DEMOTION: {
+    status: 400,
+    messages: {
+      fr: "Vous ne pouvez pas retirer vos propres droits d'administration ni désactiver votre compte",
+      en: 'You cannot remove your own administration rights or deactivate your own account'
+    }
+  },
+  LAST_ADMIN: {
+    status: 409,
+    messages: { fr: "Impossible : c'est le dernier administrateur actif", en: 'Not possible: this is the last active administrator' }
+  },
+  ROLE_NOT_ASSIGNABLE: {
+    status: 403,
+    messages: {
+      fr: 'Seul un administrateur peut attribuer le rôle {role}',
+      en: 'Only an administrator can assign the role {role}'
+    }
+  },
+  USER_NOT_MANAGEABLE: {
+    status: 403,
+    messages: {
+      fr: 'Ce compte a des droits que vous ne détenez pas : vous ne pouvez pas le modifier',
+      en: 'This account holds rights you do not have: you cannot change it'
+    }
+  },
+  ROLE_NOT_FOUND: {
+    status: 404,
+    messages: { fr: 'Rôle non trouvé : {role}', en: 'Role not found: {role}' }
+  },
+  ROLE_ALREADY_EXISTS: {
+    status: 409,
+    messages: { fr: 'Un rôle existe déjà avec ce nom : {role}', en: 'A role already exists with this name: {role}' }
+  },
+  ADMIN_ROLE_LOCKED: {
+    status: 400,
+    messages: {
+      fr: 'Les permissions du rôle administrateur ne peuvent pas être modifiées',
+      en: 'The permissions of the administrator role cannot be changed'
+    }
+  },
+  SYSTEM_ROLE: {
+    status: 400,
+    messages: {
+      fr: "Les rôles fournis avec l'application ne peuvent pas être supprimés",
+      en: 'Roles shipped with the application cannot be deleted'
+    }
+  },
+  ROLE_IN_USE: {
+    status: 409,
+    messages: {
+      fr: 'Ce rôle est attribué à {users} utilisateur(s)',
+      en: 'This role is assigned to {users} user(s)'
+    }
+  },
+  API_KEY_INVALID: {
+    status: 401,
+    messages: { fr: "Clé d'API invalide ou révoquée", en: 'Invalid or revoked API key' }
+  },
+  API_KEY_EXPIRED: {
+    status: 401,
+    messages: { fr: "Clé d'API expirée", en: 'API key expired' }
+  },
+  API_KEY_NOT_ALLOWED: {
+    status: 403,
+    messages: {
+      fr: "Cette route est réservée aux comptes utilisateurs, les clés d'API n'y ont pas accès",
+      en: 'This route is reserved to user accounts, API keys cannot access it'
+    }
+  },
+  API_KEY_NOT_FOUND: {
+    status: 404,
+    messages: { fr: "Clé d'API introuvable", en: 'API key not found' }
+  },
+  API_KEY_REVOKED: {
+    status: 409,
+    messages: { fr: "Cette clé d'API est déjà révoquée", en: 'This API key is already revoked' }
+  },
+  PRODUCT_NOT_FOUND: {
+    status: 404,
+    messages: { fr: 'Produit {productId} non trouvé', en: 'Product {productId} not found' }
+  },
+  PRODUCT_HAS_ORDERS: {
+    status: 400,
+    messages: {
+      fr: 'Ce produit ne peut pas être supprimé car il est associé à des commandes existantes',
+      en: 'This product cannot be deleted because it belongs to existing orders'
+    }
+  },
+  INSUFFICIENT_STOCK: {
+    status: 400,
+    messages: {
+      fr: 'Stock insuffisant pour {productName}. Disponible: {available}, demandé: {requested}',
+      en: 'Insufficient stock for {productName}. Available: {available}, requested: {requested}'
+    }
+  },
+  LOT_NOT_FOUND: {
+    status: 404,
+    messages: { fr: 'Lot non trouvé', en: 'Lot not found' }
+  },
+  INSUFFICIENT_LOT_QUANTITY: {
+    status: 400,
+    messages: {
+      fr: 'Quantité insuffisante dans le lot {lotNumber}. Restant: {available}, demandé: {requested}',
+      en: 'Insufficient quantity in lot {lotNumber}. Remaining: {available}, requested: {requested}'
+    }
+  },
+  LOT_REQUIRED: {
+    status: 400,
+    messages: {
+      fr: 'Précisez le lot concerné : {openLots} lot(s) en stock pour ce produit, hors lot: {untracked}',
+      en: 'Specify the lot: {openLots} lot(s) in stock for this product, outside any lot: {untracked}'
+    }
+  },
+  WASTE_NOT_FOUND: {
+    status: 404,
+    messages: { fr: 'Perte non trouvée', en: 'Waste record not found' }
+  },
+  WASTE_ALREADY_REVERSED: {
+    status: 409,
+    messages: { fr: 'Cette perte a déjà été annulée', en: 'This waste record has already been reversed' }
+  },
+  INVENTORY_NOT_FOUND: {
+    status: 404,
+    messages: { fr: 'Inventaire non trouvé', en: 'Inventory not found' }
+  },
+  INVENTORY_ALREADY_OPEN: {
+    status: 409,
+    messages: { fr: 'Un inventaire est déjà en cours ({inventoryId})', en: 'An inventory is already in progress ({inventoryId})' }
+  },
+  INVENTORY_CLOSED: {
+    status: 409,
+    messages: { fr: "L'inventaire est clôturé ({status})", en: 'The inventory is closed ({status})' }
+  },
+  INVENTORY_EMPTY: {
+    status: 400,
+    messages: { fr: 'Aucun produit compté dans cet inventaire', en: 'No product has been counted in this inventory' }
+  },
+  CUSTOMER_NOT_FOUND: {
+    status: 404,
+    messages: { fr: 'Client non trouvé', en: 'Customer not found' }
+  },
+  CUSTOMER_HAS_OPEN_ORDERS: {
+    status: 400,
+    messages: {
+      fr: 'Ce client ne peut pas être supprimé car il a des commandes en cours',
+      en: 'This customer cannot be deleted because they have open orders'
+    }
+  },
+  CUSTOMER_HAS_ORDERS: {
+    status: 400,
+    messages: {
+      fr: 'Ce client ne peut pas être supprimé car il a des commandes associées. Vous pouvez archiver le client à la place.',
+      en: 'This customer cannot be deleted because they have orders. You can archive the customer instead.'
+    }
+  },
+  CUSTOMER_UNREACHABLE: {
+    status: 400,
+    messages: { fr: "Le client n'a ni téléphone ni email", en: 'The customer has no phone number nor email' }
+  },
+  ORDER_NOT_FOUND: {
+    status: 404,
+    messages: { fr: 'Commande non trouvée', en: 'Order not found' }
+  },
+  INVALID_STATUS: {
+    status: 400,
+    messages: { fr: 'Statut invalide : {status}', en: 'Invalid status: {status}' }
+  },
+  INVALID_TRANSITION: {
+    status: 409,
+    messages: {
+      fr: 'Transition de statut invalide : {from} → {to}. Statuts possibles : {allowed}',
+      en: 'Invalid status transition: {from} → {to}. Allowed statuses: {allowed}'
+    }
+  },
+  ORDER_STATUS_FINAL: {
+    status: 409,
+    messages: {
+      fr: 'Transition de statut invalide : la commande est au statut final {from}',
+      en: 'Invalid status transition: the order is in the final status {from}'
+    }
+  },
+  ORDER_STATUS_CHANGED: {
+    status: 409,
+    messages: {
+      fr: 'La commande a changé de statut entre-temps, rechargez-la avant de réessayer',
+      en: 'The order status changed in the meantime, reload it before trying again'
+    }
+  },
+  SUPPLIER_NOT_FOUND: {
+    status: 404,
+    messages: { fr: 'Fournisseur non trouvé', en: 'Supplier not found' }
+  },
+  SUPPLIER_HAS_PRODUCTS: {
+    status: 400,
+    messages: {
+      fr: 'Ce fournisseur ne peut pas être supprimé car il a des produits associés',
+      en: 'This supplier cannot be deleted because it has products'
+    }
+  },
+  PURCHASE_ORDER_NOT_FOUND: {
+    status: 404,
+    messages: { fr: 'Bon de commande non trouvé', en: 'Purchase order not found' }
+  },
+  PURCHASE_ORDER_CLOSED: {
+    status: 409,
+    messages: { fr: 'Le bon de commande est déjà clôturé ({status})', en: 'The purchase order is already closed ({status})' }
+  },
+  PURCHASE_ORDER_NOT_CANCELLABLE: {
+    status: 409,
+    messages: {
+      fr: 'Seul un bon de commande sans réception peut être annulé',
+      en: 'Only purchase orders with no reception can be cancelled'
+    }
+  },
+  PURCHASE_ORDER_LINE_NOT_FOUND: {
+    status: 400,
+    messages: {
+      fr: 'Ligne {lineId} introuvable sur ce bon de commande',
+      en: 'Line {lineId} not found on this purchase order'
+    }
+  },
+  SMS_NOT_FOUND: {
+    status: 404,
+    messages: { fr: 'SMS non trouvé', en: 'SMS not found' }
+  },
+  SMS_NOT_FAILED: {
+    status: 409,
+    messages: { fr: 'Seuls les SMS en échec peuvent être renvoyés', en: 'Only failed SMS can be resent' }
+  },
+  SMS_REFUSED: {
+    status: 409,
+    messages: {
+      fr: 'Le client a refusé ce SMS, il ne peut pas être renvoyé',
+      en: 'The customer refused this SMS, it cannot be resent'
+    }
+  },
+  SMS_ALREADY_RESENT: {
+    status: 409,
+    messages: { fr: 'Ce SMS a déjà été renvoyé', en: 'This SMS has already been resent' }
+  },
+  SMS_RETRY_PENDING: {
+    status: 409,
+    messages: {
+      fr: "Ce SMS est encore en file d'envoi, il sera relancé automatiquement",
+      en: 'This SMS is still in the outbox, it will be retried automatically'
+    }
+  },
+  OUTBOX_MESSAGE_NOT_FOUND: {
+    status: 404,
+    messages: { fr: 'Message non trouvé', en: 'Message not found' }
+  },
+  OUTBOX_MESSAGE_NOT_RETRYABLE: {
+    status: 409,
+    messages: {
+      fr: 'Seuls les messages en échec (FAILED, DEAD) hors campagne annulée peuvent être relancés',
+      en: 'Only failed messages (FAILED, DEAD) outside a cancelled campaign can be retried'
+    }
+  },
+  CAMPAIGN_NOT_FOUND: {
+    status: 404,
+    messages: { fr: 'Campagne non trouvée', en: 'Campaign not found' }
+  },
+  CAMPAIGN_ALREADY_CANCELLED: {
+    status: 409,
+    messages: { fr: 'Cette campagne est déjà annulée', en: 'This campaign is already cancelled' }
+  },
+  CAMPAIGN_NO_RECIPIENTS: {
+    status: 400,
+    messages: {
+      fr: 'Aucun client joignable par SMS dans ce segment',
+      en: 'No customer in this segment can be reached by SMS'
+    }
+  },
+  UNKNOWN_PLACEHOLDERS: {
+    status: 400,
+    messages: {
+      fr: 'Variables inconnues : {unknown}. Variables disponibles : {available}',
+      en: 'Unknown placeholders: {unknown}. Available placeholders: {available}'
+    }
+  },
+  NOTIFICATION_NOT_SENT: {
+    status: 400,
+    messages: { fr: 'Notification non envoyée : {reason}', en: 'Notification not sent: {reason}' }
+  },
+  NOTIFICATION_FAILED: {
+    status: 500,
+    messages: {
+      fr: "Échec de l'envoi ({reason}), nouvel essai programmé",
+      en: 'Sending failed ({reason}), queued for retry'
+    }
+  }
+}
+
+export function isErrorCode(value: string): value is ErrorCode {
+  return (ERROR_CODES as readonly string[]).includes(value)
+}
+
+/**
+ * Builds the message of an error code in the given language, filling the {placeholders} from the details
+ */
+export function formatErrorMessage(code: ErrorCode, details: ErrorDetails = {}, locale: Locale = DEFAULT_LOCALE) {
+  return ERROR_DEFINITIONS[code].messages[locale].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    details[name] !== undefined && details[name] !== null ? String(details[name]) : placeholder
+  )
+}
+
+/**
+ * Picks the message language from an Accept-Language header ("en-GB,en;q=0.9,fr;q=0.8")
+ * Languages are taken in the order of the header; the quality values are not compared
+ */
+export function resolveLocale(acceptLanguage: string | null | undefined): Locale {
+  for (const range of (acceptLanguage ?? '').split(',')) {
+    const language = range.split(';')[0].trim().slice(0, 2).toLowerCase()
+    const locale = LOCALES.find(candidate => candidate === language)
+    if (locale) {
+      return locale
+    }
+  }
+
+  return DEFAULT_LOCALE
+}
+
+/**
+ * Error thrown from a route or a helper and turned into the error envelope by createHandler
+ */
+export function apiError(code: ErrorCode, details?: ErrorDetails) {
+  const error = new Error(code) as Error & { code: ErrorCode; details?: ErrorDetails }
+  error.code = code
+  error.details = details
+  return error
+}
+
+export function isApiError(error: unknown): error is Error & { code: ErrorCode; details?: ErrorDetails } {
+  return error instanceof Error && 'code' in error && typeof error.code === 'string' && isErrorCode(error.code)
+}
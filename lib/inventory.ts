@@ -0,0 +1,323 @@
+import { prisma } from "./prisma"
+import { applyStockMovement } from "./stock"
+import { consumeLots } from "./lots"
+import { ErrorCode, ErrorDetails } from "./errorCodes"
+
+// Statuts d'une session d'inventaire
+export const INVENTORY_STATUSES = [
+  'OPEN',
+  'VALIDATED',
+  'CANCELLED'
+] as const
+
+export type InventoryStatus = typeof INVENTORY_STATUSES[number]
+
+// Écart ignoré à la validation (arrondis de pesée)
+const VARIANCE_TOLERANCE = 0.001
+
+export const inventorySessionInclude = {
+  openedBy: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  validatedBy: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  lines: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          unit: true,
+          stock: true,
+          price: true
+        }
+      },
+      countedBy: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    },
+    orderBy: {
+      countedAt: 'asc' as const
+    }
+  }
+}
+
+interface InventorySessionWithRelations {
+  id: string
+  status: string
+  notes: string | null
+  openedAt: Date
+  validatedAt: Date | null
+  openedBy: { id: string; name: string } | null
+  validatedBy: { id: string; name: string } | null
+  lines: {
+    id: string
+    productId: string
+    product: { id: string; name: string; unit: string; stock: number; price: number }
+    countedQuantity: number
+    expectedStock: number | null
+    variance: number | null
+    countedBy: { id: string; name: string } | null
+    countedAt: Date
+  }[]
+}
+
+type InventoryResult =
+  | { success: true; data: InventorySessionWithRelations }
+  | { success: false; code: ErrorCode; details?: ErrorDetails }
+
+function round(value: number) {
+  return Math.round(value * 1000) / 1000
+}
+
+/**
+ * Formats an inventory session for API responses
+ * While the session is open, variances are computed against the current Product.stock;
+ * once validated, the stock snapshot taken at validation is used
+ */
+export function formatInventorySession(session: InventorySessionWithRelations) {
+  const lines = session.lines.map(line => {
+    const expectedStock = line.expectedStock ?? line.product.stock
+    const variance = line.variance ?? round(line.countedQuantity - expectedStock)
+
+    return {
+      id: line.id,
+      productId: line.productId,
+      productName: line.product.name,
+      productUnit: line.product.unit,
+      countedQuantity: line.countedQuantity,
+      expectedStock,
+      variance,
+      varianceValue: Math.round(variance * line.product.price * 100) / 100,
+      countedBy: line.countedBy,
+      countedAt: line.countedAt.toISOString()
+    }
+  })
+
+  return {
+    id: session.id,
+    status: session.status,
+    notes: session.notes,
+    openedAt: session.openedAt.toISOString(),
+    openedBy: session.openedBy,
+    validatedAt: session.validatedAt?.toISOString() ?? null,
+    validatedBy: session.validatedBy,
+    countedProducts: lines.length,
+    productsWithVariance: lines.filter(line => Math.abs(line.variance) >= VARIANCE_TOLERANCE).length,
+    totalVarianceValue: Math.round(lines.reduce((sum, line) => sum + line.varianceValue, 0) * 100) / 100,
+    lines
+  }
+}
+
+/**
+ * Opens a new count session. Only one session can be open at a time.
+ * @param userId - User opening the count
+ * @param notes - Optional notes (zone counted, etc.)
+ */
+export async function openInventorySession(
+  userId?: string | null,
+  notes?: string
+): Promise<InventoryResult> {
+  const openSession = await prisma.inventorySession.findFirst({
+    where: { status: 'OPEN' },
+    select: { id: true }
+  })
+
+  if (openSession) {
+    return { success: false, code: 'INVENTORY_ALREADY_OPEN', details: { inventoryId: openSession.id } }
+  }
+
+  const session = await prisma.inventorySession.create({
+    data: {
+      openedById: userId ?? null,
+      notes: notes || null
+    },
+    include: inventorySessionInclude
+  })
+
+  return { success: true, data: session }
+}
+
+/**
+ * Records counted quantities in an open session (a new count replaces the previous one)
+ * @param sessionId - Open inventory session
+ * @param counts - Counted quantity per product
+ * @param userId - User who counted
+ */
+export async function recordInventoryCounts(
+  sessionId: string,
+  counts: { productId: string; countedQuantity: number }[],
+  userId?: string | null
+): Promise<InventoryResult> {
+  const session = await prisma.inventorySession.findUnique({
+    where: { id: sessionId },
+    select: { id: true, status: true }
+  })
+
+  if (!session) {
+    return { success: false, code: 'INVENTORY_NOT_FOUND', details: { inventoryId: sessionId } }
+  }
+
+  if (session.status !== 'OPEN') {
+    return { success: false, code: 'INVENTORY_CLOSED', details: { inventoryId: session.id, status: session.status } }
+  }
+
+  const productIds = counts.map(count => count.productId)
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds } },
+    select: { id: true }
+  })
+
+  const missing = productIds.find(id => !products.some(product => product.id === id))
+  if (missing) {
+    return { success: false, code: 'PRODUCT_NOT_FOUND', details: { productId: missing } }
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    for (const count of counts) {
+      await tx.inventoryCountLine.upsert({
+        where: {
+          sessionId_productId: {
+            sessionId,
+            productId: count.productId
+          }
+        },
+        create: {
+          sessionId,
+          productId: count.productId,
+          countedQuantity: count.countedQuantity,
+          countedById: userId ?? null
+        },
+        update: {
+          countedQuantity: count.countedQuantity,
+          countedById: userId ?? null,
+          countedAt: new Date()
+        }
+      })
+    }
+
+    return tx.inventorySession.findUniqueOrThrow({
+      where: { id: sessionId },
+      include: inventorySessionInclude
+    })
+  })
+
+  return { success: true, data: updated }
+}
+
+/**
+ * Validates a session: snapshots the expected stock of each counted product and applies
+ * the variance as a stock adjustment, all in one transaction
+ * A shortfall is also taken out of the lots (FEFO) so they keep matching the stock; a surplus
+ * has no known origin and stays outside any lot, like stock entered before lot tracking
+ * @param sessionId - Open inventory session
+ * @param userId - Admin validating the count
+ */
+export async function validateInventorySession(
+  sessionId: string,
+  userId?: string | null
+): Promise<InventoryResult> {
+  const session = await prisma.inventorySession.findUnique({
+    where: { id: sessionId },
+    include: { lines: true }
+  })
+
+  if (!session) {
+    return { success: false, code: 'INVENTORY_NOT_FOUND', details: { inventoryId: sessionId } }
+  }
+
+  if (session.status !== 'OPEN') {
+    return { success: false, code: 'INVENTORY_CLOSED', details: { inventoryId: session.id, status: session.status } }
+  }
+
+  if (session.lines.length === 0) {
+    return { success: false, code: 'INVENTORY_EMPTY', details: { inventoryId: session.id } }
+  }
+
+  const validated = await prisma.$transaction(async (tx) => {
+    for (const line of session.lines) {
+      // Stock relu dans la transaction : les ventes faites pendant le comptage sont prises en compte
+      const product = await tx.product.findUniqueOrThrow({
+        where: { id: line.productId },
+        select: { stock: true }
+      })
+
+      const variance = round(line.countedQuantity - product.stock)
+
+      await tx.inventoryCountLine.update({
+        where: { id: line.id },
+        data: {
+          expectedStock: product.stock,
+          variance
+        }
+      })
+
+      if (Math.abs(variance) >= VARIANCE_TOLERANCE) {
+        await applyStockMovement(tx, {
+          productId: line.productId,
+          type: 'ADJUSTMENT',
+          quantity: variance,
+          inventorySessionId: sessionId,
+          userId,
+          note: 'Inventaire'
+        })
+
+        if (variance < 0) {
+          await consumeLots(tx, line.productId, -variance)
+        }
+      }
+    }
+
+    return tx.inventorySession.update({
+      where: { id: sessionId },
+      data: {
+        status: 'VALIDATED',
+        validatedById: userId ?? null,
+        validatedAt: new Date()
+      },
+      include: inventorySessionInclude
+    })
+  })
+
+  return { success: true, data: validated }
+}
+
+/**
+ * Variance history of a product over validated inventories, most recent first
+ */
+export async function getProductVarianceHistory(productId: string, take = 30) {
+  const lines = await prisma.inventoryCountLine.findMany({
+    where: {
+      productId,
+      session: { status: 'VALIDATED' }
+    },
+    include: {
+      session: {
+        select: {
+          id: true,
+          validatedAt: true
+        }
+      }
+    },
+    orderBy: { countedAt: 'desc' },
+    take
+  })
+
+  return lines.map(line => ({
+    sessionId: line.session.id,
+    validatedAt: line.session.validatedAt?.toISOString() ?? null,
+    countedQuantity: line.countedQuantity,
+    expectedStock: line.expectedStock,
+    variance: line.variance
+  }))
+}
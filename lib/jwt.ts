@@ -1,6 +1,7 @@
 import jwt, { Secret } from 'jsonwebtoken'
 import crypto from 'crypto'
 import { JwtPayload } from '@/types/api'
+import { apiError } from '@/lib/errorCodes'
 
 // Get JWT configuration from environment variables
 // JWT_SECRET is required and must be set in production
@@ -16,13 +17,23 @@ const REFRESH_TOKEN_EXPIRES_IN = process.env.REFRESH_TOKEN_EXPIRES_IN || '7d'
  * @param userId - User ID
  * @param email - User email
  * @param role - User role
+ * @param permissions - Permissions resolved from the role, checked by the routes without a database hit
+ * @param sessionId - Session (refresh token family) the token is issued for
  * @returns JWT token string
  */
-export function generateAccessToken(userId: string, email: string, role: string): string {
+export function generateAccessToken(
+  userId: string,
+  email: string,
+  role: string,
+  permissions: string[],
+  sessionId?: string
+): string {
   const payload = {
     userId,
     email,
-    role
+    role,
+    permissions,
+    sessionId
   }
 
   // Note: Type assertion needed due to TypeScript strict type checking with jwt.sign
@@ -43,20 +54,18 @@ export function generateRefreshToken(): string {
  * Verify and decode an access token (JWT)
  * @param token - JWT token to verify
  * @returns Decoded JWT payload
- * @throws Error if token is invalid or expired
+ * @throws apiError TOKEN_EXPIRED or TOKEN_INVALID
  */
 export function verifyAccessToken(token: string): JwtPayload {
   try {
     const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload
     return decoded
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      throw new Error('Token invalide')
-    }
+    // TokenExpiredError hérite de JsonWebTokenError : à tester en premier
     if (error instanceof jwt.TokenExpiredError) {
-      throw new Error('Token expiré')
+      throw apiError('TOKEN_EXPIRED')
     }
-    throw new Error('Erreur de vérification du token')
+    throw apiError('TOKEN_INVALID')
   }
 }
 
@@ -0,0 +1,307 @@
+import { prisma } from "./prisma"
+import { ErrorCode } from "./errorCodes"
+
+// Actions du journal de sécurité
+export const AUTH_AUDIT_ACTIONS = [
+  'ACCOUNT_LOCKED',
+  'IP_LOCKED',
+  'ACCOUNT_UNLOCKED'
+] as const
+
+export type AuthAuditAction = typeof AUTH_AUDIT_ACTIONS[number]
+
+export interface LoginAttemptRecord {
+  // Échecs, tentatives en cours comprises (réservées avant la vérification du mot de passe)
+  failures: number
+  lastFailureAt: number
+  lockedUntil: number | null
+}
+
+/**
+ * Storage of failed attempts. The default one lives in the process memory: with several
+ * instances behind a load balancer, plug a shared store (Redis, database) with setLoginAttemptStore()
+ */
+export interface LoginAttemptStore {
+  name: string
+  get(key: string): Promise<LoginAttemptRecord | null>
+  // ttlMs : durée après laquelle l'entrée peut être oubliée
+  set(key: string, record: LoginAttemptRecord, ttlMs: number): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+type LoginCheckResult =
+  | { allowed: true }
+  | { allowed: false; code: ErrorCode; retryAfter: number }
+
+// Au-delà de ce nombre d'entrées, les entrées expirées sont purgées à l'écriture
+const MEMORY_STORE_PURGE_SIZE = 1000
+
+// Délai progressif : 1 s après le 2e échec, doublé à chaque échec, 30 s au plus
+const DELAY_BASE_MS = 1000
+const DELAY_MAX_MS = 30 * 1000
+const DELAY_FROM_FAILURES = 2
+
+/**
+ * In-process store (default). Entries disappear with the process
+ */
+export function createMemoryLoginAttemptStore(): LoginAttemptStore {
+  const entries = new Map<string, { record: LoginAttemptRecord; expiresAt: number }>()
+
+  return {
+    name: 'memory',
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry) {
+        return null
+      }
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return null
+      }
+      return entry.record
+    },
+    async set(key, record, ttlMs) {
+      if (entries.size > MEMORY_STORE_PURGE_SIZE) {
+        const now = Date.now()
+        for (const [entryKey, entry] of entries) {
+          if (entry.expiresAt <= now) {
+            entries.delete(entryKey)
+          }
+        }
+      }
+      entries.set(key, { record, expiresAt: Date.now() + ttlMs })
+    },
+    async delete(key) {
+      entries.delete(key)
+    }
+  }
+}
+
+let store: LoginAttemptStore = createMemoryLoginAttemptStore()
+
+// Réservations en cours par compte : vérification et comptage d'une tentative ne s'entrelacent pas
+const reservations = new Map<string, Promise<unknown>>()
+
+/**
+ * Replaces the attempt store (shared store for multi-instance deployments, tests)
+ */
+export function setLoginAttemptStore(next: LoginAttemptStore) {
+  store = next
+}
+
+/**
+ * Thresholds read from the environment
+ */
+export function getLoginThrottleConfig() {
+  return {
+    // Échecs successifs avant verrouillage du compte
+    maxAccountFailures: parseInt(process.env.LOGIN_MAX_FAILURES || '5'),
+    // Plus élevé pour une IP : toute l'équipe de la boutique peut partager la même
+    maxIpFailures: parseInt(process.env.LOGIN_MAX_IP_FAILURES || '20'),
+    lockoutMs: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15') * 60 * 1000
+  }
+}
+
+function accountKey(email: string) {
+  return `account:${email.trim().toLowerCase()}`
+}
+
+function ipKey(ipAddress: string) {
+  return `ip:${ipAddress}`
+}
+
+/**
+ * Waiting time imposed after a number of failures (progressive delay)
+ */
+export function computeLoginDelay(failures: number) {
+  if (failures < DELAY_FROM_FAILURES) {
+    return 0
+  }
+  return Math.min(DELAY_BASE_MS * 2 ** (failures - DELAY_FROM_FAILURES), DELAY_MAX_MS)
+}
+
+function blocked(code: ErrorCode, until: number, now: number): LoginCheckResult {
+  return { allowed: false, code, retryAfter: Math.ceil((until - now) / 1000) }
+}
+
+/**
+ * Tells whether a login attempt may be checked, before looking at the password, and reserves it
+ * Locked accounts and IPs are refused, as well as attempts made before the progressive delay is over.
+ * An allowed attempt is counted as a failure right away, so guesses sent in parallel cannot all pass
+ * the delay while the password is being compared: recordLoginSuccess() gives it back
+ * @param ipAddress - Client IP, null when unknown (only the account is checked)
+ */
+export async function reserveLoginAttempt(email: string, ipAddress: string | null): Promise<LoginCheckResult> {
+  const key = accountKey(email)
+  // Une réservation précédente en erreur ne bloque pas les suivantes
+  const previous = (reservations.get(key) ?? Promise.resolve()).catch(() => undefined)
+  const reservation = previous.then(() => checkAndCountAttempt(email, ipAddress))
+
+  reservations.set(key, reservation)
+  try {
+    return await reservation
+  } finally {
+    if (reservations.get(key) === reservation) {
+      reservations.delete(key)
+    }
+  }
+}
+
+async function checkAndCountAttempt(email: string, ipAddress: string | null): Promise<LoginCheckResult> {
+  const now = Date.now()
+  const account = await store.get(accountKey(email))
+
+  if (account?.lockedUntil && account.lockedUntil > now) {
+    return blocked('ACCOUNT_LOCKED', account.lockedUntil, now)
+  }
+
+  if (ipAddress) {
+    const ip = await store.get(ipKey(ipAddress))
+    if (ip?.lockedUntil && ip.lockedUntil > now) {
+      return blocked('IP_LOCKED', ip.lockedUntil, now)
+    }
+  }
+
+  if (account) {
+    const nextAttemptAt = account.lastFailureAt + computeLoginDelay(account.failures)
+    if (nextAttemptAt > now) {
+      return blocked('LOGIN_THROTTLED', nextAttemptAt, now)
+    }
+  }
+
+  const { lockoutMs } = getLoginThrottleConfig()
+
+  await incrementFailures(accountKey(email), lockoutMs)
+  if (ipAddress) {
+    await incrementFailures(ipKey(ipAddress), lockoutMs)
+  }
+
+  return { allowed: true }
+}
+
+/**
+ * Confirms a reserved attempt as failed, and locks the account and the IP past the thresholds
+ * Unknown emails are counted too, so the answer does not reveal whether an account exists
+ * @param userId - Account matching the email, if any (for the audit log)
+ */
+export async function recordLoginFailure(email: string, ipAddress: string | null, userId?: string | null) {
+  const config = getLoginThrottleConfig()
+
+  const account = await lockIfExceeded(accountKey(email), config.maxAccountFailures, config.lockoutMs)
+  if (account.justLocked) {
+    console.warn(`Account ${email} locked after ${account.failures} failed logins`)
+    await logAuthEvent('ACCOUNT_LOCKED', {
+      email,
+      ipAddress,
+      userId,
+      details: `${account.failures} échecs de connexion`
+    })
+  }
+
+  if (ipAddress) {
+    const ip = await lockIfExceeded(ipKey(ipAddress), config.maxIpFailures, config.lockoutMs)
+    if (ip.justLocked) {
+      console.warn(`IP ${ipAddress} locked after ${ip.failures} failed logins`)
+      await logAuthEvent('IP_LOCKED', {
+        email,
+        ipAddress,
+        userId,
+        details: `${ip.failures} échecs de connexion`
+      })
+    }
+  }
+}
+
+/**
+ * Clears the failures of an account after a successful login, and gives back the attempt
+ * reserved on the IP (its earlier failures are kept)
+ */
+export async function recordLoginSuccess(email: string, ipAddress: string | null) {
+  await store.delete(accountKey(email))
+
+  if (ipAddress) {
+    const key = ipKey(ipAddress)
+    const ip = await store.get(key)
+    if (ip && ip.failures > 0) {
+      await store.set(key, { ...ip, failures: ip.failures - 1 }, getLoginThrottleConfig().lockoutMs)
+    }
+  }
+}
+
+/**
+ * Unlocks an account before the end of its lockout (ADMIN action, audited)
+ * @returns Whether the account was locked
+ */
+export async function unlockAccount(user: { id: string; email: string }, actorId: string) {
+  const key = accountKey(user.email)
+  const record = await store.get(key)
+  const wasLocked = Boolean(record?.lockedUntil && record.lockedUntil > Date.now())
+
+  await store.delete(key)
+
+  if (record) {
+    await logAuthEvent('ACCOUNT_UNLOCKED', {
+      email: user.email,
+      userId: user.id,
+      actorId,
+      details: wasLocked ? null : `${record.failures} échec(s) effacé(s)`
+    })
+  }
+
+  return wasLocked
+}
+
+async function incrementFailures(key: string, lockoutMs: number) {
+  const now = Date.now()
+  const previous = await store.get(key)
+
+  // L'entrée expire avec le verrouillage : les compteurs repartent de zéro ensuite
+  await store.set(key, {
+    failures: (previous?.failures ?? 0) + 1,
+    lastFailureAt: now,
+    lockedUntil: previous?.lockedUntil ?? null
+  }, lockoutMs)
+}
+
+async function lockIfExceeded(key: string, maxFailures: number, lockoutMs: number) {
+  const now = Date.now()
+  const record = await store.get(key)
+  const failures = record?.failures ?? 0
+  const justLocked = record !== null && failures >= maxFailures && !(record.lockedUntil && record.lockedUntil > now)
+
+  if (record && justLocked) {
+    await store.set(key, { ...record, lockedUntil: now + lockoutMs }, lockoutMs)
+  }
+
+  return { failures, justLocked }
+}
+
+/**
+ * Writes an entry in the authentication audit log
+ */
+async function logAuthEvent(
+  action: AuthAuditAction,
+  entry: {
+    email?: string | null
+    ipAddress?: string | null
+    userId?: string | null
+    actorId?: string | null
+    details?: string | null
+  }
+) {
+  try {
+    await prisma.authAuditLog.create({
+      data: {
+        action,
+        email: entry.email ?? null,
+        ipAddress: entry.ipAddress ?? null,
+        userId: entry.userId ?? null,
+        actorId: entry.actorId ?? null,
+        details: entry.details ?? null
+      }
+    })
+  } catch (error) {
+    console.error("Error logging auth event to database:", error)
+    // Don't throw - logging failure shouldn't block the login flow
+  }
+}
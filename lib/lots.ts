@@ -0,0 +1,256 @@
+import { Prisma } from "@prisma/client"
+import { prisma } from "./prisma"
+
+interface LotInput {
+  productId: string
+  quantity: number
+  lotNumber?: string | null
+  supplierId?: string | null
+  receptionId?: string | null
+  catchDate?: Date | null
+  useByDate?: Date | null
+}
+
+interface LotAllocationInput {
+  orderItemId: string
+  productId: string
+  quantity: number
+}
+
+// Quantité en dessous de laquelle un lot est considéré comme vide (arrondis sur les Float)
+const EMPTY_LOT_THRESHOLD = 0.001
+
+export const lotInclude = {
+  product: {
+    select: {
+      id: true,
+      name: true,
+      unit: true
+    }
+  },
+  supplier: {
+    select: {
+      id: true,
+      name: true
+    }
+  }
+}
+
+interface LotWithRelations {
+  id: string
+  lotNumber: string
+  product: { id: string; name: string; unit: string }
+  supplier: { id: string; name: string } | null
+  receptionId: string | null
+  catchDate: Date | null
+  receptionDate: Date
+  useByDate: Date | null
+  initialQuantity: number
+  remainingQuantity: number
+}
+
+/**
+ * Builds a default lot number from the reception date (LOT-YYYYMMDD-XXXX)
+ */
+export function generateLotNumber(date: Date = new Date()) {
+  const day = date.toISOString().slice(0, 10).replace(/-/g, '')
+  const suffix = Math.random().toString(36).slice(2, 6).toUpperCase()
+  return `LOT-${day}-${suffix}`
+}
+
+/**
+ * Creates a lot for a quantity entering stock
+ * The stock itself is updated separately through the ledger (see applyStockMovement)
+ * @param tx - Prisma transaction client
+ * @param lot - Lot details
+ */
+export async function createLot(tx: Prisma.TransactionClient, lot: LotInput) {
+  const receptionDate = new Date()
+
+  return tx.productLot.create({
+    data: {
+      lotNumber: lot.lotNumber || generateLotNumber(receptionDate),
+      productId: lot.productId,
+      supplierId: lot.supplierId ?? null,
+      receptionId: lot.receptionId ?? null,
+      catchDate: lot.catchDate ?? null,
+      receptionDate,
+      useByDate: lot.useByDate ?? null,
+      initialQuantity: lot.quantity,
+      remainingQuantity: lot.quantity
+    }
+  })
+}
+
+// Lots non vides d'un produit, dans l'ordre FEFO (DLC la plus proche d'abord, lots sans DLC en dernier)
+function findFefoLots(tx: Prisma.TransactionClient, productId: string) {
+  return tx.productLot.findMany({
+    where: {
+      productId,
+      remainingQuantity: { gt: EMPTY_LOT_THRESHOLD }
+    },
+    orderBy: [
+      { useByDate: { sort: 'asc', nulls: 'last' } },
+      { receptionDate: 'asc' }
+    ]
+  })
+}
+
+/**
+ * Allocates an order item quantity to the product lots, first-expired-first-out
+ * Lots without use-by date are consumed last. Quantity not covered by any lot
+ * (stock entered before lot tracking) is left unallocated.
+ * @param tx - Prisma transaction client of the order creation
+ * @param allocation - Order item and quantity to allocate
+ * @returns The created allocations
+ */
+export async function allocateLots(
+  tx: Prisma.TransactionClient,
+  allocation: LotAllocationInput
+) {
+  const lots = await findFefoLots(tx, allocation.productId)
+
+  const allocations: { lotId: string; lotNumber: string; quantity: number }[] = []
+  let remaining = allocation.quantity
+
+  for (const lot of lots) {
+    if (remaining <= EMPTY_LOT_THRESHOLD) {
+      break
+    }
+
+    const quantity = Math.round(Math.min(remaining, lot.remainingQuantity) * 1000) / 1000
+
+    await tx.productLot.update({
+      where: { id: lot.id },
+      data: {
+        remainingQuantity: {
+          decrement: quantity
+        }
+      }
+    })
+
+    await tx.orderItemLot.create({
+      data: {
+        orderItemId: allocation.orderItemId,
+        lotId: lot.id,
+        quantity
+      }
+    })
+
+    allocations.push({ lotId: lot.id, lotNumber: lot.lotNumber, quantity })
+    remaining -= quantity
+  }
+
+  return allocations
+}
+
+/**
+ * Takes a quantity missing from stock out of the product lots, first-expired-first-out,
+ * without linking it to an order (inventory shortfall, manual stock decrease)
+ * Quantity beyond what the lots hold is stock outside any lot and leaves the lots untouched
+ * @param tx - Prisma transaction client of the stock adjustment
+ * @returns The quantity taken from each lot
+ */
+export async function consumeLots(tx: Prisma.TransactionClient, productId: string, quantity: number) {
+  const lots = await findFefoLots(tx, productId)
+
+  const consumed: { lotId: string; lotNumber: string; quantity: number }[] = []
+  let remaining = quantity
+
+  for (const lot of lots) {
+    if (remaining <= EMPTY_LOT_THRESHOLD) {
+      break
+    }
+
+    const taken = Math.round(Math.min(remaining, lot.remainingQuantity) * 1000) / 1000
+
+    await tx.productLot.update({
+      where: { id: lot.id },
+      data: {
+        remainingQuantity: {
+          decrement: taken
+        }
+      }
+    })
+
+    consumed.push({ lotId: lot.id, lotNumber: lot.lotNumber, quantity: taken })
+    remaining -= taken
+  }
+
+  return consumed
+}
+
+/**
+ * Gives back to their lots the quantities allocated to an order (cancellation or deletion)
+ * @param tx - Prisma transaction client of the cancellation
+ * @param orderId - Order whose allocations are released
+ */
+export async function releaseLots(tx: Prisma.TransactionClient, orderId: string) {
+  const allocations = await tx.orderItemLot.findMany({
+    where: {
+      orderItem: { orderId }
+    }
+  })
+
+  for (const allocation of allocations) {
+    await tx.productLot.update({
+      where: { id: allocation.lotId },
+      data: {
+        remainingQuantity: {
+          increment: allocation.quantity
+        }
+      }
+    })
+  }
+
+  await tx.orderItemLot.deleteMany({
+    where: {
+      id: { in: allocations.map(allocation => allocation.id) }
+    }
+  })
+}
+
+/**
+ * Lists non-empty lots whose use-by date falls within the next days (already expired lots included)
+ * @param days - Horizon in days
+ */
+export async function getExpiringLots(days: number) {
+  const limit = new Date()
+  limit.setDate(limit.getDate() + days)
+
+  const lots = await prisma.productLot.findMany({
+    where: {
+      remainingQuantity: { gt: EMPTY_LOT_THRESHOLD },
+      useByDate: { lte: limit }
+    },
+    include: lotInclude,
+    orderBy: { useByDate: 'asc' }
+  })
+
+  return lots.map(formatLot)
+}
+
+/**
+ * Formats a lot for API responses
+ */
+export function formatLot(lot: LotWithRelations) {
+  const now = Date.now()
+  const daysLeft = lot.useByDate
+    ? Math.ceil((lot.useByDate.getTime() - now) / (24 * 60 * 60 * 1000))
+    : null
+
+  return {
+    id: lot.id,
+    lotNumber: lot.lotNumber,
+    product: lot.product,
+    supplier: lot.supplier,
+    receptionId: lot.receptionId,
+    catchDate: lot.catchDate?.toISOString() ?? null,
+    receptionDate: lot.receptionDate.toISOString(),
+    useByDate: lot.useByDate?.toISOString() ?? null,
+    initialQuantity: lot.initialQuantity,
+    remainingQuantity: Math.round(lot.remainingQuantity * 1000) / 1000,
+    daysLeft,
+    expired: lot.useByDate !== null && lot.useByDate.getTime() < now
+  }
+}
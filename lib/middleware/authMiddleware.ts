@@ -1,70 +1,68 @@
 import { NextRequest } from 'next/server'
 import { verifyAccessToken } from '@/lib/jwt'
+import { apiError } from '@/lib/errorCodes'
+import { getRolePermissions } from '@/lib/roles'
+import { authenticateApiKey, isApiKey } from '@/lib/apiKeys'
+import { isAccessTokenActive } from '@/lib/sessions'
+import { resolveClientIp } from '@/lib/clientIp'
 import { AuthUser } from '@/types/api'
 
 /**
  * Verify authentication token from request headers
+ * The bearer token is either a user JWT or an API key (kp_ prefix) of an integration
  * @param request - Next.js request object
  * @returns Authenticated user information
- * @throws Error with status code if authentication fails
+ * @throws apiError with a TOKEN_*, API_KEY_* or SESSION_REVOKED code if authentication fails
  */
 export async function verifyAuthToken(request: NextRequest): Promise<AuthUser> {
   // Extract Authorization header
   const authHeader = request.headers.get('authorization')
   
   if (!authHeader) {
-    const error = new Error('Token d\'authentification manquant') as Error & { status?: number }
-    error.status = 401
-    throw error
+    throw apiError('TOKEN_MISSING')
   }
 
   // Check if it's a Bearer token
   if (!authHeader.startsWith('Bearer ')) {
-    const error = new Error('Format de token invalide. Utilisez: Bearer <token>') as Error & { status?: number }
-    error.status = 401
-    throw error
+    throw apiError('TOKEN_MALFORMED')
   }
 
   // Extract the token
   const token = authHeader.substring(7) // Remove "Bearer " prefix
 
   if (!token) {
-    const error = new Error('Token d\'authentification manquant') as Error & { status?: number }
-    error.status = 401
-    throw error
+    throw apiError('TOKEN_MISSING')
   }
 
-  try {
-    // Verify and decode the JWT
-    const payload = verifyAccessToken(token)
-    
-    // Return user information
-    return {
-      userId: payload.userId,
-      email: payload.email,
-      role: payload.role
-    }
-  } catch (error) {
-    const authError = new Error(
-      error instanceof Error ? error.message : 'Token invalide'
-    ) as Error & { status?: number }
-    authError.status = 401
-    throw authError
+  // Clé d'API d'une intégration : vérifiée en base, contrairement aux JWT
+  if (isApiKey(token)) {
+    return authenticateApiKey(token, getClientIp(request))
+  }
+
+  // Verify and decode the JWT (throws TOKEN_EXPIRED or TOKEN_INVALID)
+  const payload = verifyAccessToken(token)
+
+  // Compte désactivé ou appareil déconnecté depuis l'émission du token : refusé sans attendre son expiration
+  if (!await isAccessTokenActive(payload.userId, payload.sessionId)) {
+    throw apiError('SESSION_REVOKED')
+  }
+
+  // Return user information
+  return {
+    userId: payload.userId,
+    email: payload.email,
+    role: payload.role,
+    // Tokens émis avant l'introduction des permissions : résolution depuis la base
+    permissions: payload.permissions ?? await getRolePermissions(payload.role),
+    sessionId: payload.sessionId
   }
 }
 
 /**
- * Check if user has required role
- * @param user - Authenticated user
- * @param allowedRoles - Array of allowed roles
- * @returns True if user has required role
- * @throws Error if user doesn't have required role
+ * Get the client IP address, as forwarded by the trusted reverse proxies (TRUST_PROXY)
+ * @param request - Next.js request object
+ * @returns IP address, or null when unknown
  */
-export function requireRole(user: AuthUser, allowedRoles: string[]): boolean {
-  if (!allowedRoles.includes(user.role)) {
-    const error = new Error('Accès non autorisé') as Error & { status?: number }
-    error.status = 403
-    throw error
-  }
-  return true
+export function getClientIp(request: NextRequest): string | null {
+  return resolveClientIp(name => request.headers.get(name))
 }
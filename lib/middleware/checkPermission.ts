@@ -1,13 +1,18 @@
-// Helper functions pour vérifier les permissions
+import { hasPermission, Permission } from '@/lib/permissions'
+import { apiError } from '@/lib/errorCodes'
 
-export function checkAdmin(role: string) {
-  if (role !== 'ADMIN') {
-    throw new Error('FORBIDDEN');
-  }
-}
+// Helper functions pour vérifier les permissions
 
-export function checkAdminOrEmployee(role: string) {
-  if (role !== 'ADMIN' && role !== 'EMPLOYEE') {
-    throw new Error('FORBIDDEN');
+/**
+ * Throws FORBIDDEN unless the user holds every given permission
+ * createHandler turns it into a 403 response listing the missing permissions
+ */
+export function requirePermission(
+  user: { permissions?: string[] } | null | undefined,
+  ...permissions: Permission[]
+) {
+  if (!hasPermission(user, ...permissions)) {
+    const missing = permissions.filter(permission => !hasPermission(user, permission))
+    throw apiError('FORBIDDEN', { permission: missing.join(', ') });
   }
 }
@@ -0,0 +1,28 @@
+import { hasPermission, Permission } from './permissions'
+
+// Pages de l'interface web, dans l'ordre du menu
+export const NAVIGATION_ITEMS: { name: string; href: string; permission: Permission }[] = [
+  { name: 'Tableau de bord', href: '/dashboard', permission: 'reports.view' },
+  { name: 'Produits', href: '/products', permission: 'products.view' },
+  { name: 'Commandes', href: '/orders', permission: 'orders.view' },
+  { name: 'Clients', href: '/customers', permission: 'customers.view' },
+  { name: 'Fournisseurs', href: '/suppliers', permission: 'suppliers.view' },
+  { name: 'Utilisateurs', href: '/users', permission: 'users.manage' },
+]
+
+// Page affichée quand aucune entrée du menu n'est accessible (comportement historique)
+const DEFAULT_HOME_PAGE = '/dashboard'
+
+/**
+ * Lists the menu entries the user's permissions allow
+ */
+export function getNavigation(user: { permissions?: string[] } | null | undefined) {
+  return NAVIGATION_ITEMS.filter(item => hasPermission(user, item.permission))
+}
+
+/**
+ * Returns the page to open after login: the first menu entry the user may open
+ */
+export function getHomePage(user: { permissions?: string[] } | null | undefined) {
+  return getNavigation(user)[0]?.href ?? DEFAULT_HOME_PAGE
+}
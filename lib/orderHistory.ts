@@ -0,0 +1,84 @@
+import { Prisma } from "@prisma/client"
+import { prisma } from "./prisma"
+import { apiError } from "./errorCodes"
+
+interface StatusEventInput {
+  orderId: string
+  userId?: string | null
+  fromStatus?: string | null
+  toStatus: string
+  note?: string | null
+}
+
+/**
+ * Records an order status transition in the order timeline
+ * Call it with the transaction client so the event is written atomically with the status change
+ * @param tx - Prisma client or transaction client
+ * @param event - Transition details (actor, previous and new status, optional note)
+ */
+export async function recordStatusEvent(
+  tx: Prisma.TransactionClient,
+  event: StatusEventInput
+) {
+  return tx.orderStatusEvent.create({
+    data: {
+      orderId: event.orderId,
+      userId: event.userId ?? null,
+      fromStatus: event.fromStatus ?? null,
+      toStatus: event.toStatus,
+      note: event.note ?? null,
+    },
+  })
+}
+
+/**
+ * Moves an order to a new status only if it still has the status read before the transaction
+ * Call it first in the transaction: of two concurrent changes (e.g. a double cancel), the second one
+ * is refused instead of restoring the stock a second time
+ * @param tx - Transaction client
+ * @param fromStatus - Status the caller checked the transition against
+ * @throws apiError ORDER_STATUS_CHANGED when another request changed or deleted the order in between
+ */
+export async function claimOrderStatus(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  fromStatus: string,
+  toStatus: string
+) {
+  const { count } = await tx.order.updateMany({
+    where: { id: orderId, status: fromStatus },
+    data: { status: toStatus }
+  })
+
+  if (count === 0) {
+    throw apiError('ORDER_STATUS_CHANGED', { orderId })
+  }
+}
+
+/**
+ * Returns the status timeline of an order, oldest event first
+ */
+export async function getOrderTimeline(orderId: string) {
+  const events = await prisma.orderStatusEvent.findMany({
+    where: { orderId },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true
+        }
+      }
+    },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  return events.map(event => ({
+    id: event.id,
+    fromStatus: event.fromStatus,
+    toStatus: event.toStatus,
+    note: event.note,
+    createdAt: event.createdAt.toISOString(),
+    user: event.user
+  }))
+}
@@ -0,0 +1,99 @@
+import { ErrorCode, ErrorDetails } from "./errorCodes"
+
+// Cycle de vie unique des commandes, partagé par les API web et mobile
+
+export const ORDER_STATUSES = ['PENDING', 'PREPARING', 'READY', 'DELIVERED', 'CANCELLED'] as const
+
+export type OrderStatus = typeof ORDER_STATUSES[number]
+
+// Anciens statuts français encore envoyés par l'application mobile
+export const LEGACY_ORDER_STATUSES: Record<string, OrderStatus> = {
+  EN_COURS: 'PENDING',
+  LIVREE: 'DELIVERED',
+  ANNULEE: 'CANCELLED'
+}
+
+// Valeurs acceptées en entrée par les API (statuts canoniques + alias français)
+export const ORDER_STATUS_INPUTS = [
+  ...ORDER_STATUSES,
+  'EN_COURS',
+  'LIVREE',
+  'ANNULEE'
+] as const
+
+// Transitions autorisées depuis chaque statut
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  PENDING: ['PREPARING', 'READY', 'CANCELLED'],
+  PREPARING: ['READY', 'CANCELLED'],
+  READY: ['DELIVERED', 'CANCELLED'],
+  DELIVERED: [],
+  CANCELLED: []
+}
+
+// Commandes encore ouvertes (ni livrées ni annulées)
+export const OPEN_ORDER_STATUSES: OrderStatus[] = ['PENDING', 'PREPARING', 'READY']
+
+/**
+ * Check whether an order may be created with this status
+ * Only open statuses: an order created delivered or cancelled would take stock that no transition gives back
+ */
+export function isInitialOrderStatus(status: OrderStatus) {
+  return OPEN_ORDER_STATUSES.includes(status)
+}
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  PENDING: 'En cours',
+  PREPARING: 'En préparation',
+  READY: 'Prête',
+  DELIVERED: 'Livrée',
+  CANCELLED: 'Annulée'
+}
+
+/**
+ * Convert any known status (canonical or legacy French alias) to its canonical form
+ * @param status - Raw status value
+ * @returns Canonical status, or null if the value is unknown
+ */
+export function normalizeOrderStatus(status: string): OrderStatus | null {
+  const upper = status.trim().toUpperCase()
+
+  if ((ORDER_STATUSES as readonly string[]).includes(upper)) {
+    return upper as OrderStatus
+  }
+
+  return LEGACY_ORDER_STATUSES[upper] ?? null
+}
+
+/**
+ * Check whether an order may move from one status to another
+ * Keeping the same status is always allowed (e.g. when only notes change)
+ * @param from - Current status of the order
+ * @param to - Requested status
+ * @returns True if the transition is allowed
+ */
+export function canTransition(from: string, to: string): boolean {
+  const current = normalizeOrderStatus(from)
+  const next = normalizeOrderStatus(to)
+
+  if (!current || !next) {
+    return false
+  }
+
+  if (current === next) {
+    return true
+  }
+
+  return ORDER_TRANSITIONS[current].includes(next)
+}
+
+/**
+ * Build the error code and details returned when a transition is refused
+ */
+export function invalidTransitionError(from: string, to: string): { code: ErrorCode; details: ErrorDetails } {
+  const current = normalizeOrderStatus(from)
+  const allowed = current ? ORDER_TRANSITIONS[current] : []
+
+  return allowed.length > 0
+    ? { code: 'INVALID_TRANSITION', details: { from: current, to, allowed: allowed.join(', ') } }
+    : { code: 'ORDER_STATUS_FINAL', details: { from: current ?? from, to } }
+}
@@ -0,0 +1,113 @@
+// Catalogue des permissions : chaque route vérifie une permission, jamais un nom de rôle
+// Ce module n'accède pas à la base : il est aussi importé par les composants client
+export const PERMISSIONS = [
+  'products.view',
+  'products.edit',
+  'products.price.edit',
+  'products.delete',
+  'stock.adjust',
+  'stock.manage',
+  'orders.view',
+  'orders.create',
+  'orders.update',
+  'orders.cancel',
+  'orders.delete',
+  'customers.view',
+  'customers.edit',
+  'customers.delete',
+  'suppliers.view',
+  'suppliers.edit',
+  'suppliers.delete',
+  'purchaseOrders.manage',
+  'purchaseOrders.receive',
+  'reports.view',
+  'notifications.manage',
+  'users.manage',
+  'apiKeys.manage'
+] as const
+
+export type Permission = typeof PERMISSIONS[number]
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'products.view': 'Consulter les produits',
+  'products.edit': 'Créer et modifier les produits',
+  'products.price.edit': 'Modifier les prix',
+  'products.delete': 'Supprimer les produits',
+  'stock.adjust': 'Ajuster le stock (pertes, comptages d\'inventaire)',
+  'stock.manage': 'Valider les inventaires, annuler les pertes, rapprocher le stock',
+  'orders.view': 'Consulter les commandes',
+  'orders.create': 'Créer des commandes',
+  'orders.update': 'Modifier les commandes et leur statut',
+  'orders.cancel': 'Annuler des commandes',
+  'orders.delete': 'Supprimer des commandes',
+  'customers.view': 'Consulter les clients',
+  'customers.edit': 'Créer et modifier les clients',
+  'customers.delete': 'Supprimer les clients',
+  'suppliers.view': 'Consulter les fournisseurs et leurs bons de commande',
+  'suppliers.edit': 'Créer et modifier les fournisseurs',
+  'suppliers.delete': 'Supprimer les fournisseurs',
+  'purchaseOrders.manage': 'Créer, envoyer et annuler les bons de commande',
+  'purchaseOrders.receive': 'Réceptionner les bons de commande',
+  'reports.view': 'Consulter le tableau de bord et les rapports',
+  'notifications.manage': 'Gérer les SMS, modèles et campagnes',
+  'users.manage': 'Gérer les utilisateurs, les rôles et les sessions',
+  'apiKeys.manage': "Gérer les clés d'API des intégrations (scripts, imports)"
+}
+
+// Rôle disposant toujours de toutes les permissions : il ne peut pas être restreint
+export const ADMIN_ROLE = 'ADMIN'
+
+// Rôles fournis avec l'application et leurs permissions initiales (modifiables ensuite, sauf ADMIN)
+export const SYSTEM_ROLES: { name: string; label: string; permissions: readonly Permission[] }[] = [
+  { name: ADMIN_ROLE, label: 'Administrateur', permissions: PERMISSIONS },
+  {
+    name: 'EMPLOYEE',
+    label: 'Employé',
+    permissions: [
+      'products.view',
+      'stock.adjust',
+      'orders.view',
+      'orders.create',
+      'orders.update',
+      'orders.cancel',
+      'customers.view',
+      'customers.edit',
+      'suppliers.view',
+      'purchaseOrders.receive',
+      'reports.view'
+    ]
+  },
+  {
+    name: 'CASHIER',
+    label: 'Caissier',
+    permissions: [
+      'products.view',
+      'orders.view',
+      'orders.create',
+      'orders.update',
+      'customers.view',
+      'customers.edit'
+    ]
+  },
+  {
+    name: 'DRIVER',
+    label: 'Livreur',
+    permissions: ['orders.view', 'orders.update', 'customers.view']
+  }
+]
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value)
+}
+
+/**
+ * Tells whether a user holds every given permission
+ * Accepts the mobile AuthUser as well as the NextAuth session user: both carry the resolved permissions
+ */
+export function hasPermission(
+  user: { permissions?: string[] } | null | undefined,
+  ...permissions: Permission[]
+) {
+  const granted = user?.permissions ?? []
+  return permissions.every(permission => granted.includes(permission))
+}
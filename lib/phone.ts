@@ -0,0 +1,116 @@
+// Pays pris en charge pour les numéros saisis sans indicatif
+// nsnLength : longueurs possibles du numéro national significatif (sans le 0 de tête)
+const COUNTRIES = {
+  FR: { callingCode: '33', trunkPrefix: '0', nsnLength: [9] },
+  BE: { callingCode: '32', trunkPrefix: '0', nsnLength: [8, 9] },
+  LU: { callingCode: '352', trunkPrefix: '', nsnLength: [6, 7, 8, 9, 10, 11] },
+  CH: { callingCode: '41', trunkPrefix: '0', nsnLength: [9] },
+  DE: { callingCode: '49', trunkPrefix: '0', nsnLength: [7, 8, 9, 10, 11] },
+  NL: { callingCode: '31', trunkPrefix: '0', nsnLength: [9] },
+  GB: { callingCode: '44', trunkPrefix: '0', nsnLength: [9, 10] },
+  IE: { callingCode: '353', trunkPrefix: '0', nsnLength: [7, 8, 9] },
+  ES: { callingCode: '34', trunkPrefix: '', nsnLength: [9] },
+  // En Italie le 0 fait partie du numéro
+  IT: { callingCode: '39', trunkPrefix: '', nsnLength: [6, 7, 8, 9, 10, 11] },
+  PT: { callingCode: '351', trunkPrefix: '', nsnLength: [9] },
+} as const
+
+export type PhoneCountry = keyof typeof COUNTRIES
+
+export const PHONE_COUNTRIES = Object.keys(COUNTRIES) as PhoneCountry[]
+
+type PhoneResult =
+  | { success: true; e164: string; country: PhoneCountry | null }
+  | { success: false; error: string }
+
+/**
+ * Country used for numbers entered without an international prefix (PHONE_DEFAULT_COUNTRY, FR by default)
+ */
+export function getDefaultPhoneCountry(): PhoneCountry {
+  const configured = process.env.PHONE_DEFAULT_COUNTRY?.toUpperCase()
+
+  return configured && configured in COUNTRIES ? configured as PhoneCountry : 'FR'
+}
+
+function checkLength(country: PhoneCountry, nsn: string): PhoneResult {
+  const { callingCode, nsnLength } = COUNTRIES[country]
+
+  if (!(nsnLength as readonly number[]).includes(nsn.length)) {
+    return { success: false, error: `Numéro de téléphone invalide pour le pays ${country}` }
+  }
+
+  return { success: true, e164: `+${callingCode}${nsn}`, country }
+}
+
+/**
+ * Parses a phone number typed freely ("02 98 12 34 56", "+33 6 12...", "0033...") into E.164
+ * Numbers without an international prefix are read in the default country
+ * @param input - Phone number as entered
+ * @param defaultCountry - Country of national numbers
+ */
+export function normalizePhone(
+  input: string,
+  defaultCountry: PhoneCountry = getDefaultPhoneCountry()
+): PhoneResult {
+  // Séparateurs usuels : espaces, points, tirets, slash, parenthèses
+  const compact = input.trim().replace(/[\s.\-/()]/g, '')
+
+  if (!/^(\+|00)?\d+$/.test(compact)) {
+    return { success: false, error: "Numéro de téléphone invalide" }
+  }
+
+  const international = compact.startsWith('+')
+    ? compact.slice(1)
+    : compact.startsWith('00') ? compact.slice(2) : null
+
+  if (international === null) {
+    const { trunkPrefix } = COUNTRIES[defaultCountry]
+
+    if (trunkPrefix && !compact.startsWith(trunkPrefix)) {
+      return { success: false, error: "Numéro de téléphone invalide (indicatif ou 0 initial manquant)" }
+    }
+
+    return checkLength(defaultCountry, compact.slice(trunkPrefix.length))
+  }
+
+  // Indicatif le plus long d'abord (352 avant 35...)
+  const country = PHONE_COUNTRIES
+    .filter(code => international.startsWith(COUNTRIES[code].callingCode))
+    .sort((a, b) => COUNTRIES[b].callingCode.length - COUNTRIES[a].callingCode.length)[0]
+
+  if (country) {
+    // "+33 (0)6..." : le 0 national est parfois conservé après l'indicatif
+    let nsn = international.slice(COUNTRIES[country].callingCode.length)
+    const { trunkPrefix } = COUNTRIES[country]
+    if (trunkPrefix && nsn.startsWith(trunkPrefix)) {
+      nsn = nsn.slice(trunkPrefix.length)
+    }
+
+    return checkLength(country, nsn)
+  }
+
+  // Autres pays : seule la longueur maximale E.164 (15 chiffres) est vérifiée
+  if (international.length < 8 || international.length > 15 || international.startsWith('0')) {
+    return { success: false, error: "Numéro de téléphone invalide" }
+  }
+
+  return { success: true, e164: `+${international}`, country: null }
+}
+
+/**
+ * Normalizes an optional phone field of a create/update payload
+ * @returns undefined when the field is absent, null when it is cleared, the E.164 number otherwise
+ */
+export function normalizeOptionalPhone(
+  input: string | null | undefined
+): { success: true; e164: string | null | undefined } | { success: false; error: string } {
+  if (input === undefined) {
+    return { success: true, e164: undefined }
+  }
+
+  if (input === null || input.trim() === '') {
+    return { success: true, e164: null }
+  }
+
+  return normalizePhone(input)
+}
@@ -0,0 +1,285 @@
+import { prisma } from "./prisma"
+import { applyStockMovement } from "./stock"
+import { createLot } from "./lots"
+import { ErrorCode, ErrorDetails, apiError } from "./errorCodes"
+
+// Statuts des bons de commande fournisseur
+export const PURCHASE_ORDER_STATUSES = [
+  'ORDERED',
+  'PARTIALLY_RECEIVED',
+  'RECEIVED',
+  'CANCELLED'
+] as const
+
+export type PurchaseOrderStatus = typeof PURCHASE_ORDER_STATUSES[number]
+
+// Les pesées ne tombent jamais juste : une ligne reçue à 95% est considérée complète
+export const RECEPTION_TOLERANCE = 0.05
+
+export const purchaseOrderInclude = {
+  supplier: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  user: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  lines: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          unit: true
+        }
+      }
+    }
+  },
+  receptions: {
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true
+        }
+      },
+      lines: true
+    },
+    orderBy: {
+      receivedAt: 'desc' as const
+    }
+  }
+}
+
+interface PurchaseOrderWithRelations {
+  id: string
+  supplierId: string
+  supplier: { id: string; name: string }
+  user: { id: string; name: string } | null
+  status: string
+  orderDate: Date
+  expectedDate: Date | null
+  notes: string | null
+  createdAt: Date
+  lines: {
+    id: string
+    productId: string
+    product: { id: string; name: string; unit: string }
+    quantityOrdered: number
+    unitPrice: number
+    quantityReceived: number
+  }[]
+  receptions?: {
+    id: string
+    receivedAt: Date
+    notes: string | null
+    user: { id: string; name: string } | null
+    lines: { purchaseOrderLineId: string; quantityReceived: number }[]
+  }[]
+}
+
+interface ReceptionInput {
+  lines: {
+    lineId: string
+    quantityReceived: number
+    // Lot details (generated lot number when omitted)
+    lotNumber?: string
+    catchDate?: Date | null
+    useByDate?: Date | null
+  }[]
+  notes?: string
+  // Close the purchase order even if some lines are short
+  close?: boolean
+}
+
+type ReceptionResult =
+  | { success: true; data: PurchaseOrderWithRelations }
+  | { success: false; code: ErrorCode; details?: ErrorDetails }
+
+/**
+ * Computes the purchase order status from its lines
+ * @param lines - Ordered and received quantities of each line
+ * @returns RECEIVED when every line is received (within tolerance), PARTIALLY_RECEIVED otherwise
+ */
+export function computeReceptionStatus(
+  lines: { quantityOrdered: number; quantityReceived: number }[]
+): PurchaseOrderStatus {
+  const nothingReceived = lines.every(line => line.quantityReceived === 0)
+  if (nothingReceived) {
+    return 'ORDERED'
+  }
+
+  const allReceived = lines.every(
+    line => line.quantityReceived >= line.quantityOrdered * (1 - RECEPTION_TOLERANCE)
+  )
+
+  return allReceived ? 'RECEIVED' : 'PARTIALLY_RECEIVED'
+}
+
+/**
+ * Formats a purchase order for API responses
+ */
+export function formatPurchaseOrder(purchaseOrder: PurchaseOrderWithRelations) {
+  const total = purchaseOrder.lines.reduce(
+    (sum, line) => sum + line.quantityOrdered * line.unitPrice,
+    0
+  )
+  const receivedTotal = purchaseOrder.lines.reduce(
+    (sum, line) => sum + line.quantityReceived * line.unitPrice,
+    0
+  )
+
+  return {
+    id: purchaseOrder.id,
+    supplier: purchaseOrder.supplier,
+    status: purchaseOrder.status,
+    orderDate: purchaseOrder.orderDate.toISOString(),
+    expectedDate: purchaseOrder.expectedDate?.toISOString() ?? null,
+    notes: purchaseOrder.notes,
+    createdBy: purchaseOrder.user,
+    createdAt: purchaseOrder.createdAt.toISOString(),
+    total: Math.round(total * 100) / 100,
+    receivedTotal: Math.round(receivedTotal * 100) / 100,
+    lines: purchaseOrder.lines.map(line => ({
+      id: line.id,
+      productId: line.productId,
+      productName: line.product.name,
+      productUnit: line.product.unit,
+      quantityOrdered: line.quantityOrdered,
+      quantityReceived: line.quantityReceived,
+      remainingQuantity: Math.max(0, Math.round((line.quantityOrdered - line.quantityReceived) * 1000) / 1000),
+      unitPrice: line.unitPrice
+    })),
+    receptions: purchaseOrder.receptions?.map(reception => ({
+      id: reception.id,
+      receivedAt: reception.receivedAt.toISOString(),
+      notes: reception.notes,
+      receivedBy: reception.user,
+      lines: reception.lines.map(line => ({
+        lineId: line.purchaseOrderLineId,
+        quantityReceived: line.quantityReceived
+      }))
+    })) ?? []
+  }
+}
+
+/**
+ * Records a goods reception: stores actual weights, creates one lot per received line,
+ * adds them to stock through the ledger and updates the purchase order status, all in one transaction
+ * @param purchaseOrderId - Purchase order being received
+ * @param input - Received quantities per purchase order line
+ * @param userId - User recording the reception
+ */
+export async function receivePurchaseOrder(
+  purchaseOrderId: string,
+  input: ReceptionInput,
+  userId?: string | null
+): Promise<ReceptionResult> {
+  // Statut et lignes lus dans la transaction : pas de réception dans un bon clôturé entre-temps
+  return prisma.$transaction(async (tx): Promise<ReceptionResult> => {
+    const purchaseOrder = await tx.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+      include: { lines: true }
+    })
+
+    if (!purchaseOrder) {
+      return { success: false, code: 'PURCHASE_ORDER_NOT_FOUND', details: { purchaseOrderId } }
+    }
+
+    if (purchaseOrder.status === 'RECEIVED' || purchaseOrder.status === 'CANCELLED') {
+      return {
+        success: false,
+        code: 'PURCHASE_ORDER_CLOSED',
+        details: { purchaseOrderId, status: purchaseOrder.status }
+      }
+    }
+
+    for (const receivedLine of input.lines) {
+      if (!purchaseOrder.lines.some(line => line.id === receivedLine.lineId)) {
+        return {
+          success: false,
+          code: 'PURCHASE_ORDER_LINE_NOT_FOUND',
+          details: { purchaseOrderId, lineId: receivedLine.lineId }
+        }
+      }
+    }
+
+    const reception = await tx.goodsReception.create({
+      data: {
+        purchaseOrderId,
+        userId: userId ?? null,
+        notes: input.notes || null,
+        lines: {
+          create: input.lines.map(line => ({
+            purchaseOrderLineId: line.lineId,
+            quantityReceived: line.quantityReceived
+          }))
+        }
+      }
+    })
+
+    for (const receivedLine of input.lines) {
+      if (receivedLine.quantityReceived <= 0) {
+        continue
+      }
+
+      const line = purchaseOrder.lines.find(l => l.id === receivedLine.lineId)!
+
+      await tx.purchaseOrderLine.update({
+        where: { id: line.id },
+        data: {
+          quantityReceived: {
+            increment: receivedLine.quantityReceived
+          }
+        }
+      })
+
+      await applyStockMovement(tx, {
+        productId: line.productId,
+        type: 'RECEPTION',
+        quantity: receivedLine.quantityReceived,
+        receptionId: reception.id,
+        userId,
+        note: input.notes
+      })
+
+      await createLot(tx, {
+        productId: line.productId,
+        quantity: receivedLine.quantityReceived,
+        lotNumber: receivedLine.lotNumber,
+        supplierId: purchaseOrder.supplierId,
+        receptionId: reception.id,
+        catchDate: receivedLine.catchDate,
+        useByDate: receivedLine.useByDate
+      })
+    }
+
+    // Quantités relues après les incréments : une réception concurrente est prise en compte
+    const receivedLines = await tx.purchaseOrderLine.findMany({
+      where: { purchaseOrderId }
+    })
+    const status = input.close ? 'RECEIVED' : computeReceptionStatus(receivedLines)
+
+    // Bon clôturé ou annulé par une requête concurrente : toute la réception est annulée
+    const { count } = await tx.purchaseOrder.updateMany({
+      where: { id: purchaseOrderId, status: { notIn: ['RECEIVED', 'CANCELLED'] } },
+      data: { status }
+    })
+
+    if (count === 0) {
+      throw apiError('PURCHASE_ORDER_CLOSED', { purchaseOrderId })
+    }
+
+    const updated = await tx.purchaseOrder.findUniqueOrThrow({
+      where: { id: purchaseOrderId },
+      include: purchaseOrderInclude
+    })
+
+    return { success: true, data: updated }
+  })
+}
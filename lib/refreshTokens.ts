@@ -0,0 +1,150 @@
+import crypto from "crypto"
+import { Prisma, User } from "@prisma/client"
+import { prisma } from "./prisma"
+import { generateRefreshToken, hashToken, getRefreshTokenExpiration } from "./jwt"
+import { ErrorCode } from "./errorCodes"
+
+type RotationResult =
+  | { success: true; data: { user: User; refreshToken: string; sessionId: string } }
+  | { success: false; code: ErrorCode }
+
+// Appareil d'une session mobile
+export interface DeviceInfo {
+  deviceName?: string | null
+  platform?: string | null
+  ipAddress?: string | null
+}
+
+/**
+ * Creates a refresh token and stores its hash
+ * @param userId - Owner of the token
+ * @param device - Device the session runs on
+ * @param familyId - Rotation chain the token belongs to (a new chain when omitted, i.e. at login)
+ * @param db - Prisma client, or the transaction client when called inside a transaction
+ * @param id - Record id, chosen beforehand during a rotation so the old token can point to it
+ * @returns The raw token (only returned to the client, never stored) and its record
+ */
+export async function issueRefreshToken(
+  userId: string,
+  device: DeviceInfo,
+  familyId?: string,
+  db: Prisma.TransactionClient = prisma,
+  id: string = crypto.randomUUID()
+) {
+  const refreshToken = generateRefreshToken()
+
+  const record = await db.refreshToken.create({
+    data: {
+      id,
+      token: hashToken(refreshToken),
+      userId,
+      // Le premier jeton d'une famille lui donne son identifiant
+      familyId: familyId ?? id,
+      deviceName: device.deviceName ?? null,
+      platform: device.platform ?? null,
+      ipAddress: device.ipAddress ?? null,
+      expiresAt: new Date(Date.now() + getRefreshTokenExpiration())
+    }
+  })
+
+  return { refreshToken, record }
+}
+
+/**
+ * Revokes every token of a rotation chain
+ */
+export async function revokeRefreshTokenFamily(familyId: string, db: Prisma.TransactionClient = prisma) {
+  const result = await db.refreshToken.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  })
+
+  return result.count
+}
+
+/**
+ * Exchanges a refresh token for a new one of the same family
+ * The old token is kept, marked with replacedBy: presenting it again means it was copied
+ * (stolen device, leaked backup), so the whole family is revoked and the user must log in again
+ * @param ipAddress - Current IP of the device, recorded on the new token
+ */
+export async function rotateRefreshToken(
+  refreshToken: string,
+  ipAddress?: string | null
+): Promise<RotationResult> {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { token: hashToken(refreshToken) },
+    include: { user: true }
+  })
+
+  if (!stored || stored.revokedAt || !stored.user.active) {
+    return { success: false, code: 'REFRESH_TOKEN_INVALID' }
+  }
+
+  if (stored.replacedBy) {
+    await revokeRefreshTokenFamily(stored.familyId)
+    console.warn(`Refresh token reuse detected for user ${stored.userId}: family ${stored.familyId} revoked`)
+    return { success: false, code: 'REFRESH_TOKEN_INVALID' }
+  }
+
+  if (stored.expiresAt < new Date()) {
+    // Famille expirée : plus aucun jeton utilisable, on nettoie
+    await prisma.refreshToken.deleteMany({
+      where: { familyId: stored.familyId }
+    })
+    return { success: false, code: 'REFRESH_TOKEN_INVALID' }
+  }
+
+  const nextId = crypto.randomUUID()
+
+  const issued = await prisma.$transaction(async (tx) => {
+    // Réservation conditionnelle : deux rafraîchissements simultanés du même jeton ne passent pas tous les deux
+    const claimed = await tx.refreshToken.updateMany({
+      where: { id: stored.id, replacedBy: null, revokedAt: null },
+      data: { replacedBy: nextId }
+    })
+
+    if (claimed.count === 0) {
+      return null
+    }
+
+    // L'appareil reste celui déclaré à la connexion
+    return issueRefreshToken(stored.userId, {
+      deviceName: stored.deviceName,
+      platform: stored.platform,
+      ipAddress: ipAddress ?? stored.ipAddress
+    }, stored.familyId, tx, nextId)
+  })
+
+  if (!issued) {
+    await revokeRefreshTokenFamily(stored.familyId)
+    console.warn(`Concurrent refresh token reuse for user ${stored.userId}: family ${stored.familyId} revoked`)
+    return { success: false, code: 'REFRESH_TOKEN_INVALID' }
+  }
+
+  return {
+    success: true,
+    data: { user: stored.user, refreshToken: issued.refreshToken, sessionId: stored.familyId }
+  }
+}
+
+/**
+ * Logs a session out: deletes the whole family of the token, earlier rotated tokens included
+ * @returns false when the token is unknown
+ */
+export async function deleteRefreshTokenFamily(refreshToken: string) {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { token: hashToken(refreshToken) },
+    select: { familyId: true }
+  })
+
+  if (!stored) {
+    return false
+  }
+
+  await prisma.refreshToken.deleteMany({
+    where: { familyId: stored.familyId }
+  })
+
+  return true
+}
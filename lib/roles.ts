@@ -0,0 +1,230 @@
+import { Prisma } from "@prisma/client"
+import { prisma } from "./prisma"
+import { ADMIN_ROLE, PERMISSIONS, Permission, hasPermission, isPermission } from "./permissions"
+import { ErrorCode, ErrorDetails } from "./errorCodes"
+
+type RoleResult =
+  | { success: true; data: ReturnType<typeof formatRole> }
+  | { success: false; code: ErrorCode; details?: ErrorDetails }
+
+// Utilisateur qui attribue un rôle ou des permissions (AuthUser ou utilisateur de session)
+export interface Actor {
+  role: string
+  permissions?: string[]
+}
+
+type Refusal = { code: ErrorCode; details?: ErrorDetails }
+
+interface RoleInput {
+  name: string
+  label: string
+  permissions: Permission[]
+}
+
+interface RoleUpdateInput {
+  label?: string
+  permissions?: Permission[]
+}
+
+const roleInclude = {
+  permissions: { select: { permission: true } }
+}
+
+export function formatRole(role: {
+  id: string
+  name: string
+  label: string
+  system: boolean
+  permissions: { permission: string }[]
+  createdAt: Date
+  updatedAt: Date
+}) {
+  return {
+    id: role.id,
+    name: role.name,
+    label: role.label,
+    system: role.system,
+    permissions: role.name === ADMIN_ROLE
+      ? [...PERMISSIONS]
+      : role.permissions.map(p => p.permission).filter(isPermission),
+    createdAt: role.createdAt.toISOString(),
+    updatedAt: role.updatedAt.toISOString()
+  }
+}
+
+/**
+ * Resolves the permissions granted by a role
+ * ADMIN always gets the whole catalog; an unknown role gets none
+ * @param db - Prisma client, or the transaction client when called inside a transaction
+ */
+export async function getRolePermissions(
+  role: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<Permission[]> {
+  if (role === ADMIN_ROLE) {
+    return [...PERMISSIONS]
+  }
+
+  const rows = await db.rolePermission.findMany({
+    where: { role: { name: role } },
+    select: { permission: true }
+  })
+
+  // Une permission retirée du catalogue peut rester en base : elle est ignorée
+  return rows.map(row => row.permission).filter(isPermission)
+}
+
+/**
+ * Permissions of the list the actor does not hold, and therefore cannot grant
+ */
+export function missingPermissions(permissions: readonly Permission[], actor: Actor) {
+  return [...new Set(permissions)].filter(permission => !hasPermission(actor, permission))
+}
+
+/**
+ * Checks that an actor may grant a set of permissions: only those the actor holds
+ * @returns The refusal, or null when allowed
+ */
+export function checkPermissionsGrantable(permissions: readonly Permission[], actor: Actor): Refusal | null {
+  const missing = missingPermissions(permissions, actor)
+
+  return missing.length > 0
+    ? { code: 'FORBIDDEN', details: { permission: missing.join(', ') } }
+    : null
+}
+
+/**
+ * Checks that an actor may give a role to an account (or act on an account holding it)
+ * ADMIN is only granted by an admin holding the whole catalog; any other role only when the actor holds all its permissions,
+ * so users.manage cannot be used to gain more rights
+ * @returns The refusal, or null when allowed
+ */
+export async function checkRoleAssignable(role: string, actor: Actor): Promise<Refusal | null> {
+  // Une clé d'API créée par un ADMIN porte son rôle mais pas forcément toutes ses permissions
+  if (role === ADMIN_ROLE) {
+    return actor.role === ADMIN_ROLE && missingPermissions(PERMISSIONS, actor).length === 0
+      ? null
+      : { code: 'ROLE_NOT_ASSIGNABLE', details: { role } }
+  }
+
+  return checkPermissionsGrantable(await getRolePermissions(role), actor)
+}
+
+export async function roleExists(name: string) {
+  const role = await prisma.role.findUnique({
+    where: { name },
+    select: { id: true }
+  })
+
+  return role !== null
+}
+
+/**
+ * Lists roles, system roles first
+ */
+export async function listRoles() {
+  const roles = await prisma.role.findMany({
+    include: roleInclude,
+    orderBy: [{ system: 'desc' }, { name: 'asc' }]
+  })
+
+  return roles.map(formatRole)
+}
+
+/**
+ * Creates a custom role (ADMIN action)
+ * Only permissions held by the actor can be put in it
+ */
+export async function createRole(input: RoleInput, actor: Actor): Promise<RoleResult> {
+  if (await roleExists(input.name)) {
+    return { success: false, code: 'ROLE_ALREADY_EXISTS', details: { role: input.name } }
+  }
+
+  const refusal = checkPermissionsGrantable(input.permissions, actor)
+  if (refusal) {
+    return { success: false, ...refusal }
+  }
+
+  const role = await prisma.role.create({
+    data: {
+      name: input.name,
+      label: input.label,
+      permissions: {
+        create: [...new Set(input.permissions)].map(permission => ({ permission }))
+      }
+    },
+    include: roleInclude
+  })
+
+  return { success: true, data: formatRole(role) }
+}
+
+/**
+ * Updates the label or replaces the permissions of a role
+ * The permissions of ADMIN cannot be changed, so an administrator can never lock everyone out
+ * The new permissions must all be held by the actor
+ * Users of the role get the new permissions at their next token refresh
+ */
+export async function updateRole(name: string, input: RoleUpdateInput, actor: Actor): Promise<RoleResult> {
+  const role = await prisma.role.findUnique({
+    where: { name },
+    select: { id: true }
+  })
+
+  if (!role) {
+    return { success: false, code: 'ROLE_NOT_FOUND', details: { role: name } }
+  }
+
+  if (input.permissions && name === ADMIN_ROLE) {
+    return { success: false, code: 'ADMIN_ROLE_LOCKED', details: { role: name } }
+  }
+
+  const refusal = input.permissions ? checkPermissionsGrantable(input.permissions, actor) : null
+  if (refusal) {
+    return { success: false, ...refusal }
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (input.permissions) {
+      await tx.rolePermission.deleteMany({ where: { roleId: role.id } })
+      await tx.rolePermission.createMany({
+        data: [...new Set(input.permissions)].map(permission => ({ roleId: role.id, permission }))
+      })
+    }
+
+    return tx.role.update({
+      where: { id: role.id },
+      data: { label: input.label },
+      include: roleInclude
+    })
+  })
+
+  return { success: true, data: formatRole(updated) }
+}
+
+/**
+ * Deletes a custom role that no user holds anymore
+ */
+export async function deleteRole(name: string): Promise<RoleResult> {
+  const role = await prisma.role.findUnique({
+    where: { name },
+    include: roleInclude
+  })
+
+  if (!role) {
+    return { success: false, code: 'ROLE_NOT_FOUND', details: { role: name } }
+  }
+
+  if (role.system) {
+    return { success: false, code: 'SYSTEM_ROLE', details: { role: name } }
+  }
+
+  const users = await prisma.user.count({ where: { role: name } })
+  if (users > 0) {
+    return { success: false, code: 'ROLE_IN_USE', details: { role: name, users } }
+  }
+
+  await prisma.role.delete({ where: { id: role.id } })
+
+  return { success: true, data: formatRole(role) }
+}
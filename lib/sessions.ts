@@ -0,0 +1,92 @@
+import { prisma } from "./prisma"
+
+// Une session = une famille de refresh tokens ; seul le dernier jeton de la chaîne est utilisable
+function activeTokenWhere() {
+  return {
+    replacedBy: null,
+    revokedAt: null,
+    expiresAt: { gt: new Date() }
+  }
+}
+
+/**
+ * Tells whether an access token may still be used: the JWT is checked on its signature only,
+ * this lookup makes a deactivation or a revoked device effective before the token expires
+ * @param sessionId - Session the token was issued for (absent from tokens issued before session tracking)
+ */
+export async function isAccessTokenActive(userId: string, sessionId?: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      active: true,
+      refreshTokens: sessionId
+        ? { where: { familyId: sessionId, ...activeTokenWhere() }, select: { id: true }, take: 1 }
+        : false
+    }
+  })
+
+  if (!user?.active) {
+    return false
+  }
+
+  return !sessionId || user.refreshTokens.length > 0
+}
+
+/**
+ * Active mobile sessions of a user, most recently used first
+ * lastUsedAt is the last login or refresh: requests made with an access token do not update it
+ * @param currentSessionId - Session of the caller, flagged with current = true
+ */
+export async function listUserSessions(userId: string, currentSessionId?: string) {
+  const tokens = await prisma.refreshToken.findMany({
+    where: { userId, ...activeTokenWhere() },
+    orderBy: { lastUsedAt: 'desc' }
+  })
+
+  return tokens.map(token => ({
+    id: token.familyId,
+    deviceName: token.deviceName,
+    platform: token.platform,
+    ipAddress: token.ipAddress,
+    lastUsedAt: token.lastUsedAt.toISOString(),
+    expiresAt: token.expiresAt.toISOString(),
+    current: token.familyId === currentSessionId
+  }))
+}
+
+/**
+ * Ends one session of a user: its refresh tokens are deleted, the device must log in again
+ * once its access token expires
+ * @returns false when the session does not exist or belongs to another user
+ */
+export async function revokeUserSession(userId: string, sessionId: string) {
+  const result = await prisma.refreshToken.deleteMany({
+    where: { userId, familyId: sessionId }
+  })
+
+  return result.count > 0
+}
+
+/**
+ * Ends every session of a user, except the one given (the caller's own device)
+ * @returns Number of sessions ended
+ */
+export async function revokeUserSessions(userId: string, exceptSessionId?: string) {
+  const sessions = await prisma.refreshToken.findMany({
+    where: {
+      userId,
+      ...activeTokenWhere(),
+      ...(exceptSessionId ? { familyId: { not: exceptSessionId } } : {})
+    },
+    select: { familyId: true }
+  })
+
+  await prisma.refreshToken.deleteMany({
+    where: {
+      userId,
+      ...(exceptSessionId ? { familyId: { not: exceptSessionId } } : {})
+    }
+  })
+
+  return sessions.length
+}
@@ -1,24 +1,34 @@
 import { prisma } from "./prisma"
+import { SmsProvider, getSmsProvider } from "./smsProviders"
+import { normalizePhone } from "./phone"
+
+// Origine du message, enregistrée dans SmsLog
+interface SmsContext {
+  orderId?: string
+  campaignId?: string
+  customerId?: string
+  event?: string
+  outboxId?: string
+}
 
 interface SmsResult {
   success: boolean
   error?: string
+  providerMessageId?: string
 }
 
 /**
- * Sends an SMS notification using the SMS Gateway API
+ * Sends an SMS notification through the configured provider (SMS_PROVIDER)
  * @param telephone - The phone number to send the SMS to
  * @param message - The message content
- * @param orderId - Optional order ID for logging purposes
+ * @param context - Optional order, campaign, customer, event and outbox message, for logging purposes
  * @returns Promise with the result of the SMS operation
  */
 export async function envoyerSmsCommande(
   telephone: string,
   message: string,
-  orderId?: string
+  context: SmsContext = {}
 ): Promise<SmsResult> {
-  const gatewayUrl = process.env.SMS_GATEWAY_URL
-  const apiKey = process.env.SMS_GATEWAY_API_KEY
   const smsEnabled = process.env.SMS_ENABLED === "true"
 
   // Check if SMS is enabled
@@ -26,69 +36,44 @@ export async function envoyerSmsCommande(
     console.log("SMS disabled. Would have sent:", { telephone, message })
     
     // Log to database even when disabled
-    await logSms(telephone, message, orderId, true, "SMS disabled")
+    await logSms(telephone, message, context, true, "SMS disabled")
     
     return { success: true }
   }
 
   // Validate configuration
-  if (!gatewayUrl || !apiKey) {
-    const error = "SMS Gateway not configured. Please set SMS_GATEWAY_URL and SMS_GATEWAY_API_KEY"
-    console.error(error)
-    await logSms(telephone, message, orderId, false, error)
-    return { success: false, error }
+  let provider: SmsProvider
+  try {
+    provider = getSmsProvider()
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error"
+    console.error(errorMessage)
+    await logSms(telephone, message, context, false, errorMessage)
+    return { success: false, error: errorMessage }
   }
 
-  // Validate phone number
-  if (!telephone || telephone.trim() === "") {
-    const error = "Invalid phone number"
+  // Validate phone number (sent in E.164 whatever the way it was typed)
+  const phone = normalizePhone(telephone ?? "")
+  if (!phone.success) {
+    const error = `Invalid phone number: ${phone.error}`
     console.error(error)
-    await logSms(telephone, message, orderId, false, error)
+    await logSms(telephone, message, context, false, error)
     return { success: false, error }
   }
 
-  try {
-    // Build the URL with query parameters
-    const encodedTelephone = encodeURIComponent(telephone)
-    const encodedMessage = encodeURIComponent(message)
-    const encodedApiKey = encodeURIComponent(apiKey)
-    const url = `${gatewayUrl}?phone=${encodedTelephone}&text=${encodedMessage}&apikey=${encodedApiKey}`
-
-    // Create abort controller for timeout
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 10000) // 10 second timeout
-
-    try {
-      // Send the SMS request
-      const response = await fetch(url, {
-        method: 'GET',
-        signal: controller.signal,
-      })
+  const result = await provider.send(phone.e164, message)
 
-      clearTimeout(timeoutId)
+  if (!result.success) {
+    console.error(`Error sending SMS (${provider.name}):`, result.error)
+    await logSms(telephone, message, context, false, result.error)
+    return { success: false, error: result.error }
+  }
 
-      if (!response.ok) {
-        const error = `SMS Gateway returned status ${response.status}`
-        console.error(error)
-        await logSms(telephone, message, orderId, false, error)
-        return { success: false, error }
-      }
+  // Log successful SMS
+  await logSms(telephone, message, context, true, undefined, result.providerMessageId)
+  console.log(`SMS sent successfully (${provider.name}):`, { telephone, message })
 
-      // Log successful SMS
-      await logSms(telephone, message, orderId, true)
-      console.log("SMS sent successfully:", { telephone, message })
-      
-      return { success: true }
-    } catch (fetchError) {
-      clearTimeout(timeoutId)
-      throw fetchError
-    }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error"
-    console.error("Error sending SMS:", errorMessage)
-    await logSms(telephone, message, orderId, false, errorMessage)
-    return { success: false, error: errorMessage }
-  }
+  return { success: true, providerMessageId: result.providerMessageId }
 }
 
 /**
@@ -97,18 +82,24 @@ export async function envoyerSmsCommande(
 async function logSms(
   telephone: string,
   message: string,
-  orderId: string | undefined,
+  context: SmsContext,
   success: boolean,
-  errorMessage?: string
+  errorMessage?: string,
+  providerMessageId?: string
 ): Promise<void> {
   try {
     await prisma.smsLog.create({
       data: {
         telephone,
         message,
-        orderId,
+        orderId: context.orderId,
+        campaignId: context.campaignId,
+        customerId: context.customerId,
+        event: context.event,
+        outboxId: context.outboxId,
         success,
         errorMessage,
+        providerMessageId,
       },
     })
   } catch (error) {
@@ -116,17 +107,3 @@ async function logSms(
     // Don't throw - logging failure shouldn't break the main flow
   }
 }
-
-/**
- * Generates a standard order ready message
- */
-export function genererMessageCommandePrete(
-  customerName: string,
-  orderItems: { productName: string; quantity: number; unit: string }[]
-): string {
-  const productsText = orderItems
-    .map(item => `${item.productName} (${item.quantity} ${item.unit})`)
-    .join(", ")
-  
-  return `Bonjour ${customerName}, votre commande est prête : ${productsText}. Merci !`
-}
@@ -0,0 +1,308 @@
+import { Prisma, SmsCampaign } from "@prisma/client"
+import { prisma } from "./prisma"
+import { enqueueSms, logSmsRefusal } from "./smsOutbox"
+import { getSmsRefusalReason } from "./smsConsent"
+import { analyzeSmsLength } from "./smsTemplates"
+import { ErrorCode, ErrorDetails } from "./errorCodes"
+
+// Intervalle entre deux SMS d'une campagne : la passerelle (téléphone Android) ne supporte pas la rafale
+const CAMPAIGN_SEND_INTERVAL_MS = 3 * 1000
+
+// Nombre de destinataires montrés dans l'aperçu
+const PREVIEW_SAMPLE_SIZE = 10
+
+// Critères du segment, cumulatifs (ET) ; aucun critère = tous les clients
+export interface CampaignSegment {
+  // A commandé dans les N derniers jours
+  orderedWithinDays?: number
+  // A déjà acheté ce produit
+  productId?: string
+  // Total dépensé (hors commandes annulées) au moins égal à
+  minTotalSpent?: number
+}
+
+type CampaignResult =
+  | { success: true; data: SmsCampaign }
+  | { success: false; code: ErrorCode; details?: ErrorDetails }
+
+interface CampaignInput {
+  name: string
+  message: string
+  segment: CampaignSegment
+}
+
+/**
+ * Renders the campaign message for a customer ({customerName} is the only placeholder)
+ */
+export function renderCampaignMessage(message: string, customer: { name: string }) {
+  return message.replace(/\{customerName\}/g, customer.name)
+}
+
+/**
+ * Customers matching a segment, with what is needed to decide whether they can be reached
+ */
+async function findSegmentCustomers(segment: CampaignSegment) {
+  const where: Prisma.CustomerWhereInput = {}
+  const conditions: Prisma.CustomerWhereInput[] = []
+
+  if (segment.orderedWithinDays) {
+    const since = new Date(Date.now() - segment.orderedWithinDays * 24 * 60 * 60 * 1000)
+    conditions.push({
+      orders: { some: { orderDate: { gte: since }, status: { not: 'CANCELLED' } } }
+    })
+  }
+
+  if (segment.productId) {
+    conditions.push({
+      orders: {
+        some: {
+          status: { not: 'CANCELLED' },
+          orderItems: { some: { productId: segment.productId } }
+        }
+      }
+    })
+  }
+
+  if (segment.minTotalSpent !== undefined) {
+    const spenders = await prisma.order.groupBy({
+      by: ['customerId'],
+      where: { status: { not: 'CANCELLED' } },
+      _sum: { total: true },
+      having: { total: { _sum: { gte: segment.minTotalSpent } } }
+    })
+    conditions.push({ id: { in: spenders.map(spender => spender.customerId) } })
+  }
+
+  if (conditions.length > 0) {
+    where.AND = conditions
+  }
+
+  return prisma.customer.findMany({
+    where,
+    select: { id: true, name: true, phoneE164: true, smsEnabled: true },
+    orderBy: { name: 'asc' }
+  })
+}
+
+// Répartit les clients du segment : joignables, désinscrits, sans numéro exploitable
+function splitRecipients(customers: Awaited<ReturnType<typeof findSegmentCustomers>>) {
+  return {
+    reachable: customers.filter(customer => customer.phoneE164 && customer.smsEnabled),
+    optedOut: customers.filter(customer => customer.phoneE164 && !customer.smsEnabled),
+    withoutPhone: customers.filter(customer => !customer.phoneE164)
+  }
+}
+
+/**
+ * Recipient counts of a segment before sending, with the length of the message
+ * @param segment - Segment criteria
+ * @param message - Optional message, to check its length
+ */
+export async function previewCampaign(segment: CampaignSegment, message?: string) {
+  const customers = await findSegmentCustomers(segment)
+  const { reachable, optedOut, withoutPhone } = splitRecipients(customers)
+
+  return {
+    matched: customers.length,
+    recipients: reachable.length,
+    optedOut: optedOut.length,
+    withoutPhone: withoutPhone.length,
+    sample: reachable.slice(0, PREVIEW_SAMPLE_SIZE).map(customer => ({ id: customer.id, name: customer.name })),
+    // Longueur mesurée avec le nom du premier destinataire
+    length: message
+      ? analyzeSmsLength(renderCampaignMessage(message, reachable[0] ?? { name: 'M. Dupont' }))
+      : null
+  }
+}
+
+/**
+ * Creates a campaign and queues one SMS per reachable customer in the outbox, spaced out
+ * Opted-out customers are not queued; their refusal is logged with the campaign id
+ * @param input - Name, message and segment
+ * @param userId - Admin launching the campaign
+ */
+export async function createCampaign(
+  input: CampaignInput,
+  userId?: string | null
+): Promise<CampaignResult> {
+  const customers = await findSegmentCustomers(input.segment)
+  const { reachable, optedOut } = splitRecipients(customers)
+
+  if (reachable.length === 0) {
+    return { success: false, code: 'CAMPAIGN_NO_RECIPIENTS', details: { optedOut: optedOut.length } }
+  }
+
+  const start = Date.now()
+
+  const created = await prisma.$transaction(async (tx) => {
+    const campaign = await tx.smsCampaign.create({
+      data: {
+        name: input.name,
+        message: input.message,
+        segment: JSON.stringify(input.segment),
+        recipientCount: reachable.length,
+        optedOutCount: optedOut.length,
+        createdById: userId ?? null
+      }
+    })
+
+    for (const [index, customer] of reachable.entries()) {
+      await enqueueSms(tx, {
+        telephone: customer.phoneE164!,
+        message: renderCampaignMessage(input.message, customer),
+        customerId: customer.id,
+        campaignId: campaign.id,
+        notBefore: new Date(start + index * CAMPAIGN_SEND_INTERVAL_MS)
+      })
+    }
+
+    for (const customer of optedOut) {
+      const reason = await getSmsRefusalReason(customer.id, null, tx)
+      await logSmsRefusal(tx, {
+        telephone: customer.phoneE164!,
+        message: renderCampaignMessage(input.message, customer),
+        campaignId: campaign.id,
+        customerId: customer.id
+      }, reason ?? "SMS désactivés pour ce client")
+    }
+
+    return campaign
+  })
+
+  return { success: true, data: created }
+}
+
+/**
+ * Campaign with its progress: messages still queued, sent and failed
+ * @returns null when the campaign does not exist
+ */
+export async function getCampaign(id: string) {
+  const campaign = await prisma.smsCampaign.findUnique({
+    where: { id },
+    include: {
+      createdBy: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    }
+  })
+
+  if (!campaign) {
+    return null
+  }
+
+  return formatCampaign(campaign, await getCampaignProgress([id]))
+}
+
+/**
+ * Lists campaigns, most recent first
+ */
+export async function listCampaigns(skip: number, take: number) {
+  const [campaigns, total] = await prisma.$transaction([
+    prisma.smsCampaign.findMany({
+      include: {
+        createdBy: {
+          select: {
+            id: true,
+            name: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take
+    }),
+    prisma.smsCampaign.count()
+  ])
+
+  const progress = await getCampaignProgress(campaigns.map(campaign => campaign.id))
+
+  return {
+    campaigns: campaigns.map(campaign => formatCampaign(campaign, progress)),
+    total
+  }
+}
+
+/**
+ * Stops a campaign: messages not sent yet are taken out of the queue
+ * @returns null when the campaign does not exist, false when it was already cancelled
+ */
+export async function cancelCampaign(id: string) {
+  const campaign = await prisma.smsCampaign.findUnique({
+    where: { id }
+  })
+
+  if (!campaign) {
+    return null
+  }
+
+  if (campaign.cancelledAt) {
+    return false
+  }
+
+  await prisma.$transaction([
+    prisma.smsOutbox.updateMany({
+      where: { campaignId: id, status: { in: ['QUEUED', 'FAILED'] } },
+      data: { status: 'DEAD', lastError: 'Campagne annulée' }
+    }),
+    prisma.smsCampaign.update({
+      where: { id },
+      data: { cancelledAt: new Date() }
+    })
+  ])
+
+  return getCampaign(id)
+}
+
+// États des messages de chaque campagne dans l'outbox (une ligne par destinataire, relances comprises)
+async function getCampaignProgress(campaignIds: string[]) {
+  const byStatus = await prisma.smsOutbox.groupBy({
+    by: ['campaignId', 'status'],
+    where: { campaignId: { in: campaignIds } },
+    _count: { _all: true }
+  })
+
+  const count = (id: string, statuses: string[]) => byStatus
+    .filter(entry => entry.campaignId === id && statuses.includes(entry.status))
+    .reduce((sum, entry) => sum + entry._count._all, 0)
+
+  return new Map(campaignIds.map(id => [id, {
+    pending: count(id, ['QUEUED', 'FAILED']),
+    sent: count(id, ['SENT']),
+    // Abandonnés après relances, refusés à l'envoi (STOP entre-temps) ou annulés
+    failed: count(id, ['DEAD'])
+  }]))
+}
+
+function formatCampaign(
+  campaign: {
+    id: string
+    name: string
+    message: string
+    segment: string
+    recipientCount: number
+    optedOutCount: number
+    cancelledAt: Date | null
+    createdAt: Date
+    createdBy: { id: string; name: string } | null
+  },
+  progress: Map<string, { pending: number; sent: number; failed: number }>
+) {
+  const counts = progress.get(campaign.id) ?? { pending: 0, sent: 0, failed: 0 }
+
+  return {
+    id: campaign.id,
+    name: campaign.name,
+    message: campaign.message,
+    segment: JSON.parse(campaign.segment) as CampaignSegment,
+    status: campaign.cancelledAt ? 'CANCELLED' : counts.pending > 0 ? 'SENDING' : 'COMPLETED',
+    recipientCount: campaign.recipientCount,
+    optedOutCount: campaign.optedOutCount,
+    ...counts,
+    createdBy: campaign.createdBy,
+    createdAt: campaign.createdAt.toISOString(),
+    cancelledAt: campaign.cancelledAt?.toISOString() ?? null
+  }
+}
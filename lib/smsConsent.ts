@@ -0,0 +1,205 @@
+import { Prisma } from "@prisma/client"
+import { prisma } from "./prisma"
+import { SMS_EVENTS, SMS_EVENT_LABELS, SmsEvent } from "./smsTemplates"
+import { normalizePhone } from "./phone"
+
+// Réponses désinscrivant le client (comparées sans accents ni ponctuation)
+export const SMS_STOP_KEYWORDS = ['STOP', 'ARRET', 'STOPSMS', 'DESINSCRIRE'] as const
+
+// Origine d'une désinscription
+export const SMS_OPT_OUT_SOURCES = ['STOP_REPLY', 'STAFF'] as const
+
+export type SmsOptOutSource = typeof SMS_OPT_OUT_SOURCES[number]
+
+// Canaux de notification des commandes
+export const NOTIFICATION_CHANNELS = ['SMS', 'EMAIL'] as const
+
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number]
+
+interface SmsPreferencesInput {
+  smsEnabled?: boolean
+  preferredChannel?: NotificationChannel
+  events?: Partial<Record<SmsEvent, boolean>>
+}
+
+/**
+ * Tells whether an inbound SMS is an opt-out request ("STOP", "Arrêt", "stop sms"...)
+ */
+export function isStopKeyword(text: string) {
+  const normalized = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z]/g, '')
+
+  return (SMS_STOP_KEYWORDS as readonly string[]).includes(normalized)
+}
+
+/**
+ * Channel used to notify a customer: the preferred one when the customer can be reached on it,
+ * otherwise the other one. null when the customer has neither a phone number nor an email
+ * An SMS opt-out does not switch the customer to email: it is handled as a refusal
+ */
+export function resolveNotificationChannel(customer: {
+  phone: string | null
+  email: string | null
+  preferredChannel: string
+}): NotificationChannel | null {
+  if (customer.preferredChannel === 'EMAIL' && customer.email) {
+    return 'EMAIL'
+  }
+
+  if (customer.phone) {
+    return 'SMS'
+  }
+
+  return customer.email ? 'EMAIL' : null
+}
+
+/**
+ * Reason why a customer must not receive a notification for an event, or null when sending is allowed
+ * The SMS opt-out only applies to the SMS channel; per-event preferences apply to both channels
+ * @param db - Prisma client, or the transaction client when called inside a transaction
+ * @param channel - Channel the notification goes through
+ */
+export async function getSmsRefusalReason(
+  customerId: string,
+  event: SmsEvent | null,
+  db: Prisma.TransactionClient = prisma,
+  channel: NotificationChannel = 'SMS'
+) {
+  const customer = await db.customer.findUnique({
+    where: { id: customerId },
+    select: {
+      smsEnabled: true,
+      smsOptOutAt: true,
+      smsOptOutSource: true,
+      smsPreferences: event ? { where: { event } } : false
+    }
+  })
+
+  if (!customer) {
+    return null
+  }
+
+  if (channel === 'SMS' && !customer.smsEnabled) {
+    return customer.smsOptOutSource === 'STOP_REPLY'
+      ? `Client désinscrit par réponse STOP le ${customer.smsOptOutAt?.toLocaleDateString('fr-FR') ?? '?'}`
+      : "SMS désactivés pour ce client"
+  }
+
+  if (event && customer.smsPreferences?.some(preference => !preference.enabled)) {
+    return `${channel === 'SMS' ? 'SMS' : 'Email'} "${SMS_EVENT_LABELS[event]}" désactivé pour ce client`
+  }
+
+  return null
+}
+
+/**
+ * Notification preferences of a customer: global switch and one entry per order event
+ * @returns null when the customer does not exist
+ */
+export async function getSmsPreferences(customerId: string) {
+  const customer = await prisma.customer.findUnique({
+    where: { id: customerId },
+    include: { smsPreferences: true }
+  })
+
+  if (!customer) {
+    return null
+  }
+
+  return {
+    customerId: customer.id,
+    smsEnabled: customer.smsEnabled,
+    smsOptOutAt: customer.smsOptOutAt?.toISOString() ?? null,
+    smsOptOutSource: customer.smsOptOutSource,
+    preferredChannel: customer.preferredChannel,
+    events: SMS_EVENTS.map(event => ({
+      event,
+      label: SMS_EVENT_LABELS[event],
+      // Sans préférence enregistrée, le client reçoit le SMS si le modèle est actif
+      enabled: customer.smsPreferences.find(preference => preference.event === event)?.enabled ?? true
+    }))
+  }
+}
+
+/**
+ * Updates the notification preferences of a customer (staff action)
+ * Turning SMS back on clears the opt-out, e.g. when the customer asks for it at the counter
+ * @returns null when the customer does not exist
+ */
+export async function updateSmsPreferences(customerId: string, input: SmsPreferencesInput) {
+  const customer = await prisma.customer.findUnique({
+    where: { id: customerId },
+    select: { id: true, smsEnabled: true, preferredChannel: true }
+  })
+
+  if (!customer) {
+    return null
+  }
+
+  await prisma.$transaction(async (tx) => {
+    if (input.smsEnabled !== undefined && input.smsEnabled !== customer.smsEnabled) {
+      await tx.customer.update({
+        where: { id: customerId },
+        data: input.smsEnabled
+          ? { smsEnabled: true, smsOptOutAt: null, smsOptOutSource: null }
+          : { smsEnabled: false, smsOptOutAt: new Date(), smsOptOutSource: 'STAFF' }
+      })
+    }
+
+    if (input.preferredChannel && input.preferredChannel !== customer.preferredChannel) {
+      await tx.customer.update({
+        where: { id: customerId },
+        data: { preferredChannel: input.preferredChannel }
+      })
+    }
+
+    for (const [event, enabled] of Object.entries(input.events ?? {})) {
+      await tx.customerSmsPreference.upsert({
+        where: { customerId_event: { customerId, event } },
+        create: { customerId, event, enabled },
+        update: { enabled }
+      })
+    }
+  })
+
+  return getSmsPreferences(customerId)
+}
+
+/**
+ * Handles an SMS received from a customer: a STOP keyword opts out every customer with that number
+ * @returns Whether the message was an opt-out and the customers affected
+ */
+export async function processInboundSms(from: string, text: string) {
+  if (!isStopKeyword(text)) {
+    return { optOut: false, customerIds: [] as string[] }
+  }
+
+  const phone = normalizePhone(from)
+  if (!phone.success) {
+    console.warn(`SMS opt-out from an invalid number: ${from}`)
+    return { optOut: true, customerIds: [] as string[] }
+  }
+
+  const customers = await prisma.customer.findMany({
+    where: { phoneE164: phone.e164, smsEnabled: true },
+    select: { id: true }
+  })
+  const customerIds = customers.map(customer => customer.id)
+
+  if (customerIds.length > 0) {
+    await prisma.customer.updateMany({
+      where: { id: { in: customerIds } },
+      data: {
+        smsEnabled: false,
+        smsOptOutAt: new Date(),
+        smsOptOutSource: 'STOP_REPLY'
+      }
+    })
+  }
+
+  console.log(`SMS opt-out from ${from}: ${customerIds.length} customer(s) unsubscribed`)
+  return { optOut: true, customerIds }
+}
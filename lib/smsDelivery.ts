@@ -0,0 +1,101 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import { prisma } from "./prisma"
+import { formatSmsLog } from "./smsLogs"
+import { ErrorCode, ErrorDetails } from "./errorCodes"
+
+// Statuts de remise renvoyés par les accusés de réception
+export const SMS_DELIVERY_STATUSES = [
+  'DELIVERED',
+  'UNDELIVERED',
+  'EXPIRED'
+] as const
+
+export type SmsDeliveryStatus = typeof SMS_DELIVERY_STATUSES[number]
+
+interface DeliveryReceipt {
+  providerMessageId: string
+  status: SmsDeliveryStatus
+  // Horodatage fourni par l'opérateur (date de réception du webhook à défaut)
+  timestamp?: Date
+  error?: string
+}
+
+type DeliveryReceiptResult =
+  | { success: true; data: { id: string; orderId: string | null; deliveryStatus: string | null; ignored: boolean } }
+  | { success: false; code: ErrorCode; details?: ErrorDetails }
+
+/**
+ * Computes the signature expected for a webhook body: hex HMAC-SHA256 of the raw body
+ */
+export function signWebhookPayload(rawBody: string, secret: string) {
+  return createHmac('sha256', secret).update(rawBody).digest('hex')
+}
+
+/**
+ * Checks the signature header of a webhook call against the shared secret
+ * Accepts the bare hex digest or the "sha256=<hex>" form
+ */
+export function verifyWebhookSignature(rawBody: string, signature: string | null, secret: string) {
+  if (!signature) {
+    return false
+  }
+
+  const received = Buffer.from(signature.replace(/^sha256=/, '').trim().toLowerCase(), 'utf8')
+  const expected = Buffer.from(signWebhookPayload(rawBody, secret), 'utf8')
+
+  // timingSafeEqual exige des tampons de même longueur
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+/**
+ * Stores a delivery receipt on the SmsLog entry carrying the provider message id
+ * A receipt older than the one already stored is ignored (callbacks can arrive out of order)
+ */
+export async function recordDeliveryReceipt(receipt: DeliveryReceipt): Promise<DeliveryReceiptResult> {
+  const log = await prisma.smsLog.findFirst({
+    where: { providerMessageId: receipt.providerMessageId },
+    orderBy: { dateEnvoi: 'desc' }
+  })
+
+  // 404 : l'opérateur retentera, le log peut ne pas encore être écrit
+  if (!log) {
+    return { success: false, code: 'SMS_NOT_FOUND', details: { messageId: receipt.providerMessageId } }
+  }
+
+  const receivedAt = new Date()
+  const statusAt = receipt.timestamp ?? receivedAt
+
+  if (log.deliveryStatusAt && log.deliveryStatusAt > statusAt) {
+    return {
+      success: true,
+      data: { id: log.id, orderId: log.orderId, deliveryStatus: log.deliveryStatus, ignored: true }
+    }
+  }
+
+  const updated = await prisma.smsLog.update({
+    where: { id: log.id },
+    data: {
+      deliveryStatus: receipt.status,
+      deliveryStatusAt: statusAt,
+      deliveryReceivedAt: receivedAt,
+      deliveryError: receipt.status === 'DELIVERED' ? null : receipt.error || null
+    }
+  })
+
+  return {
+    success: true,
+    data: { id: updated.id, orderId: updated.orderId, deliveryStatus: updated.deliveryStatus, ignored: false }
+  }
+}
+
+/**
+ * SMS sent for an order with their delivery status, most recent first
+ */
+export async function getOrderSmsLogs(orderId: string) {
+  const logs = await prisma.smsLog.findMany({
+    where: { orderId },
+    orderBy: { dateEnvoi: 'desc' }
+  })
+
+  return logs.map(formatSmsLog)
+}
@@ -0,0 +1,200 @@
+import { Prisma, SmsLog, SmsOutbox } from "@prisma/client"
+import { prisma } from "./prisma"
+import { SMS_REFUSED_PREFIX, deliverSmsOutboxMessage, enqueueSms } from "./smsOutbox"
+import { ErrorCode, ErrorDetails, apiError } from "./errorCodes"
+import { SmsEvent } from "./smsTemplates"
+import { normalizePhone } from "./phone"
+
+// Nombre de motifs d'échec renvoyés dans les statistiques
+const TOP_FAILURE_REASONS = 10
+
+type ResendResult =
+  | { success: true; data: SmsOutbox }
+  | { success: false; code: ErrorCode; details?: ErrorDetails }
+
+/**
+ * Formats an SmsLog entry for API responses
+ */
+export function formatSmsLog(log: SmsLog) {
+  return {
+    id: log.id,
+    telephone: log.telephone,
+    message: log.message,
+    orderId: log.orderId,
+    campaignId: log.campaignId,
+    sentAt: log.dateEnvoi.toISOString(),
+    success: log.success,
+    errorMessage: log.errorMessage,
+    providerMessageId: log.providerMessageId,
+    deliveryStatus: log.deliveryStatus,
+    deliveryStatusAt: log.deliveryStatusAt?.toISOString() ?? null,
+    deliveryReceivedAt: log.deliveryReceivedAt?.toISOString() ?? null,
+    deliveryError: log.deliveryError
+  }
+}
+
+/**
+ * Sent/failed counters for the logs matching a filter: per day (UTC) and by failure reason
+ * @param where - Same filter as the listed logs
+ */
+export async function getSmsLogStats(where: Prisma.SmsLogWhereInput) {
+  const logs = await prisma.smsLog.findMany({
+    where,
+    select: { dateEnvoi: true, success: true }
+  })
+
+  const byDay = new Map<string, { date: string; sent: number; failed: number }>()
+
+  for (const log of logs) {
+    const date = log.dateEnvoi.toISOString().slice(0, 10)
+    const entry = byDay.get(date) ?? { date, sent: 0, failed: 0 }
+
+    if (log.success) {
+      entry.sent++
+    } else {
+      entry.failed++
+    }
+    byDay.set(date, entry)
+  }
+
+  const reasons = await prisma.smsLog.groupBy({
+    by: ['errorMessage'],
+    where: { ...where, success: false },
+    _count: { _all: true }
+  })
+
+  const sent = logs.filter(log => log.success).length
+
+  return {
+    total: logs.length,
+    sent,
+    failed: logs.length - sent,
+    successRate: logs.length > 0 ? Math.round((sent / logs.length) * 1000) / 10 : null,
+    byDay: Array.from(byDay.values()).sort((a, b) => a.date.localeCompare(b.date)),
+    failureReasons: reasons
+      .map(reason => ({
+        reason: reason.errorMessage ?? 'Inconnu',
+        count: reason._count._all
+      }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_FAILURE_REASONS)
+  }
+}
+
+async function findCustomerIdByPhone(telephone: string) {
+  // Le journal garde le numéro tel que saisi ; les clients sont indexés par leur numéro E.164
+  const phone = normalizePhone(telephone)
+  if (!phone.success) {
+    return null
+  }
+
+  const customer = await prisma.customer.findFirst({
+    where: { phoneE164: phone.e164 },
+    select: { id: true }
+  })
+
+  return customer?.id ?? null
+}
+
+/**
+ * Sends a failed SMS again through the outbox (a new SmsLog entry records the outcome)
+ * Messages refused because of a customer opt-out cannot be resent, and the opt-out is checked again before sending
+ * A log entry is resent once; when it comes from an outbox message given up (DEAD), that message is requeued
+ * rather than duplicated, and nothing is resent while it still has automatic retries pending
+ * @param id - Failed SmsLog entry
+ */
+export async function resendSmsLog(id: string): Promise<ResendResult> {
+  const log = await prisma.smsLog.findUnique({
+    where: { id }
+  })
+
+  if (!log) {
+    return { success: false, code: 'SMS_NOT_FOUND', details: { smsId: id } }
+  }
+
+  if (log.success) {
+    return { success: false, code: 'SMS_NOT_FAILED', details: { smsId: id } }
+  }
+
+  if (log.errorMessage?.startsWith(SMS_REFUSED_PREFIX)) {
+    return { success: false, code: 'SMS_REFUSED', details: { smsId: id } }
+  }
+
+  if (log.resentAt) {
+    return { success: false, code: 'SMS_ALREADY_RESENT', details: { smsId: id } }
+  }
+
+  const outbox = log.outboxId
+    ? await prisma.smsOutbox.findUnique({ where: { id: log.outboxId } })
+    : null
+
+  // Relances automatiques encore prévues : un renvoi enverrait le SMS en double
+  if (outbox && (outbox.status === 'QUEUED' || outbox.status === 'FAILED')) {
+    return { success: false, code: 'SMS_RETRY_PENDING', details: { smsId: id, outboxId: outbox.id } }
+  }
+
+  // Une tentative suivante du même message a abouti
+  if (outbox?.status === 'SENT') {
+    return { success: false, code: 'SMS_NOT_FAILED', details: { smsId: id } }
+  }
+
+  // Les messages d'une campagne annulée ne repartent pas
+  if (log.campaignId) {
+    const campaign = await prisma.smsCampaign.findUnique({
+      where: { id: log.campaignId },
+      select: { cancelledAt: true }
+    })
+    if (campaign?.cancelledAt) {
+      return { success: false, code: 'OUTBOX_MESSAGE_NOT_RETRYABLE', details: { smsId: id } }
+    }
+  }
+
+  // Le client est repris pour que l'envoi revérifie son consentement (STOP depuis le premier envoi)
+  // Journaux antérieurs sans client : celui de la commande est retrouvé à l'envoi, sinon par le numéro
+  const customerId = log.customerId ?? (log.orderId ? null : await findCustomerIdByPhone(log.telephone))
+
+  const queued = await prisma.$transaction(async tx => {
+    // Réservation du journal : deux renvois simultanés n'envoient qu'un SMS
+    const claimed = await tx.smsLog.updateMany({
+      where: { id, resentAt: null },
+      data: { resentAt: new Date() }
+    })
+
+    if (claimed.count === 0) {
+      throw apiError('SMS_ALREADY_RESENT', { smsId: id })
+    }
+
+    if (!outbox) {
+      return enqueueSms(tx, {
+        telephone: log.telephone,
+        message: log.message,
+        orderId: log.orderId,
+        campaignId: log.campaignId,
+        customerId,
+        event: log.event as SmsEvent | null
+      })
+    }
+
+    // Message abandonné remis en file, à condition qu'un autre renvoi ne l'ait pas déjà fait
+    const requeued = await tx.smsOutbox.updateMany({
+      where: { id: outbox.id, status: 'DEAD' },
+      data: {
+        status: 'QUEUED',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        lastError: null
+      }
+    })
+
+    if (requeued.count === 0) {
+      throw apiError('SMS_RETRY_PENDING', { smsId: id, outboxId: outbox.id })
+    }
+
+    return tx.smsOutbox.findUniqueOrThrow({ where: { id: outbox.id } })
+  })
+
+  // Envoi immédiat ; en cas d'échec le message reste dans l'outbox avec les relances habituelles
+  const delivered = await deliverSmsOutboxMessage(queued.id)
+
+  return { success: true, data: delivered ?? queued }
+}
@@ -0,0 +1,483 @@
+import { Prisma } from "@prisma/client"
+import { prisma } from "./prisma"
+import { envoyerSmsCommande } from "./sms"
+import { envoyerEmailCommande } from "./email"
+import {
+  SmsEvent,
+  SMS_EVENT_LABELS,
+  getSmsTemplate,
+  renderTemplate,
+  buildOrderSmsContext
+} from "./smsTemplates"
+import { NotificationChannel, getSmsRefusalReason, resolveNotificationChannel } from "./smsConsent"
+
+// États d'un message de l'outbox
+export const SMS_OUTBOX_STATUSES = [
+  'QUEUED',
+  'SENT',
+  'FAILED',
+  'DEAD'
+] as const
+
+export type SmsOutboxStatus = typeof SMS_OUTBOX_STATUSES[number]
+
+// Au-delà, le message passe en DEAD et n'est plus retenté automatiquement
+export const SMS_MAX_ATTEMPTS = 5
+
+// Délai avant la 2e tentative, doublé à chaque échec (30s, 1min, 2min, 4min...)
+const BACKOFF_BASE_MS = 30 * 1000
+const BACKOFF_MAX_MS = 60 * 60 * 1000
+
+// Un message pris par un worker est réservé pendant ce délai (évite un double envoi)
+const CLAIM_LEASE_MS = 60 * 1000
+
+const DEFAULT_BATCH_SIZE = 20
+
+// Préfixe du SmsLog / EmailLog d'un message non envoyé faute de consentement du client
+export const SMS_REFUSED_PREFIX = 'Refusé : '
+
+interface OutboxMessageInput {
+  telephone: string
+  message: string
+  orderId?: string | null
+  event?: SmsEvent | null
+  customerId?: string | null
+  campaignId?: string | null
+  // Envoi différé (étalement des campagnes)
+  notBefore?: Date
+}
+
+interface OutboxEmailInput {
+  email: string
+  subject: string
+  message: string
+  orderId?: string | null
+  event?: SmsEvent | null
+  customerId?: string | null
+}
+
+interface OrderForNotification {
+  id: string
+  total: number
+  customer: {
+    id: string
+    name: string
+    phone: string | null
+    email: string | null
+    preferredChannel: string
+  }
+  orderItems: { quantity: number; product: { name: string; unit: string } }[]
+}
+
+/**
+ * Computes the delay before the next attempt
+ * @param attempts - Number of attempts already made
+ */
+export function computeBackoff(attempts: number) {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS)
+}
+
+/**
+ * Adds an SMS to the outbox
+ * Call it with the transaction client so the message is only queued if the business change commits
+ */
+export async function enqueueSms(
+  tx: Prisma.TransactionClient,
+  input: OutboxMessageInput
+) {
+  return tx.smsOutbox.create({
+    data: {
+      telephone: input.telephone,
+      message: input.message,
+      orderId: input.orderId ?? null,
+      event: input.event ?? null,
+      customerId: input.customerId ?? null,
+      campaignId: input.campaignId ?? null,
+      ...(input.notBefore ? { nextAttemptAt: input.notBefore } : {})
+    }
+  })
+}
+
+/**
+ * Adds an email to the outbox (same queue, retries and worker as SMS)
+ */
+export async function enqueueEmail(
+  tx: Prisma.TransactionClient,
+  input: OutboxEmailInput
+) {
+  return tx.smsOutbox.create({
+    data: {
+      channel: 'EMAIL',
+      email: input.email,
+      subject: input.subject,
+      message: input.message,
+      orderId: input.orderId ?? null,
+      event: input.event ?? null,
+      customerId: input.customerId ?? null
+    }
+  })
+}
+
+/**
+ * Records in SmsLog a message that was not sent because the customer refused it
+ */
+export async function logSmsRefusal(
+  db: Prisma.TransactionClient,
+  input: {
+    telephone: string
+    message: string
+    orderId?: string | null
+    campaignId?: string | null
+    customerId?: string | null
+    event?: string | null
+  },
+  reason: string
+) {
+  console.warn(`SMS to ${input.telephone} not sent: ${reason}`)
+
+  await db.smsLog.create({
+    data: {
+      telephone: input.telephone,
+      message: input.message,
+      orderId: input.orderId ?? null,
+      campaignId: input.campaignId ?? null,
+      customerId: input.customerId ?? null,
+      event: input.event ?? null,
+      success: false,
+      errorMessage: `${SMS_REFUSED_PREFIX}${reason}`
+    }
+  })
+}
+
+/**
+ * Records in EmailLog an email that was not sent because the customer refused it
+ */
+async function logEmailRefusal(
+  db: Prisma.TransactionClient,
+  input: { email: string; subject: string; message: string; orderId?: string | null },
+  reason: string
+) {
+  console.warn(`Email to ${input.email} not sent: ${reason}`)
+
+  await db.emailLog.create({
+    data: {
+      email: input.email,
+      subject: input.subject,
+      message: input.message,
+      orderId: input.orderId ?? null,
+      success: false,
+      errorMessage: `${SMS_REFUSED_PREFIX}${reason}`
+    }
+  })
+}
+
+/**
+ * Renders the template of an order event and queues it on the customer's channel
+ * (see resolveNotificationChannel). Nothing is queued when the template is inactive (unless forced),
+ * the customer cannot be reached, or the customer opted out of this notification (the refusal is logged)
+ * @param tx - Transaction client of the status change
+ * @param event - Order event
+ * @param order - Order with customer and items
+ * @param force - Queue even if the template is inactive (manual notification); never overrides an opt-out
+ * @returns The queued message, or null with the reason it was skipped
+ */
+export async function enqueueOrderNotification(
+  tx: Prisma.TransactionClient,
+  event: SmsEvent,
+  order: OrderForNotification,
+  force = false
+) {
+  const template = await getSmsTemplate(event, tx)
+
+  if (!template.active && !force) {
+    return { queued: null, reason: 'Template inactive' }
+  }
+
+  const channel = resolveNotificationChannel(order.customer)
+
+  if (!channel) {
+    console.warn(`Order ${order.id} (${event}): customer has no phone number nor email`)
+    return { queued: null, reason: 'Customer has no phone number nor email' }
+  }
+
+  const context = buildOrderSmsContext(order)
+  const message = renderTemplate(template.body, context)
+  const refusal = await getSmsRefusalReason(order.customer.id, event, tx, channel)
+
+  if (channel === 'EMAIL') {
+    const input = {
+      email: order.customer.email!,
+      subject: `${SMS_EVENT_LABELS[event]} (${context.orderId})`,
+      message,
+      orderId: order.id,
+      event,
+      customerId: order.customer.id
+    }
+
+    if (refusal) {
+      await logEmailRefusal(tx, input, refusal)
+      return { queued: null, reason: refusal }
+    }
+
+    return { queued: await enqueueEmail(tx, input), reason: null }
+  }
+
+  const input = {
+    telephone: order.customer.phone!,
+    message,
+    orderId: order.id,
+    event,
+    customerId: order.customer.id
+  }
+
+  if (refusal) {
+    await logSmsRefusal(tx, input, refusal)
+    return { queued: null, reason: refusal }
+  }
+
+  return { queued: await enqueueSms(tx, input), reason: null }
+}
+
+// Consentement du destinataire au moment de l'envoi (client enregistré, ou client de la commande)
+async function getMessageRefusalReason(message: {
+  channel: string
+  customerId: string | null
+  orderId: string | null
+  event: string | null
+}) {
+  let customerId = message.customerId
+
+  if (!customerId && message.orderId) {
+    const order = await prisma.order.findUnique({
+      where: { id: message.orderId },
+      select: { customerId: true }
+    })
+    customerId = order?.customerId ?? null
+  }
+
+  return customerId
+    ? getSmsRefusalReason(customerId, message.event as SmsEvent | null, prisma, message.channel as NotificationChannel)
+    : null
+}
+
+/**
+ * Sends one outbox message and records the outcome
+ * The message is claimed first so two workers never send it twice
+ * @returns The updated message, or null if it was not due or already claimed
+ */
+export async function deliverSmsOutboxMessage(id: string) {
+  const message = await prisma.smsOutbox.findUnique({
+    where: { id }
+  })
+
+  if (!message || (message.status !== 'QUEUED' && message.status !== 'FAILED')) {
+    return null
+  }
+
+  const now = new Date()
+
+  // Réservation optimiste : échoue si un autre worker a déjà pris le message
+  const claimed = await prisma.smsOutbox.updateMany({
+    where: {
+      id,
+      status: message.status,
+      attempts: message.attempts,
+      nextAttemptAt: { lte: now }
+    },
+    data: {
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS)
+    }
+  })
+
+  if (claimed.count === 0) {
+    return null
+  }
+
+  // Le client a pu répondre STOP depuis la mise en file : pas d'envoi ni de nouvelle tentative
+  const refusal = await getMessageRefusalReason(message)
+  if (refusal) {
+    if (message.channel === 'EMAIL') {
+      await logEmailRefusal(prisma, { ...message, email: message.email ?? '', subject: message.subject ?? '' }, refusal)
+    } else {
+      await logSmsRefusal(prisma, { ...message, telephone: message.telephone ?? '' }, refusal)
+    }
+
+    return prisma.smsOutbox.update({
+      where: { id },
+      data: {
+        status: 'DEAD',
+        lastError: `${SMS_REFUSED_PREFIX}${refusal}`
+      }
+    })
+  }
+
+  const attempts = message.attempts + 1
+  const result = message.channel === 'EMAIL'
+    ? await envoyerEmailCommande(
+      message.email ?? '',
+      message.subject ?? '',
+      message.message,
+      message.orderId ?? undefined
+    )
+    : await envoyerSmsCommande(
+      message.telephone ?? '',
+      message.message,
+      {
+        orderId: message.orderId ?? undefined,
+        campaignId: message.campaignId ?? undefined,
+        customerId: message.customerId ?? undefined,
+        event: message.event ?? undefined,
+        outboxId: message.id
+      }
+    )
+
+  if (result.success) {
+    return prisma.smsOutbox.update({
+      where: { id },
+      data: {
+        status: 'SENT',
+        sentAt: new Date(),
+        lastError: null
+      }
+    })
+  }
+
+  const dead = attempts >= SMS_MAX_ATTEMPTS
+
+  return prisma.smsOutbox.update({
+    where: { id },
+    data: {
+      status: dead ? 'DEAD' : 'FAILED',
+      lastError: result.error ?? 'Unknown error',
+      nextAttemptAt: new Date(Date.now() + computeBackoff(attempts))
+    }
+  })
+}
+
+/**
+ * Sends the messages that are due (QUEUED, or FAILED whose backoff has elapsed)
+ * @param limit - Maximum number of messages handled in this run
+ * @returns Counters of the run
+ */
+export async function processSmsOutbox(limit = DEFAULT_BATCH_SIZE) {
+  const due = await prisma.smsOutbox.findMany({
+    where: {
+      status: { in: ['QUEUED', 'FAILED'] },
+      nextAttemptAt: { lte: new Date() }
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit,
+    select: { id: true }
+  })
+
+  const summary = { processed: 0, sent: 0, failed: 0, dead: 0, skipped: 0 }
+
+  // Envoi séquentiel : la passerelle SMS (téléphone Android) ne supporte pas la rafale
+  for (const { id } of due) {
+    const message = await deliverSmsOutboxMessage(id)
+
+    if (!message) {
+      summary.skipped++
+      continue
+    }
+
+    summary.processed++
+    if (message.status === 'SENT') summary.sent++
+    if (message.status === 'FAILED') summary.failed++
+    if (message.status === 'DEAD') summary.dead++
+  }
+
+  return summary
+}
+
+/**
+ * Kicks the outbox right after a commit so messages do not wait for the next cron run
+ * Never throws: the cron worker picks up anything left behind
+ */
+export function flushSmsOutbox() {
+  processSmsOutbox().catch(error => {
+    console.error("Error processing SMS outbox:", error)
+  })
+}
+
+/**
+ * Puts a FAILED or DEAD message back in the queue with a fresh attempt counter
+ * @returns null when the message does not exist, false when it cannot be retried (not failed, or cancelled campaign)
+ */
+export async function requeueSmsOutboxMessage(id: string) {
+  const message = await prisma.smsOutbox.findUnique({
+    where: { id }
+  })
+
+  if (!message) {
+    return null
+  }
+
+  if (message.status !== 'FAILED' && message.status !== 'DEAD') {
+    return false
+  }
+
+  // Les messages d'une campagne annulée ne repartent pas
+  if (message.campaignId) {
+    const campaign = await prisma.smsCampaign.findUnique({
+      where: { id: message.campaignId },
+      select: { cancelledAt: true }
+    })
+    if (campaign?.cancelledAt) {
+      return false
+    }
+  }
+
+  return prisma.smsOutbox.update({
+    where: { id },
+    data: {
+      status: 'QUEUED',
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastError: null
+    }
+  })
+}
+
+/**
+ * Formats an outbox message for API responses
+ */
+export function formatSmsOutboxMessage(message: {
+  id: string
+  channel: string
+  telephone: string | null
+  email: string | null
+  subject: string | null
+  message: string
+  orderId: string | null
+  event: string | null
+  campaignId: string | null
+  status: string
+  attempts: number
+  nextAttemptAt: Date
+  lastError: string | null
+  sentAt: Date | null
+  createdAt: Date
+}) {
+  return {
+    id: message.id,
+    channel: message.channel,
+    telephone: message.telephone,
+    email: message.email,
+    subject: message.subject,
+    message: message.message,
+    orderId: message.orderId,
+    event: message.event,
+    campaignId: message.campaignId,
+    status: message.status,
+    attempts: message.attempts,
+    maxAttempts: SMS_MAX_ATTEMPTS,
+    nextAttemptAt: message.status === 'QUEUED' || message.status === 'FAILED'
+      ? message.nextAttemptAt.toISOString()
+      : null,
+    lastError: message.lastError,
+    sentAt: message.sentAt?.toISOString() ?? null,
+    createdAt: message.createdAt.toISOString()
+  }
+}
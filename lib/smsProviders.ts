@@ -0,0 +1,208 @@
+import { appendFile } from "fs/promises"
+
+export interface SmsSendResult {
+  success: boolean
+  error?: string
+  // Identifiant du message chez l'opérateur (accusés de réception)
+  providerMessageId?: string
+}
+
+export interface SmsProvider {
+  name: string
+  send(telephone: string, message: string): Promise<SmsSendResult>
+}
+
+export const SMS_PROVIDER_NAMES = ['http-get', 'http-json', 'fake'] as const
+
+export type SmsProviderName = typeof SMS_PROVIDER_NAMES[number]
+
+// Délai maximum d'un appel à la passerelle
+const REQUEST_TIMEOUT_MS = 10000
+
+async function fetchWithTimeout(url: string, init: RequestInit = {}) {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal })
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : "Unknown error"
+}
+
+/**
+ * Android "SMS Gateway API" app: GET request with the API key in the query string
+ * Kept for the existing installation; prefer the JSON provider when the gateway supports it
+ */
+export function createHttpGetProvider(config: { url: string; apiKey: string }): SmsProvider {
+  return {
+    name: 'http-get',
+    async send(telephone, message) {
+      const url = `${config.url}?phone=${encodeURIComponent(telephone)}&text=${encodeURIComponent(message)}&apikey=${encodeURIComponent(config.apiKey)}`
+
+      try {
+        const response = await fetchWithTimeout(url, { method: 'GET' })
+
+        if (!response.ok) {
+          return { success: false, error: `SMS Gateway returned status ${response.status}` }
+        }
+
+        return { success: true }
+      } catch (error) {
+        return { success: false, error: errorMessage(error) }
+      }
+    }
+  }
+}
+
+/**
+ * HTTP gateway taking a JSON body, authenticated by a header (the key never appears in URLs or logs)
+ * Body: { "phone": "...", "text": "..." }; the response may return the message id as "id" or "messageId"
+ */
+export function createHttpJsonProvider(config: {
+  url: string
+  apiKey: string
+  authHeader?: string
+}): SmsProvider {
+  const headerName = config.authHeader || 'Authorization'
+  const headerValue = headerName.toLowerCase() === 'authorization'
+    ? `Bearer ${config.apiKey}`
+    : config.apiKey
+
+  return {
+    name: 'http-json',
+    async send(telephone, message) {
+      try {
+        const response = await fetchWithTimeout(config.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            [headerName]: headerValue
+          },
+          body: JSON.stringify({ phone: telephone, text: message })
+        })
+
+        if (!response.ok) {
+          return { success: false, error: `SMS Gateway returned status ${response.status}` }
+        }
+
+        const body = await response.json().catch(() => null) as { id?: unknown; messageId?: unknown } | null
+        const providerMessageId = body?.messageId ?? body?.id
+
+        return {
+          success: true,
+          providerMessageId: providerMessageId !== undefined && providerMessageId !== null
+            ? String(providerMessageId)
+            : undefined
+        }
+      } catch (error) {
+        return { success: false, error: errorMessage(error) }
+      }
+    }
+  }
+}
+
+export interface FakeSms {
+  id: string
+  telephone: string
+  message: string
+  sentAt: string
+}
+
+// Messages "envoyés" par le fournisseur fake (process courant)
+const fakeSentMessages: FakeSms[] = []
+
+/**
+ * Messages recorded by the fake provider since the process started (dev and tests)
+ */
+export function getFakeSentMessages(): readonly FakeSms[] {
+  return fakeSentMessages
+}
+
+export function clearFakeSentMessages() {
+  fakeSentMessages.length = 0
+}
+
+/**
+ * Fake provider for development and tests: nothing leaves the machine
+ * Messages are kept in memory and, when a file is given, appended to it as JSON lines
+ * @param config.file - Optional JSON lines file
+ * @param config.failureRate - Share of sends that fail (0 to 1), to exercise retries
+ */
+export function createFakeProvider(config: { file?: string; failureRate?: number } = {}): SmsProvider {
+  return {
+    name: 'fake',
+    async send(telephone, message) {
+      if (config.failureRate && Math.random() < config.failureRate) {
+        return { success: false, error: "Fake provider: simulated failure" }
+      }
+
+      const sms: FakeSms = {
+        id: `fake-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        telephone,
+        message,
+        sentAt: new Date().toISOString()
+      }
+
+      fakeSentMessages.push(sms)
+
+      if (config.file) {
+        try {
+          await appendFile(config.file, JSON.stringify(sms) + "\n")
+        } catch (error) {
+          return { success: false, error: `Fake provider: ${errorMessage(error)}` }
+        }
+      }
+
+      console.log("Fake SMS:", sms)
+      return { success: true, providerMessageId: sms.id }
+    }
+  }
+}
+
+let cachedProvider: { key: string; provider: SmsProvider } | null = null
+
+/**
+ * Returns the provider selected by SMS_PROVIDER (http-get by default)
+ * @throws Error when the selected provider is not configured
+ */
+export function getSmsProvider(): SmsProvider {
+  const name = (process.env.SMS_PROVIDER || 'http-get') as SmsProviderName
+  const url = process.env.SMS_GATEWAY_URL
+  const apiKey = process.env.SMS_GATEWAY_API_KEY
+
+  // Recréé si la configuration change (tests, rechargement des variables)
+  const key = [name, url, apiKey, process.env.SMS_GATEWAY_AUTH_HEADER, process.env.SMS_FAKE_FILE, process.env.SMS_FAKE_FAILURE_RATE].join('|')
+  if (cachedProvider?.key === key) {
+    return cachedProvider.provider
+  }
+
+  let provider: SmsProvider
+
+  switch (name) {
+    case 'fake':
+      provider = createFakeProvider({
+        file: process.env.SMS_FAKE_FILE || undefined,
+        failureRate: parseFloat(process.env.SMS_FAKE_FAILURE_RATE || '0')
+      })
+      break
+    case 'http-get':
+    case 'http-json':
+      if (!url || !apiKey) {
+        throw new Error("SMS Gateway not configured. Please set SMS_GATEWAY_URL and SMS_GATEWAY_API_KEY")
+      }
+      provider = name === 'http-json'
+        ? createHttpJsonProvider({ url, apiKey, authHeader: process.env.SMS_GATEWAY_AUTH_HEADER })
+        : createHttpGetProvider({ url, apiKey })
+      break
+    default:
+      throw new Error(`Unknown SMS provider "${name}". Use one of: ${SMS_PROVIDER_NAMES.join(', ')}`)
+  }
+
+  cachedProvider = { key, provider }
+  return provider
+}
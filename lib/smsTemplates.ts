@@ -0,0 +1,236 @@
+import { Prisma } from "@prisma/client"
+import { prisma } from "./prisma"
+
+// Événements de commande pouvant déclencher un SMS
+export const SMS_EVENTS = [
+  'ORDER_CONFIRMED',
+  'ORDER_READY',
+  'ORDER_DELIVERED',
+  'ORDER_CANCELLED',
+  'ORDER_DELAYED'
+] as const
+
+export type SmsEvent = typeof SMS_EVENTS[number]
+
+export const SMS_EVENT_LABELS: Record<SmsEvent, string> = {
+  ORDER_CONFIRMED: 'Commande confirmée',
+  ORDER_READY: 'Commande prête',
+  ORDER_DELIVERED: 'Commande livrée',
+  ORDER_CANCELLED: 'Commande annulée',
+  ORDER_DELAYED: 'Commande retardée'
+}
+
+// Événement déclenché par un passage de statut (ORDER_DELAYED est manuel)
+export const SMS_EVENT_BY_STATUS: Record<string, SmsEvent> = {
+  PENDING: 'ORDER_CONFIRMED',
+  READY: 'ORDER_READY',
+  DELIVERED: 'ORDER_DELIVERED',
+  CANCELLED: 'ORDER_CANCELLED'
+}
+
+export const SMS_PLACEHOLDERS = ['customerName', 'items', 'total', 'orderId'] as const
+
+type SmsPlaceholder = typeof SMS_PLACEHOLDERS[number]
+
+export type SmsTemplateContext = Record<SmsPlaceholder, string>
+
+// Modèles utilisés tant qu'aucun modèle n'a été enregistré par un admin.
+// Seul le SMS "commande prête" part automatiquement par défaut, comme avant.
+export const DEFAULT_SMS_TEMPLATES: Record<SmsEvent, { body: string; active: boolean }> = {
+  ORDER_CONFIRMED: {
+    body: 'Bonjour {customerName}, nous avons bien reçu votre commande {orderId} ({total}). Merci !',
+    active: false
+  },
+  ORDER_READY: {
+    body: 'Bonjour {customerName}, votre commande est prête : {items}. Merci !',
+    active: true
+  },
+  ORDER_DELIVERED: {
+    body: 'Bonjour {customerName}, votre commande {orderId} a été remise. Bonne dégustation !',
+    active: false
+  },
+  ORDER_CANCELLED: {
+    body: 'Bonjour {customerName}, votre commande {orderId} a été annulée. Contactez-nous pour toute question.',
+    active: false
+  },
+  ORDER_DELAYED: {
+    body: 'Bonjour {customerName}, votre commande {orderId} aura un peu de retard. Nous vous prévenons dès qu\'elle est prête.',
+    active: false
+  }
+}
+
+// Contexte d'exemple pour estimer la longueur d'un modèle à l'enregistrement
+const SAMPLE_CONTEXT: SmsTemplateContext = {
+  customerName: 'M. Dupont',
+  items: 'Saumon (2 kg), Crevettes (0.5 kg)',
+  total: '45.50 €',
+  orderId: 'A1B2C3D4'
+}
+
+// Alphabet GSM 03.38 (7 bits) : au-delà, le SMS passe en UCS-2 et la limite tombe à 70 caractères
+const GSM_BASIC_CHARS =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+const GSM_EXTENDED_CHARS = '^{}\\[~]|€\f'
+
+const SEGMENT_LIMITS = {
+  'GSM-7': { single: 160, multipart: 153 },
+  'UCS-2': { single: 70, multipart: 67 }
+}
+
+/**
+ * Computes the encoding, length and number of segments of an SMS
+ * @param message - Rendered message
+ * @returns Segment information and a warning when the message needs more than one SMS
+ */
+export function analyzeSmsLength(message: string) {
+  const chars = Array.from(message)
+  const isGsm = chars.every(char => GSM_BASIC_CHARS.includes(char) || GSM_EXTENDED_CHARS.includes(char))
+  const encoding: keyof typeof SEGMENT_LIMITS = isGsm ? 'GSM-7' : 'UCS-2'
+
+  // Les caractères étendus GSM comptent double (caractère d'échappement)
+  const length = isGsm
+    ? chars.reduce((sum, char) => sum + (GSM_EXTENDED_CHARS.includes(char) ? 2 : 1), 0)
+    : chars.length
+
+  const limits = SEGMENT_LIMITS[encoding]
+  const segments = length <= limits.single ? 1 : Math.ceil(length / limits.multipart)
+
+  return {
+    encoding,
+    length,
+    segments,
+    maxLength: limits.single,
+    warning: segments > 1
+      ? `Le message fait ${length} caractères (${encoding}) et sera envoyé en ${segments} SMS`
+      : null
+  }
+}
+
+/**
+ * Lists the placeholders of a template that are not supported
+ */
+export function findUnknownPlaceholders(body: string) {
+  const found = Array.from(body.matchAll(/\{(\w+)\}/g), match => match[1])
+  return found.filter(name => !(SMS_PLACEHOLDERS as readonly string[]).includes(name))
+}
+
+/**
+ * Replaces the placeholders of a template with the context values
+ */
+export function renderTemplate(body: string, context: SmsTemplateContext) {
+  return body.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in context ? context[name as SmsPlaceholder] : placeholder
+  )
+}
+
+/**
+ * Length analysis of a template rendered with a representative sample order
+ */
+export function analyzeTemplate(body: string) {
+  return analyzeSmsLength(renderTemplate(body, SAMPLE_CONTEXT))
+}
+
+/**
+ * Builds the placeholder values from an order
+ */
+export function buildOrderSmsContext(order: {
+  id: string
+  total: number
+  customer: { name: string }
+  orderItems: { quantity: number; product: { name: string; unit: string } }[]
+}): SmsTemplateContext {
+  return {
+    customerName: order.customer.name,
+    items: order.orderItems
+      .map(item => `${item.product.name} (${item.quantity} ${item.product.unit})`)
+      .join(", "),
+    total: `${order.total.toFixed(2)} €`,
+    // Référence courte, plus lisible qu'un UUID dans un SMS
+    orderId: order.id.slice(0, 8).toUpperCase()
+  }
+}
+
+/**
+ * Returns the stored template of an event, or the default one
+ * @param event - Order event
+ * @param db - Prisma client, or the transaction client when called inside a transaction
+ */
+export async function getSmsTemplate(
+  event: SmsEvent,
+  db: Prisma.TransactionClient = prisma
+) {
+  const stored = await db.smsTemplate.findUnique({
+    where: { event }
+  })
+
+  if (stored) {
+    return { event, body: stored.body, active: stored.active, isDefault: false }
+  }
+
+  return { event, ...DEFAULT_SMS_TEMPLATES[event], isDefault: true }
+}
+
+/**
+ * Returns every event with its current template (stored or default)
+ */
+export async function listSmsTemplates() {
+  const stored = await prisma.smsTemplate.findMany({
+    include: {
+      updatedBy: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    }
+  })
+
+  return SMS_EVENTS.map(event => {
+    const template = stored.find(t => t.event === event)
+    const body = template?.body ?? DEFAULT_SMS_TEMPLATES[event].body
+
+    return {
+      event,
+      label: SMS_EVENT_LABELS[event],
+      body,
+      active: template?.active ?? DEFAULT_SMS_TEMPLATES[event].active,
+      isDefault: !template,
+      updatedAt: template?.updatedAt.toISOString() ?? null,
+      updatedBy: template?.updatedBy ?? null,
+      length: analyzeTemplate(body)
+    }
+  })
+}
+
+/**
+ * Renders the message of an event for an order, using the stored template (or default)
+ * @returns The message and whether the template is active, or null when the order does not exist
+ */
+export async function renderOrderSms(event: SmsEvent, orderId: string, body?: string) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      customer: true,
+      orderItems: {
+        include: {
+          product: true
+        }
+      }
+    }
+  })
+
+  if (!order) {
+    return null
+  }
+
+  const template = await getSmsTemplate(event)
+  const message = renderTemplate(body ?? template.body, buildOrderSmsContext(order))
+
+  return {
+    order,
+    active: template.active,
+    message,
+    length: analyzeSmsLength(message)
+  }
+}
@@ -0,0 +1,110 @@
+import { Prisma } from "@prisma/client"
+import { prisma } from "./prisma"
+
+// Types de mouvements de stock
+export const STOCK_MOVEMENT_TYPES = [
+  'SALE',
+  'CANCEL_RESTORE',
+  'RECEPTION',
+  'ADJUSTMENT',
+  'WASTE'
+] as const
+
+export type StockMovementType = typeof STOCK_MOVEMENT_TYPES[number]
+
+interface StockMovementInput {
+  productId: string
+  type: StockMovementType
+  // Signed quantity: positive adds to stock, negative removes from stock
+  quantity: number
+  orderId?: string | null
+  receptionId?: string | null
+  wasteId?: string | null
+  inventorySessionId?: string | null
+  userId?: string | null
+  note?: string | null
+}
+
+// Écart toléré entre le stock et le registre (arrondis sur les Float)
+const DRIFT_TOLERANCE = 0.001
+
+/**
+ * Applies a stock change and writes the matching ledger entry
+ * Must be called with the transaction client of the operation that causes the movement
+ * @param tx - Prisma transaction client
+ * @param movement - Movement details
+ * @returns The created ledger entry
+ */
+export async function applyStockMovement(
+  tx: Prisma.TransactionClient,
+  movement: StockMovementInput
+) {
+  await tx.product.update({
+    where: { id: movement.productId },
+    data: {
+      stock: {
+        increment: movement.quantity
+      }
+    }
+  })
+
+  return tx.stockMovement.create({
+    data: {
+      productId: movement.productId,
+      type: movement.type,
+      quantity: movement.quantity,
+      orderId: movement.orderId ?? null,
+      receptionId: movement.receptionId ?? null,
+      wasteId: movement.wasteId ?? null,
+      inventorySessionId: movement.inventorySessionId ?? null,
+      userId: movement.userId ?? null,
+      note: movement.note ?? null
+    }
+  })
+}
+
+/**
+ * Recomputes stock from the ledger and compares it with Product.stock
+ * @param productId - Optional product to restrict the check to
+ * @returns One line per product with the ledger total and the drift
+ */
+export async function reconcileStock(productId?: string) {
+  const [products, ledger] = await Promise.all([
+    prisma.product.findMany({
+      where: productId ? { id: productId } : undefined,
+      select: {
+        id: true,
+        name: true,
+        unit: true,
+        stock: true
+      },
+      orderBy: { name: 'asc' }
+    }),
+    prisma.stockMovement.groupBy({
+      by: ['productId'],
+      where: productId ? { productId } : undefined,
+      _sum: {
+        quantity: true
+      }
+    })
+  ])
+
+  const ledgerTotals = new Map(
+    ledger.map(entry => [entry.productId, entry._sum.quantity || 0])
+  )
+
+  return products.map(product => {
+    const ledgerStock = Math.round((ledgerTotals.get(product.id) || 0) * 1000) / 1000
+    const drift = Math.round((product.stock - ledgerStock) * 1000) / 1000
+
+    return {
+      productId: product.id,
+      productName: product.name,
+      unit: product.unit,
+      stock: product.stock,
+      ledgerStock,
+      drift,
+      inSync: Math.abs(drift) < DRIFT_TOLERANCE
+    }
+  })
+}
@@ -0,0 +1,230 @@
+import { prisma } from "./prisma"
+import { lotInclude, formatLot } from "./lots"
+import { toCsv, CsvValue } from "./csv"
+
+const customerSelect = {
+  id: true,
+  name: true,
+  phone: true,
+  email: true
+}
+
+function formatDate(date: Date | string | null) {
+  if (!date) {
+    return ''
+  }
+  return new Date(date).toLocaleDateString('fr-FR')
+}
+
+/**
+ * Downstream traceability: every order and customer that received part of a lot
+ * @param lotId - Lot to trace
+ * @returns null when the lot does not exist
+ */
+export async function getLotTraceability(lotId: string) {
+  const lot = await prisma.productLot.findUnique({
+    where: { id: lotId },
+    include: {
+      ...lotInclude,
+      reception: {
+        select: {
+          id: true,
+          receivedAt: true,
+          purchaseOrderId: true
+        }
+      },
+      allocations: {
+        include: {
+          orderItem: {
+            include: {
+              order: {
+                include: {
+                  customer: { select: customerSelect }
+                }
+              }
+            }
+          }
+        },
+        orderBy: { createdAt: 'asc' }
+      }
+    }
+  })
+
+  if (!lot) {
+    return null
+  }
+
+  const orders = lot.allocations.map(allocation => ({
+    orderId: allocation.orderItem.orderId,
+    orderDate: allocation.orderItem.order.orderDate.toISOString(),
+    status: allocation.orderItem.order.status,
+    customer: allocation.orderItem.order.customer,
+    orderItemId: allocation.orderItemId,
+    quantity: allocation.quantity
+  }))
+
+  const customerIds = new Set(orders.map(order => order.customer.id))
+  const allocatedQuantity = orders.reduce((sum, order) => sum + order.quantity, 0)
+
+  return {
+    lot: {
+      ...formatLot(lot),
+      reception: lot.reception
+        ? {
+            id: lot.reception.id,
+            receivedAt: lot.reception.receivedAt.toISOString(),
+            purchaseOrderId: lot.reception.purchaseOrderId
+          }
+        : null
+    },
+    allocatedQuantity: Math.round(allocatedQuantity * 1000) / 1000,
+    ordersCount: new Set(orders.map(order => order.orderId)).size,
+    customersCount: customerIds.size,
+    orders
+  }
+}
+
+/**
+ * Upstream traceability: the lots and suppliers that fed each item of an order
+ * Quantities sold before lot tracking are reported as untraced
+ * @param orderId - Order to trace
+ * @returns null when the order does not exist
+ */
+export async function getOrderTraceability(orderId: string) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      customer: { select: customerSelect },
+      orderItems: {
+        include: {
+          product: {
+            select: {
+              id: true,
+              name: true,
+              unit: true
+            }
+          },
+          lotAllocations: {
+            include: {
+              lot: {
+                include: {
+                  supplier: {
+                    select: {
+                      id: true,
+                      name: true
+                    }
+                  }
+                }
+              }
+            },
+            orderBy: { createdAt: 'asc' }
+          }
+        }
+      }
+    }
+  })
+
+  if (!order) {
+    return null
+  }
+
+  return {
+    order: {
+      id: order.id,
+      orderDate: order.orderDate.toISOString(),
+      status: order.status,
+      customer: order.customer
+    },
+    items: order.orderItems.map(item => {
+      const tracedQuantity = item.lotAllocations.reduce(
+        (sum, allocation) => sum + allocation.quantity,
+        0
+      )
+
+      return {
+        orderItemId: item.id,
+        productId: item.productId,
+        productName: item.product.name,
+        productUnit: item.product.unit,
+        quantity: item.quantity,
+        tracedQuantity: Math.round(tracedQuantity * 1000) / 1000,
+        untracedQuantity: Math.max(0, Math.round((item.quantity - tracedQuantity) * 1000) / 1000),
+        lots: item.lotAllocations.map(allocation => ({
+          lotId: allocation.lotId,
+          lotNumber: allocation.lot.lotNumber,
+          quantity: allocation.quantity,
+          supplier: allocation.lot.supplier,
+          catchDate: allocation.lot.catchDate?.toISOString() ?? null,
+          receptionDate: allocation.lot.receptionDate.toISOString(),
+          useByDate: allocation.lot.useByDate?.toISOString() ?? null
+        }))
+      }
+    })
+  }
+}
+
+type LotTraceability = NonNullable<Awaited<ReturnType<typeof getLotTraceability>>>
+type OrderTraceability = NonNullable<Awaited<ReturnType<typeof getOrderTraceability>>>
+
+/**
+ * CSV export of a lot traceability report (one row per order item served from the lot)
+ */
+export function lotTraceabilityToCsv(report: LotTraceability) {
+  return toCsv(
+    ['Lot', 'Produit', 'Fournisseur', 'Date de pêche', 'DLC', 'Commande', 'Date commande', 'Statut', 'Client', 'Téléphone', 'Email', 'Quantité'],
+    report.orders.map(order => [
+      report.lot.lotNumber,
+      report.lot.product.name,
+      report.lot.supplier?.name,
+      formatDate(report.lot.catchDate),
+      formatDate(report.lot.useByDate),
+      order.orderId,
+      formatDate(order.orderDate),
+      order.status,
+      order.customer.name,
+      order.customer.phone,
+      order.customer.email,
+      order.quantity
+    ])
+  )
+}
+
+/**
+ * CSV export of an order traceability report (one row per lot allocation, untraced quantities included)
+ */
+export function orderTraceabilityToCsv(report: OrderTraceability) {
+  const rows = report.items.flatMap(item => {
+    const lotRows: CsvValue[][] = item.lots.map(lot => [
+      report.order.id,
+      formatDate(report.order.orderDate),
+      report.order.customer.name,
+      item.productName,
+      lot.lotNumber,
+      lot.supplier?.name,
+      formatDate(lot.catchDate),
+      formatDate(lot.useByDate),
+      lot.quantity
+    ])
+
+    if (item.untracedQuantity > 0) {
+      lotRows.push([
+        report.order.id,
+        formatDate(report.order.orderDate),
+        report.order.customer.name,
+        item.productName,
+        'Non tracé',
+        null,
+        null,
+        null,
+        item.untracedQuantity
+      ])
+    }
+
+    return lotRows
+  })
+
+  return toCsv(
+    ['Commande', 'Date commande', 'Client', 'Produit', 'Lot', 'Fournisseur', 'Date de pêche', 'DLC', 'Quantité'],
+    rows
+  )
+}
@@ -0,0 +1,272 @@
+import { Prisma } from "@prisma/client"
+import { hash } from "bcryptjs"
+import { prisma } from "./prisma"
+import { revokeUserSessions } from "./sessions"
+import { ADMIN_ROLE } from "./permissions"
+import { Actor, checkRoleAssignable, roleExists } from "./roles"
+import { ErrorCode, ErrorDetails } from "./errorCodes"
+
+export const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  active: true,
+  deactivatedAt: true,
+  createdAt: true,
+  updatedAt: true
+}
+
+type UserResult =
+  | { success: true; data: ReturnType<typeof formatUser> }
+  | { success: false; code: ErrorCode; details?: ErrorDetails }
+
+// Administrateur à l'origine de la modification
+type UserActor = Actor & { userId: string }
+
+interface UserFilters {
+  search?: string | null
+  role?: string | null
+  active?: boolean
+}
+
+interface UserInput {
+  email: string
+  name: string
+  password: string
+  // Nom d'un rôle existant (table Role)
+  role: string
+}
+
+interface UserUpdateInput {
+  email?: string
+  name?: string
+  role?: string
+  active?: boolean
+}
+
+export function formatUser(user: {
+  id: string
+  email: string
+  name: string
+  role: string
+  active: boolean
+  deactivatedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}) {
+  return {
+    ...user,
+    deactivatedAt: user.deactivatedAt?.toISOString() ?? null,
+    createdAt: user.createdAt.toISOString(),
+    updatedAt: user.updatedAt.toISOString()
+  }
+}
+
+/**
+ * Lists users, active ones first then by name
+ */
+export async function listUsers(filters: UserFilters, skip?: number, take?: number) {
+  const where: Prisma.UserWhereInput = {}
+
+  if (filters.search) {
+    where.OR = [
+      { name: { contains: filters.search } },
+      { email: { contains: filters.search } }
+    ]
+  }
+  if (filters.role) {
+    where.role = filters.role
+  }
+  if (filters.active !== undefined) {
+    where.active = filters.active
+  }
+
+  const [users, total] = await prisma.$transaction([
+    prisma.user.findMany({
+      where,
+      select: userSelect,
+      orderBy: [{ active: 'desc' }, { name: 'asc' }],
+      skip,
+      take
+    }),
+    prisma.user.count({ where })
+  ])
+
+  return { users: users.map(formatUser), total }
+}
+
+/**
+ * @returns null when the user does not exist
+ */
+export async function getUser(id: string) {
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: userSelect
+  })
+
+  return user ? formatUser(user) : null
+}
+
+/**
+ * Creates a user account (ADMIN action)
+ * The actor can only give a role whose permissions they all hold (ADMIN: admins only)
+ */
+export async function createUser(input: UserInput, actor: Actor): Promise<UserResult> {
+  const existing = await prisma.user.findUnique({
+    where: { email: input.email },
+    select: { id: true }
+  })
+
+  if (existing) {
+    return { success: false, code: 'EMAIL_ALREADY_USED', details: { email: input.email } }
+  }
+
+  if (!await roleExists(input.role)) {
+    return { success: false, code: 'UNKNOWN_ROLE', details: { role: input.role } }
+  }
+
+  const refusal = await checkRoleAssignable(input.role, actor)
+  if (refusal) {
+    return { success: false, ...refusal }
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      email: input.email,
+      name: input.name,
+      role: input.role,
+      password: await hash(input.password, 10)
+    },
+    select: userSelect
+  })
+
+  return { success: true, data: formatUser(user) }
+}
+
+// Au moins un administrateur actif doit rester : sinon plus personne ne peut gérer les comptes
+async function isLastActiveAdmin(userId: string) {
+  const admins = await prisma.user.findMany({
+    where: { role: ADMIN_ROLE, active: true },
+    select: { id: true },
+    take: 2
+  })
+
+  return admins.length === 1 && admins[0].id === userId
+}
+
+// Un administrateur ne peut pas modifier un compte dont le rôle dépasse ses propres droits
+// (sinon changer l'email ou le mot de passe d'un ADMIN suffirait à prendre ce compte)
+async function checkUserManageable(role: string, actor: Actor) {
+  return await checkRoleAssignable(role, actor) ? { code: 'USER_NOT_MANAGEABLE' as const } : null
+}
+
+/**
+ * Updates a user (ADMIN action). Deactivating a user ends all their mobile sessions
+ * An admin cannot demote or deactivate themselves, nor the last active admin,
+ * nor change an account or give a role holding rights they do not have
+ * @param actor - Admin making the change
+ */
+export async function updateUser(id: string, input: UserUpdateInput, actor: UserActor): Promise<UserResult> {
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: userSelect
+  })
+
+  if (!user) {
+    return { success: false, code: 'USER_NOT_FOUND', details: { userId: id } }
+  }
+
+  const notManageable = await checkUserManageable(user.role, actor)
+  if (notManageable) {
+    return { success: false, ...notManageable }
+  }
+
+  if (input.role !== undefined && input.role !== user.role) {
+    if (!await roleExists(input.role)) {
+      return { success: false, code: 'UNKNOWN_ROLE', details: { role: input.role } }
+    }
+
+    const refusal = await checkRoleAssignable(input.role, actor)
+    if (refusal) {
+      return { success: false, ...refusal }
+    }
+  }
+
+  const demoted = input.role !== undefined && input.role !== ADMIN_ROLE && user.role === ADMIN_ROLE
+  const deactivated = input.active === false && user.active
+
+  if ((demoted || deactivated) && id === actor.userId) {
+    return { success: false, code: 'SELF_DEMOTION' }
+  }
+
+  if ((demoted || deactivated) && await isLastActiveAdmin(id)) {
+    return { success: false, code: 'LAST_ADMIN' }
+  }
+
+  if (input.email && input.email !== user.email) {
+    const existing = await prisma.user.findUnique({
+      where: { email: input.email },
+      select: { id: true }
+    })
+    if (existing) {
+      return { success: false, code: 'EMAIL_ALREADY_USED', details: { email: input.email } }
+    }
+  }
+
+  const updated = await prisma.user.update({
+    where: { id },
+    data: {
+      email: input.email,
+      name: input.name,
+      role: input.role,
+      ...(input.active !== undefined && input.active !== user.active
+        ? { active: input.active, deactivatedAt: input.active ? null : new Date() }
+        : {})
+    },
+    select: userSelect
+  })
+
+  if (deactivated) {
+    await revokeUserSessions(id)
+  }
+
+  return { success: true, data: formatUser(updated) }
+}
+
+/**
+ * Deactivates a user (ADMIN action): the account is kept for the history of orders and stock movements
+ */
+export async function deactivateUser(id: string, actor: UserActor) {
+  return updateUser(id, { active: false }, actor)
+}
+
+/**
+ * Sets a new password chosen by an admin; the user's mobile sessions are ended
+ * @param actor - Admin making the change, who must hold every right of the account
+ */
+export async function resetUserPassword(id: string, password: string, actor: Actor): Promise<UserResult> {
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { id: true, role: true }
+  })
+
+  if (!user) {
+    return { success: false, code: 'USER_NOT_FOUND', details: { userId: id } }
+  }
+
+  const notManageable = await checkUserManageable(user.role, actor)
+  if (notManageable) {
+    return { success: false, ...notManageable }
+  }
+
+  const updated = await prisma.user.update({
+    where: { id },
+    data: { password: await hash(password, 10) },
+    select: userSelect
+  })
+
+  await revokeUserSessions(id)
+
+  return { success: true, data: formatUser(updated) }
+}
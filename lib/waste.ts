@@ -0,0 +1,339 @@
+import { prisma } from "./prisma"
+import { applyStockMovement } from "./stock"
+import { ErrorCode, ErrorDetails } from "./errorCodes"
+
+// Motifs de perte / démarque
+export const WASTE_REASONS = [
+  'SPOILED',
+  'TRIMMING',
+  'DAMAGED',
+  'OTHER'
+] as const
+
+export type WasteReason = typeof WASTE_REASONS[number]
+
+export const WASTE_REASON_LABELS: Record<WasteReason, string> = {
+  SPOILED: 'Avarié',
+  TRIMMING: 'Parage',
+  DAMAGED: 'Abîmé',
+  OTHER: 'Autre'
+}
+
+interface WasteInput {
+  quantity: number
+  reason: WasteReason
+  photoNote?: string
+  lotId?: string
+}
+
+export const wasteInclude = {
+  product: {
+    select: {
+      id: true,
+      name: true,
+      unit: true
+    }
+  },
+  lot: {
+    select: {
+      id: true,
+      lotNumber: true
+    }
+  },
+  user: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  reversedBy: {
+    select: {
+      id: true,
+      name: true
+    }
+  }
+}
+
+interface WasteWithRelations {
+  id: string
+  product: { id: string; name: string; unit: string }
+  lot: { id: string; lotNumber: string } | null
+  user: { id: string; name: string } | null
+  reversedBy: { id: string; name: string } | null
+  quantity: number
+  reason: string
+  photoNote: string | null
+  reversedAt: Date | null
+  reversalNote: string | null
+  createdAt: Date
+}
+
+type WasteResult =
+  | { success: true; data: WasteWithRelations }
+  | { success: false; code: ErrorCode; details?: ErrorDetails }
+
+/**
+ * Formats a waste record for API responses
+ */
+export function formatWaste(waste: WasteWithRelations) {
+  return {
+    id: waste.id,
+    product: waste.product,
+    lot: waste.lot,
+    quantity: waste.quantity,
+    reason: waste.reason,
+    reasonLabel: WASTE_REASON_LABELS[waste.reason as WasteReason] ?? waste.reason,
+    photoNote: waste.photoNote,
+    recordedBy: waste.user,
+    createdAt: waste.createdAt.toISOString(),
+    reversed: waste.reversedAt !== null,
+    reversedAt: waste.reversedAt?.toISOString() ?? null,
+    reversedBy: waste.reversedBy,
+    reversalNote: waste.reversalNote
+  }
+}
+
+/**
+ * Takes wasted quantity out of stock and out of its lot, with a WASTE ledger entry
+ * The lot may only be omitted when the quantity is covered by stock outside any lot (entered
+ * before lot tracking): otherwise FEFO allocation would keep selling fish that was thrown away
+ * @param productId - Product being thrown away or trimmed
+ * @param input - Quantity, reason and optional photo note / lot
+ * @param userId - User recording the waste
+ */
+export async function recordWaste(
+  productId: string,
+  input: WasteInput,
+  userId?: string | null
+): Promise<WasteResult> {
+  // Contrôles dans la transaction : deux pertes simultanées ne peuvent pas retirer le même stock
+  return prisma.$transaction(async (tx): Promise<WasteResult> => {
+    const product = await tx.product.findUnique({
+      where: { id: productId }
+    })
+
+    if (!product) {
+      return { success: false, code: 'PRODUCT_NOT_FOUND', details: { productId } }
+    }
+
+    if (product.stock < input.quantity) {
+      return {
+        success: false,
+        code: 'INSUFFICIENT_STOCK',
+        details: { productId: product.id, productName: product.name, available: product.stock, requested: input.quantity }
+      }
+    }
+
+    if (input.lotId) {
+      const lot = await tx.productLot.findFirst({
+        where: { id: input.lotId, productId }
+      })
+
+      if (!lot) {
+        return { success: false, code: 'LOT_NOT_FOUND', details: { lotId: input.lotId, productId: product.id } }
+      }
+
+      if (lot.remainingQuantity < input.quantity) {
+        return {
+          success: false,
+          code: 'INSUFFICIENT_LOT_QUANTITY',
+          details: { lotId: lot.id, lotNumber: lot.lotNumber, available: lot.remainingQuantity, requested: input.quantity }
+        }
+      }
+    } else {
+      // Sans lot : seulement sur le stock qui n'est dans aucun lot
+      const lots = await tx.productLot.aggregate({
+        where: { productId, remainingQuantity: { gt: 0 } },
+        _sum: { remainingQuantity: true },
+        _count: true
+      })
+      const untracked = Math.round((product.stock - (lots._sum.remainingQuantity ?? 0)) * 1000) / 1000
+
+      if (lots._count > 0 && untracked < input.quantity) {
+        return {
+          success: false,
+          code: 'LOT_REQUIRED',
+          details: { productId: product.id, openLots: lots._count, untracked: Math.max(untracked, 0) }
+        }
+      }
+    }
+
+    const created = await tx.wasteRecord.create({
+      data: {
+        productId,
+        lotId: input.lotId ?? null,
+        quantity: input.quantity,
+        reason: input.reason,
+        photoNote: input.photoNote || null,
+        userId: userId ?? null
+      },
+      include: wasteInclude
+    })
+
+    await applyStockMovement(tx, {
+      productId,
+      type: 'WASTE',
+      quantity: -input.quantity,
+      wasteId: created.id,
+      userId,
+      note: WASTE_REASON_LABELS[input.reason]
+    })
+
+    if (input.lotId) {
+      await tx.productLot.update({
+        where: { id: input.lotId },
+        data: {
+          remainingQuantity: {
+            decrement: input.quantity
+          }
+        }
+      })
+    }
+
+    return { success: true, data: created }
+  })
+}
+
+/**
+ * Reverses a waste record (declared by mistake): stock and lot quantity are given back
+ * The record is kept and flagged as reversed so the ledger stays complete
+ * @param wasteId - Waste record to reverse
+ * @param productId - Product the record must belong to
+ * @param userId - Admin reversing the record
+ * @param note - Optional reason of the reversal
+ */
+export async function reverseWaste(
+  wasteId: string,
+  productId: string,
+  userId?: string | null,
+  note?: string
+): Promise<WasteResult> {
+  const waste = await prisma.wasteRecord.findFirst({
+    where: { id: wasteId, productId }
+  })
+
+  if (!waste) {
+    return { success: false, code: 'WASTE_NOT_FOUND', details: { wasteId } }
+  }
+
+  if (waste.reversedAt) {
+    return { success: false, code: 'WASTE_ALREADY_REVERSED', details: { wasteId } }
+  }
+
+  return prisma.$transaction(async (tx): Promise<WasteResult> => {
+    // Réservation de la perte : une annulation concurrente ne rend pas le stock une seconde fois
+    const { count } = await tx.wasteRecord.updateMany({
+      where: { id: waste.id, reversedAt: null },
+      data: {
+        reversedAt: new Date(),
+        reversedById: userId ?? null,
+        reversalNote: note || null
+      }
+    })
+
+    if (count === 0) {
+      return { success: false, code: 'WASTE_ALREADY_REVERSED', details: { wasteId } }
+    }
+
+    await applyStockMovement(tx, {
+      productId,
+      type: 'WASTE',
+      quantity: waste.quantity,
+      wasteId: waste.id,
+      userId,
+      note: note ? `Annulation de perte : ${note}` : 'Annulation de perte'
+    })
+
+    if (waste.lotId) {
+      await tx.productLot.update({
+        where: { id: waste.lotId },
+        data: {
+          remainingQuantity: {
+            increment: waste.quantity
+          }
+        }
+      })
+    }
+
+    const reversed = await tx.wasteRecord.findUniqueOrThrow({
+      where: { id: waste.id },
+      include: wasteInclude
+    })
+
+    return { success: true, data: reversed }
+  })
+}
+
+/**
+ * Waste report for a period: totals by reason and by product (reversed records excluded)
+ * Value is estimated at the current selling price
+ * @param startDate - Beginning of the period
+ * @param endDate - End of the period (defaults to now)
+ */
+export async function getWasteReport(startDate: Date, endDate: Date = new Date()) {
+  const records = await prisma.wasteRecord.findMany({
+    where: {
+      reversedAt: null,
+      createdAt: { gte: startDate, lte: endDate }
+    },
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          unit: true,
+          price: true
+        }
+      }
+    }
+  })
+
+  const byReason = new Map<string, { reason: string; label: string; quantity: number; value: number; count: number }>()
+  const byProduct = new Map<string, { id: string; name: string; unit: string; quantity: number; value: number; count: number }>()
+
+  for (const record of records) {
+    const value = record.quantity * record.product.price
+
+    const reasonEntry = byReason.get(record.reason) ?? {
+      reason: record.reason,
+      label: WASTE_REASON_LABELS[record.reason as WasteReason] ?? record.reason,
+      quantity: 0,
+      value: 0,
+      count: 0
+    }
+    reasonEntry.quantity += record.quantity
+    reasonEntry.value += value
+    reasonEntry.count += 1
+    byReason.set(record.reason, reasonEntry)
+
+    const productEntry = byProduct.get(record.productId) ?? {
+      id: record.product.id,
+      name: record.product.name,
+      unit: record.product.unit,
+      quantity: 0,
+      value: 0,
+      count: 0
+    }
+    productEntry.quantity += record.quantity
+    productEntry.value += value
+    productEntry.count += 1
+    byProduct.set(record.productId, productEntry)
+  }
+
+  const round = <T extends { quantity: number; value: number }>(entry: T) => ({
+    ...entry,
+    quantity: Math.round(entry.quantity * 1000) / 1000,
+    value: Math.round(entry.value * 100) / 100
+  })
+
+  const totalValue = records.reduce((sum, record) => sum + record.quantity * record.product.price, 0)
+
+  return {
+    count: records.length,
+    totalValue: Math.round(totalValue * 100) / 100,
+    byReason: Array.from(byReason.values()).map(round),
+    byProduct: Array.from(byProduct.values())
+      .map(round)
+      .sort((a, b) => b.value - a.value)
+  }
+}
@@ -0,0 +1,5 @@
+-- Normalize legacy French order statuses to the canonical lifecycle
+-- (PENDING, PREPARING, READY, DELIVERED, CANCELLED - see lib/orderStatus.ts)
+UPDATE "Order" SET "status" = 'PENDING' WHERE "status" = 'EN_COURS';
+UPDATE "Order" SET "status" = 'DELIVERED' WHERE "status" = 'LIVREE';
+UPDATE "Order" SET "status" = 'CANCELLED' WHERE "status" = 'ANNULEE';
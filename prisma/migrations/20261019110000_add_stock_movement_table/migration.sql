@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "StockMovement" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "quantity" REAL NOT NULL,
+    "orderId" TEXT,
+    "receptionId" TEXT,
+    "userId" TEXT,
+    "note" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "StockMovement_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "StockMovement_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "StockMovement_productId_idx" ON "StockMovement"("productId");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_orderId_idx" ON "StockMovement"("orderId");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_createdAt_idx" ON "StockMovement"("createdAt");
+
+-- Opening balance: the ledger starts from the current stock of each product
+INSERT INTO "StockMovement" ("id", "productId", "type", "quantity", "note")
+SELECT lower(hex(randomblob(16))), "id", 'ADJUSTMENT', "stock", 'Stock initial'
+FROM "Product"
+WHERE "stock" <> 0;
@@ -0,0 +1,68 @@
+-- CreateTable
+CREATE TABLE "PurchaseOrder" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "supplierId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ORDERED',
+    "orderDate" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expectedDate" DATETIME,
+    "notes" TEXT,
+    "userId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "PurchaseOrder_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "PurchaseOrder_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "PurchaseOrderLine" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "purchaseOrderId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantityOrdered" REAL NOT NULL,
+    "unitPrice" REAL NOT NULL,
+    "quantityReceived" REAL NOT NULL DEFAULT 0,
+    CONSTRAINT "PurchaseOrderLine_purchaseOrderId_fkey" FOREIGN KEY ("purchaseOrderId") REFERENCES "PurchaseOrder" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PurchaseOrderLine_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "GoodsReception" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "purchaseOrderId" TEXT NOT NULL,
+    "userId" TEXT,
+    "receivedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "notes" TEXT,
+    CONSTRAINT "GoodsReception_purchaseOrderId_fkey" FOREIGN KEY ("purchaseOrderId") REFERENCES "PurchaseOrder" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "GoodsReception_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "GoodsReceptionLine" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "receptionId" TEXT NOT NULL,
+    "purchaseOrderLineId" TEXT NOT NULL,
+    "quantityReceived" REAL NOT NULL,
+    CONSTRAINT "GoodsReceptionLine_receptionId_fkey" FOREIGN KEY ("receptionId") REFERENCES "GoodsReception" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "GoodsReceptionLine_purchaseOrderLineId_fkey" FOREIGN KEY ("purchaseOrderLineId") REFERENCES "PurchaseOrderLine" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PurchaseOrder_supplierId_idx" ON "PurchaseOrder"("supplierId");
+
+-- CreateIndex
+CREATE INDEX "PurchaseOrder_status_idx" ON "PurchaseOrder"("status");
+
+-- CreateIndex
+CREATE INDEX "PurchaseOrderLine_purchaseOrderId_idx" ON "PurchaseOrderLine"("purchaseOrderId");
+
+-- CreateIndex
+CREATE INDEX "PurchaseOrderLine_productId_idx" ON "PurchaseOrderLine"("productId");
+
+-- CreateIndex
+CREATE INDEX "GoodsReception_purchaseOrderId_idx" ON "GoodsReception"("purchaseOrderId");
+
+-- CreateIndex
+CREATE INDEX "GoodsReceptionLine_receptionId_idx" ON "GoodsReceptionLine"("receptionId");
+
+-- CreateIndex
+CREATE INDEX "GoodsReceptionLine_purchaseOrderLineId_idx" ON "GoodsReceptionLine"("purchaseOrderLineId");
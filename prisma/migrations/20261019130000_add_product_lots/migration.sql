@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "ProductLot" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "lotNumber" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "supplierId" TEXT,
+    "receptionId" TEXT,
+    "catchDate" DATETIME,
+    "receptionDate" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "useByDate" DATETIME,
+    "initialQuantity" REAL NOT NULL,
+    "remainingQuantity" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ProductLot_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ProductLot_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ProductLot_receptionId_fkey" FOREIGN KEY ("receptionId") REFERENCES "GoodsReception" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "OrderItemLot" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderItemId" TEXT NOT NULL,
+    "lotId" TEXT NOT NULL,
+    "quantity" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "OrderItemLot_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "OrderItemLot_lotId_fkey" FOREIGN KEY ("lotId") REFERENCES "ProductLot" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ProductLot_productId_idx" ON "ProductLot"("productId");
+
+-- CreateIndex
+CREATE INDEX "ProductLot_lotNumber_idx" ON "ProductLot"("lotNumber");
+
+-- CreateIndex
+CREATE INDEX "ProductLot_useByDate_idx" ON "ProductLot"("useByDate");
+
+-- CreateIndex
+CREATE INDEX "OrderItemLot_orderItemId_idx" ON "OrderItemLot"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "OrderItemLot_lotId_idx" ON "OrderItemLot"("lotId");
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "StockMovement" ADD COLUMN "wasteId" TEXT;
+
+-- CreateTable
+CREATE TABLE "WasteRecord" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "lotId" TEXT,
+    "quantity" REAL NOT NULL,
+    "reason" TEXT NOT NULL,
+    "photoNote" TEXT,
+    "userId" TEXT,
+    "reversedAt" DATETIME,
+    "reversedById" TEXT,
+    "reversalNote" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "WasteRecord_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "WasteRecord_lotId_fkey" FOREIGN KEY ("lotId") REFERENCES "ProductLot" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "WasteRecord_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "WasteRecord_reversedById_fkey" FOREIGN KEY ("reversedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "WasteRecord_productId_idx" ON "WasteRecord"("productId");
+
+-- CreateIndex
+CREATE INDEX "WasteRecord_createdAt_idx" ON "WasteRecord"("createdAt");
@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "StockMovement" ADD COLUMN "inventorySessionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "InventorySession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "notes" TEXT,
+    "openedById" TEXT,
+    "openedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "validatedById" TEXT,
+    "validatedAt" DATETIME,
+    CONSTRAINT "InventorySession_openedById_fkey" FOREIGN KEY ("openedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "InventorySession_validatedById_fkey" FOREIGN KEY ("validatedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "InventoryCountLine" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "countedQuantity" REAL NOT NULL,
+    "expectedStock" REAL,
+    "variance" REAL,
+    "countedById" TEXT,
+    "countedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "InventoryCountLine_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "InventorySession" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "InventoryCountLine_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "InventoryCountLine_countedById_fkey" FOREIGN KEY ("countedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "InventorySession_status_idx" ON "InventorySession"("status");
+
+-- CreateIndex
+CREATE INDEX "InventorySession_openedAt_idx" ON "InventorySession"("openedAt");
+
+-- CreateIndex
+CREATE INDEX "InventoryCountLine_productId_idx" ON "InventoryCountLine"("productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventoryCountLine_sessionId_productId_key" ON "InventoryCountLine"("sessionId", "productId");
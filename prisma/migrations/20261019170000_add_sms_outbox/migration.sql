@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "SmsOutbox" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "telephone" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "orderId" TEXT,
+    "event" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "sentAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "SmsOutbox_status_nextAttemptAt_idx" ON "SmsOutbox"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "SmsOutbox_orderId_idx" ON "SmsOutbox"("orderId");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "SmsLog" ADD COLUMN "providerMessageId" TEXT;
+ALTER TABLE "SmsLog" ADD COLUMN "deliveryStatus" TEXT;
+ALTER TABLE "SmsLog" ADD COLUMN "deliveryStatusAt" DATETIME;
+ALTER TABLE "SmsLog" ADD COLUMN "deliveryReceivedAt" DATETIME;
+ALTER TABLE "SmsLog" ADD COLUMN "deliveryError" TEXT;
+
+-- CreateIndex
+CREATE INDEX "SmsLog_providerMessageId_idx" ON "SmsLog"("providerMessageId");
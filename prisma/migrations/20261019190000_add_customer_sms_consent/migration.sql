@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Customer" ADD COLUMN "smsEnabled" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "Customer" ADD COLUMN "smsOptOutAt" DATETIME;
+ALTER TABLE "Customer" ADD COLUMN "smsOptOutSource" TEXT;
+
+-- CreateTable
+CREATE TABLE "CustomerSmsPreference" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "customerId" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "CustomerSmsPreference_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerSmsPreference_customerId_event_key" ON "CustomerSmsPreference"("customerId", "event");
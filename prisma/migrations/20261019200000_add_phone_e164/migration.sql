@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Customer" ADD COLUMN "phoneE164" TEXT;
+
+-- AlterTable
+ALTER TABLE "Supplier" ADD COLUMN "phoneE164" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Customer_phoneE164_idx" ON "Customer"("phoneE164");
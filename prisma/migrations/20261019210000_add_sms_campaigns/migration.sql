@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "SmsCampaign" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "segment" TEXT NOT NULL,
+    "recipientCount" INTEGER NOT NULL DEFAULT 0,
+    "optedOutCount" INTEGER NOT NULL DEFAULT 0,
+    "createdById" TEXT,
+    "cancelledAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "SmsCampaign_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "SmsOutbox" ADD COLUMN "customerId" TEXT;
+ALTER TABLE "SmsOutbox" ADD COLUMN "campaignId" TEXT;
+
+-- AlterTable
+ALTER TABLE "SmsLog" ADD COLUMN "campaignId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "SmsOutbox_campaignId_idx" ON "SmsOutbox"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "SmsLog_campaignId_idx" ON "SmsLog"("campaignId");
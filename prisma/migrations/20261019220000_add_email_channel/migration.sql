@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "Customer" ADD COLUMN "preferredChannel" TEXT NOT NULL DEFAULT 'SMS';
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_SmsOutbox" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "channel" TEXT NOT NULL DEFAULT 'SMS',
+    "telephone" TEXT,
+    "email" TEXT,
+    "subject" TEXT,
+    "message" TEXT NOT NULL,
+    "orderId" TEXT,
+    "event" TEXT,
+    "customerId" TEXT,
+    "campaignId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "sentAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+INSERT INTO "new_SmsOutbox" ("id", "telephone", "message", "orderId", "event", "customerId", "campaignId", "status", "attempts", "nextAttemptAt", "lastError", "sentAt", "createdAt", "updatedAt") SELECT "id", "telephone", "message", "orderId", "event", "customerId", "campaignId", "status", "attempts", "nextAttemptAt", "lastError", "sentAt", "createdAt", "updatedAt" FROM "SmsOutbox";
+DROP TABLE "SmsOutbox";
+ALTER TABLE "new_SmsOutbox" RENAME TO "SmsOutbox";
+CREATE INDEX "SmsOutbox_status_nextAttemptAt_idx" ON "SmsOutbox"("status", "nextAttemptAt");
+CREATE INDEX "SmsOutbox_orderId_idx" ON "SmsOutbox"("orderId");
+CREATE INDEX "SmsOutbox_campaignId_idx" ON "SmsOutbox"("campaignId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateTable
+CREATE TABLE "EmailLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "orderId" TEXT,
+    "dateEnvoi" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "success" BOOLEAN NOT NULL DEFAULT true,
+    "errorMessage" TEXT
+);
+
+-- CreateIndex
+CREATE INDEX "EmailLog_orderId_idx" ON "EmailLog"("orderId");
+
+-- CreateIndex
+CREATE INDEX "EmailLog_dateEnvoi_idx" ON "EmailLog"("dateEnvoi");
@@ -0,0 +1,26 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_RefreshToken" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "token" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "familyId" TEXT NOT NULL,
+    "replacedBy" TEXT,
+    "revokedAt" DATETIME,
+    "deviceName" TEXT,
+    "platform" TEXT,
+    "ipAddress" TEXT,
+    "lastUsedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RefreshToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_RefreshToken" ("id", "token", "userId", "familyId", "replacedBy", "revokedAt", "lastUsedAt", "expiresAt", "createdAt") SELECT "id", "token", "userId", "familyId", "replacedBy", "revokedAt", "createdAt", "expiresAt", "createdAt" FROM "RefreshToken";
+DROP TABLE "RefreshToken";
+ALTER TABLE "new_RefreshToken" RENAME TO "RefreshToken";
+CREATE UNIQUE INDEX "RefreshToken_token_key" ON "RefreshToken"("token");
+CREATE INDEX "RefreshToken_userId_idx" ON "RefreshToken"("userId");
+CREATE INDEX "RefreshToken_familyId_idx" ON "RefreshToken"("familyId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "AuthAuditLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "action" TEXT NOT NULL,
+    "email" TEXT,
+    "ipAddress" TEXT,
+    "userId" TEXT,
+    "actorId" TEXT,
+    "details" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "AuthAuditLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "AuthAuditLog_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "AuthAuditLog_userId_idx" ON "AuthAuditLog"("userId");
+
+-- CreateIndex
+CREATE INDEX "AuthAuditLog_createdAt_idx" ON "AuthAuditLog"("createdAt");
@@ -0,0 +1,75 @@
+-- CreateTable
+CREATE TABLE "Role" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "system" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "RolePermission" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "roleId" TEXT NOT NULL,
+    "permission" TEXT NOT NULL,
+    CONSTRAINT "RolePermission_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "Role" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Role_name_key" ON "Role"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RolePermission_roleId_permission_key" ON "RolePermission"("roleId", "permission");
+
+-- Rôles fournis avec l'application (voir SYSTEM_ROLES dans lib/permissions.ts)
+-- ADMIN reçoit toujours toutes les permissions, ses lignes servent seulement à l'affichage en base
+INSERT INTO "Role" ("id", "name", "label", "system", "updatedAt") VALUES
+    ('role_admin', 'ADMIN', 'Administrateur', true, CURRENT_TIMESTAMP),
+    ('role_employee', 'EMPLOYEE', 'Employé', true, CURRENT_TIMESTAMP),
+    ('role_cashier', 'CASHIER', 'Caissier', true, CURRENT_TIMESTAMP),
+    ('role_driver', 'DRIVER', 'Livreur', true, CURRENT_TIMESTAMP);
+
+INSERT INTO "RolePermission" ("id", "roleId", "permission") VALUES
+    ('role_admin_products.view', 'role_admin', 'products.view'),
+    ('role_admin_products.edit', 'role_admin', 'products.edit'),
+    ('role_admin_products.price.edit', 'role_admin', 'products.price.edit'),
+    ('role_admin_products.delete', 'role_admin', 'products.delete'),
+    ('role_admin_stock.adjust', 'role_admin', 'stock.adjust'),
+    ('role_admin_stock.manage', 'role_admin', 'stock.manage'),
+    ('role_admin_orders.view', 'role_admin', 'orders.view'),
+    ('role_admin_orders.create', 'role_admin', 'orders.create'),
+    ('role_admin_orders.update', 'role_admin', 'orders.update'),
+    ('role_admin_orders.cancel', 'role_admin', 'orders.cancel'),
+    ('role_admin_orders.delete', 'role_admin', 'orders.delete'),
+    ('role_admin_customers.view', 'role_admin', 'customers.view'),
+    ('role_admin_customers.edit', 'role_admin', 'customers.edit'),
+    ('role_admin_customers.delete', 'role_admin', 'customers.delete'),
+    ('role_admin_suppliers.view', 'role_admin', 'suppliers.view'),
+    ('role_admin_suppliers.edit', 'role_admin', 'suppliers.edit'),
+    ('role_admin_suppliers.delete', 'role_admin', 'suppliers.delete'),
+    ('role_admin_purchaseOrders.manage', 'role_admin', 'purchaseOrders.manage'),
+    ('role_admin_purchaseOrders.receive', 'role_admin', 'purchaseOrders.receive'),
+    ('role_admin_reports.view', 'role_admin', 'reports.view'),
+    ('role_admin_notifications.manage', 'role_admin', 'notifications.manage'),
+    ('role_admin_users.manage', 'role_admin', 'users.manage'),
+    ('role_employee_products.view', 'role_employee', 'products.view'),
+    ('role_employee_stock.adjust', 'role_employee', 'stock.adjust'),
+    ('role_employee_orders.view', 'role_employee', 'orders.view'),
+    ('role_employee_orders.create', 'role_employee', 'orders.create'),
+    ('role_employee_orders.update', 'role_employee', 'orders.update'),
+    ('role_employee_orders.cancel', 'role_employee', 'orders.cancel'),
+    ('role_employee_customers.view', 'role_employee', 'customers.view'),
+    ('role_employee_customers.edit', 'role_employee', 'customers.edit'),
+    ('role_employee_suppliers.view', 'role_employee', 'suppliers.view'),
+    ('role_employee_purchaseOrders.receive', 'role_employee', 'purchaseOrders.receive'),
+    ('role_employee_reports.view', 'role_employee', 'reports.view'),
+    ('role_cashier_products.view', 'role_cashier', 'products.view'),
+    ('role_cashier_orders.view', 'role_cashier', 'orders.view'),
+    ('role_cashier_orders.create', 'role_cashier', 'orders.create'),
+    ('role_cashier_orders.update', 'role_cashier', 'orders.update'),
+    ('role_cashier_customers.view', 'role_cashier', 'customers.view'),
+    ('role_cashier_customers.edit', 'role_cashier', 'customers.edit'),
+    ('role_driver_orders.view', 'role_driver', 'orders.view'),
+    ('role_driver_orders.update', 'role_driver', 'orders.update'),
+    ('role_driver_customers.view', 'role_driver', 'customers.view');
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "ApiKey" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "expiresAt" DATETIME,
+    "revokedAt" DATETIME,
+    "lastUsedAt" DATETIME,
+    "lastUsedIp" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ApiKey_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ApiKeyPermission" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "apiKeyId" TEXT NOT NULL,
+    "permission" TEXT NOT NULL,
+    CONSTRAINT "ApiKeyPermission_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "ApiKey" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiKey_keyHash_key" ON "ApiKey"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "ApiKey_createdById_idx" ON "ApiKey"("createdById");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiKeyPermission_apiKeyId_permission_key" ON "ApiKeyPermission"("apiKeyId", "permission");
+
+-- Nouvelle permission apiKeys.manage (ADMIN la reçoit toujours, la ligne sert à l'affichage en base)
+INSERT INTO "RolePermission" ("id", "roleId", "permission")
+SELECT 'role_admin_apiKeys.manage', "id", 'apiKeys.manage' FROM "Role" WHERE "name" = 'ADMIN';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "SmsLog" ADD COLUMN "customerId" TEXT;
+ALTER TABLE "SmsLog" ADD COLUMN "event" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "SmsLog" ADD COLUMN "outboxId" TEXT;
+ALTER TABLE "SmsLog" ADD COLUMN "resentAt" DATETIME;
@@ -0,0 +1,63 @@
+import { PrismaClient } from '@prisma/client'
+import { normalizePhone } from '../lib/phone'
+
+const prisma = new PrismaClient()
+
+// Renseigne phoneE164 pour les clients et fournisseurs créés avant la normalisation.
+// Les numéros impossibles sont listés pour correction manuelle, sans être modifiés.
+// Usage : npm run db:backfill-phones [-- --dry-run]
+const dryRun = process.argv.includes('--dry-run')
+
+async function backfill(
+  label: string,
+  rows: { id: string; name: string; phone: string | null }[],
+  update: (id: string, phoneE164: string) => Promise<unknown>
+) {
+  let updated = 0
+  const invalid: string[] = []
+
+  for (const row of rows) {
+    if (!row.phone || row.phone.trim() === '') continue
+
+    const phone = normalizePhone(row.phone)
+    if (!phone.success) {
+      invalid.push(`  ${row.name} (${row.id}): "${row.phone}" - ${phone.error}`)
+      continue
+    }
+
+    if (!dryRun) {
+      await update(row.id, phone.e164)
+    }
+    updated++
+  }
+
+  console.log(`${label}: ${updated} numéro(s) normalisé(s)${dryRun ? ' (dry run)' : ''}, ${invalid.length} invalide(s)`)
+  invalid.forEach(line => console.log(line))
+}
+
+async function main() {
+  const customers = await prisma.customer.findMany({
+    where: { phoneE164: null },
+    select: { id: true, name: true, phone: true }
+  })
+  await backfill('Clients', customers, (id, phoneE164) =>
+    prisma.customer.update({ where: { id }, data: { phoneE164 } })
+  )
+
+  const suppliers = await prisma.supplier.findMany({
+    where: { phoneE164: null },
+    select: { id: true, name: true, phone: true }
+  })
+  await backfill('Fournisseurs', suppliers, (id, phoneE164) =>
+    prisma.supplier.update({ where: { id }, data: { phoneE164 } })
+  )
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
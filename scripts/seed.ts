@@ -40,6 +40,7 @@ async function main() {
       name: 'Marée Atlantique',
       email: 'contact@maree-atlantique.fr',
       phone: '02 98 12 34 56',
+      phoneE164: '+33298123456',
       address: '12 Quai du Port, 29900 Concarneau'
     }
   })
@@ -49,6 +50,7 @@ async function main() {
       name: 'Pêche Bretonne',
       email: 'info@peche-bretonne.fr',
       phone: '02 98 98 76 54',
+      phoneE164: '+33298987654',
       address: '5 Rue des Pêcheurs, 29000 Quimper'
     }
   })
@@ -147,6 +149,18 @@ async function main() {
   ])
   console.log('Created products')
 
+  // Opening balance of the stock ledger
+  await prisma.stockMovement.createMany({
+    data: products.map(product => ({
+      productId: product.id,
+      type: 'ADJUSTMENT',
+      quantity: product.stock,
+      userId: admin.id,
+      note: 'Stock initial'
+    }))
+  })
+  console.log('Created stock movements')
+
   // Create customers
   const customers = await Promise.all([
     prisma.customer.create({
@@ -154,6 +168,7 @@ async function main() {
         name: 'Jean Dupont',
         email: 'jean.dupont@example.com',
         phone: '06 12 34 56 78',
+        phoneE164: '+33612345678',
         address: '15 Rue de la République, 29000 Quimper'
       }
     }),
@@ -162,6 +177,7 @@ async function main() {
         name: 'Marie Martin',
         email: 'marie.martin@example.com',
         phone: '06 98 76 54 32',
+        phoneE164: '+33698765432',
         address: '8 Avenue de la Gare, 29200 Brest'
       }
     }),
@@ -170,6 +186,7 @@ async function main() {
         name: 'Restaurant Le Goéland',
         email: 'contact@legoeland.fr',
         phone: '02 98 45 67 89',
+        phoneE164: '+33298456789',
         address: '3 Place du Port, 29900 Concarneau'
       }
     }),
@@ -178,6 +195,7 @@ async function main() {
         name: 'Sophie Bernard',
         email: 'sophie.bernard@example.com',
         phone: '06 23 45 67 89',
+        phoneE164: '+33623456789',
         address: '22 Rue Victor Hugo, 29000 Quimper'
       }
     })
@@ -1,3 +1,5 @@
+import { ErrorCode, ErrorDetails } from '@/lib/errorCodes'
+
 // Standard API response types for mobile authentication
 
 export interface ApiSuccessResponse<T = unknown> {
@@ -7,7 +9,12 @@ export interface ApiSuccessResponse<T = unknown> {
 
 export interface ApiErrorResponse {
   success: false
+  // Message dans la langue demandée (Accept-Language), destiné à l'affichage
   error: string
+  // Code stable du catalogue (lib/errorCodes.ts) à tester côté client plutôt que le message
+  code: ErrorCode
+  // Données structurées selon le code, ex. INSUFFICIENT_STOCK : { productId, productName, available, requested }
+  details?: ErrorDetails
 }
 
 export type ApiResponse<T = unknown> = ApiSuccessResponse<T> | ApiErrorResponse
@@ -22,6 +29,7 @@ export interface LoginData {
     email: string
     name: string
     role: string
+    permissions: string[]
   }
 }
 
@@ -30,6 +38,8 @@ export type LoginResponse = ApiResponse<LoginData>
 // Refresh token response types
 export interface RefreshTokenData {
   accessToken: string
+  // Nouveau refresh token : l'ancien n'est plus utilisable
+  refreshToken: string
   expiresIn: number
 }
 
@@ -41,6 +51,7 @@ export interface UserData {
   email: string
   name: string
   role: string
+  permissions: string[]
   createdAt: string
 }
 
@@ -58,6 +69,10 @@ export interface JwtPayload {
   userId: string
   email: string
   role: string
+  // Permissions du rôle au moment de l'émission (absentes des tokens émis avant leur introduction)
+  permissions?: string[]
+  // Session (famille de refresh tokens) ayant émis le token
+  sessionId?: string
   iat?: number
   exp?: number
 }
@@ -67,4 +82,8 @@ export interface AuthUser {
   userId: string
   email: string
   role: string
+  permissions: string[]
+  sessionId?: string
+  // Requête authentifiée par une clé d'API (userId est alors l'administrateur qui l'a créée)
+  apiKeyId?: string
 }
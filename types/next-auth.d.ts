@@ -7,6 +7,7 @@ declare module 'next-auth' {
       email: string
       name: string
       role: string
+      permissions: string[]
     }
   }
 
@@ -21,5 +22,8 @@ declare module 'next-auth' {
 declare module 'next-auth/jwt' {
   interface JWT {
     role: string
+    permissions?: string[]
+    // Date (ms) de la dernière lecture des permissions en base
+    permissionsAt?: number
   }
 }